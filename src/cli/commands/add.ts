@@ -7,20 +7,34 @@ import * as fs from 'fs/promises';
 import { FileManager } from '../../core/file-manager.js';
 import { AIService } from '../../core/ai.js';
 import { ConfigManager } from '../../core/config.js';
-import { validateIssueType } from '../../utils/validation.js';
+import { loadProjectConfig, getIssueTypeNames } from '../../core/project-config.js';
+import { IssueFields } from '../../core/types.js';
+import { validateIssueType, validateIssueFields } from '../../utils/validation.js';
 import { getTimestamp } from '../../utils/date.js';
 
 /**
  * Execute add command
  * @param type - Issue type
  * @param filePath - Path to description file
+ * @param fields - Optional planning fields from the command line
  */
-export async function addCommand(type: string, filePath: string): Promise<void> {
-  // Validate type
-  const validatedType = validateIssueType(type);
+export async function addCommand(
+  type: string,
+  filePath: string,
+  fields: IssueFields = {}
+): Promise<void> {
+  // Validate type against the types configured for this project
+  const typeNames = getIssueTypeNames(loadProjectConfig(process.cwd()));
+  const validatedType = validateIssueType(type, typeNames);
   if (!validatedType) {
     console.error(`✗ Invalid issue type: ${type}`);
-    console.error('  Valid types: feat, todo, bug, refact');
+    console.error(`  Valid types: ${typeNames.join(', ')}`);
+    process.exit(1);
+  }
+
+  const invalidField = validateIssueFields(fields);
+  if (invalidField) {
+    console.error(`✗ ${invalidField}`);
     process.exit(1);
   }
 
@@ -75,13 +89,31 @@ export async function addCommand(type: string, filePath: string): Promise<void>
   }
 
   // Create issue
-  const result = await fileManager.createIssue(title, validatedType, description);
+  const result = await fileManager.createIssue(title, validatedType, description, fields);
 
   if (result.success) {
     console.log('✓ Issue created successfully');
     console.log(`  ID: ${result.issue?.number}`);
+    if (result.issue?.id) {
+      console.log(`  Stable ID: ${result.issue.id}`);
+    }
     console.log(`  Title: ${result.issue?.title}`);
     console.log(`  Type: ${result.issue?.type}`);
+    if (result.issue?.priority) {
+      console.log(`  Priority: ${result.issue.priority}`);
+    }
+    if (result.issue?.labels) {
+      console.log(`  Labels: ${result.issue.labels.join(', ')}`);
+    }
+    if (result.issue?.assignee) {
+      console.log(`  Assignee: ${result.issue.assignee}`);
+    }
+    if (result.issue?.due) {
+      console.log(`  Due: ${result.issue.due}`);
+    }
+    if (result.issue?.estimate) {
+      console.log(`  Estimate: ${result.issue.estimate}`);
+    }
     console.log(`  File: ${result.filePath}`);
   } else {
     console.error('✗ Failed to create issue');
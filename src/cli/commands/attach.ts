@@ -0,0 +1,35 @@
+/**
+ * Attach Command
+ * Copy files into an issue's attachment folder and link them from the issue
+ */
+
+import * as path from 'path';
+import { FileManager } from '../../core/file-manager.js';
+import { printCandidates } from './open.js';
+
+/**
+ * Execute attach command
+ * @param identifier - Issue number, stable ID or title
+ * @param filePaths - Files to attach
+ */
+export async function attachCommand(identifier: string, filePaths: string[]): Promise<void> {
+  const basePath = process.cwd();
+  const fileManager = new FileManager(basePath);
+
+  const result = await fileManager.attachFiles(identifier, filePaths);
+
+  if (!result.success) {
+    console.error('✗ Failed to attach files');
+    console.error(`  Error: ${result.error}`);
+    printCandidates(result.candidates);
+    process.exit(1);
+  }
+
+  const issue = result.issue!;
+  const attached = result.attached ?? [];
+  console.log(`✓ Attached ${attached.length} file${attached.length === 1 ? '' : 's'} to issue #${issue.number}`);
+  console.log(`  Title: ${issue.title}`);
+  for (const filePath of attached) {
+    console.log(`  ${path.relative(basePath, filePath)}`);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Check Command
+ * Tick or untick a checklist item in an issue
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { formatChecklistProgress } from '../../core/checklist.js';
+import { validateIssueNumber } from '../../utils/validation.js';
+import { printCandidates } from './open.js';
+
+/**
+ * Execute check command
+ * @param identifier - Issue number, stable ID or title
+ * @param item - Checklist item number, counting from 1
+ * @param options - Set uncheck to clear the item instead
+ */
+export async function checkCommand(
+  identifier: string,
+  item: string,
+  options: { uncheck?: boolean } = {}
+): Promise<void> {
+  const number = validateIssueNumber(item.trim());
+  if (number === null || number < 1) {
+    console.error(`✗ Invalid checklist item "${item}"`);
+    console.error('  Usage: issue-make check <number|title> <item>');
+    process.exit(1);
+  }
+
+  const fileManager = new FileManager(process.cwd());
+  const checked = !options.uncheck;
+
+  const result = await fileManager.checkItem(identifier, number!, checked);
+
+  if (!result.success) {
+    console.error(`✗ Failed to ${checked ? 'check' : 'uncheck'} checklist item`);
+    console.error(`  Error: ${result.error}`);
+    printCandidates(result.candidates);
+    process.exit(1);
+  }
+
+  const issue = result.issue!;
+  const entry = `${result.item!.number}. ${result.item!.text}`;
+  if (result.changed) {
+    console.log(`✓ ${checked ? 'Checked' : 'Unchecked'} item ${entry}`);
+  } else {
+    console.warn(`⚠ Item ${entry} is already ${checked ? 'checked' : 'unchecked'}`);
+  }
+  console.log(`  Issue: #${issue.number} ${issue.title}`);
+  console.log(`  Progress: ${formatChecklistProgress(result.progress!)}`);
+}
@@ -3,15 +3,21 @@
  * Complete and archive an issue
  */
 
-import * as fs from 'fs/promises';
 import { FileManager } from '../../core/file-manager.js';
+import { removeAgentsTaskBlocks } from '../../core/agents.js';
+import { ChecklistItem } from '../../core/types.js';
 import { getAgentsPath } from '../../utils/path.js';
+import { printCandidates } from './open.js';
 
 /**
  * Execute close command
  * @param identifier - Issue number or title
+ * @param options - Set force to close despite unchecked checklist items
  */
-export async function closeCommand(identifier: string): Promise<void> {
+export async function closeCommand(
+  identifier: string,
+  options: { force?: boolean } = {}
+): Promise<void> {
   if (!identifier || identifier.trim().length === 0) {
     console.error('✗ Please provide an issue identifier (number or title)');
     console.error('  Usage: issue-make close <number|title>');
@@ -22,45 +28,42 @@ export async function closeCommand(identifier: string): Promise<void> {
   const fileManager = new FileManager(basePath);
 
   // Close issue
-  const result = await fileManager.closeIssue(identifier);
+  const result = await fileManager.closeIssue(identifier, options);
 
   if (!result.success) {
     console.error('✗ Failed to close issue');
     console.error(`  Error: ${result.error}`);
+    printCandidates(result.candidates);
     if (result.error?.includes('Solution file not found')) {
-      console.error('  Hint: Please create solution.md first or ask your agent to create it');
+      console.error('  Hint: Please write the solution draft for this issue first or ask your agent to create it');
     }
+    printUnchecked(result.unchecked);
     process.exit(1);
   }
 
   console.log('✓ Issue closed successfully');
   console.log(`  Archived: ${result.archivedPath}`);
 
-  // Clean up AGENTS.md
-  await cleanupAgentsFile(basePath);
+  // Drop the closed issue's task; other issues in doing keep theirs
+  const number = result.issue?.number;
+  const cleanup = await removeAgentsTaskBlocks(basePath, block => block.number === number);
+  if (!cleanup.success) {
+    console.warn('⚠ Failed to clean up AGENTS.md');
+    console.warn(`  Error: ${cleanup.error}`);
+  } else if (cleanup.removed) {
+    console.log(`✓ Cleaned up AGENTS.md: ${getAgentsPath(basePath)}`);
+  }
 }
 
 /**
- * Clean up AGENTS.md file
- * @param basePath - Project base path
+ * Print the checklist items that keep an issue from being closed
+ * @param unchecked - Unchecked required items
  */
-async function cleanupAgentsFile(basePath: string): Promise<void> {
-  const agentsPath = getAgentsPath(basePath);
-
-  try {
-    const agentsContent = await fs.readFile(agentsPath, 'utf-8');
-
-    // Remove ISSUE-MAKE section
-    const cleanedContent = agentsContent.replace(
-      /<!-- ISSUE-MAKE:START -->[\s\S]*?<!-- ISSUE-MAKE:END -->\n?/g,
-      ''
-    );
-
-    await fs.writeFile(agentsPath, cleanedContent, 'utf-8');
-
-    console.log(`✓ Cleaned up AGENTS.md: ${agentsPath}`);
-  } catch (error) {
-    console.warn('⚠ Failed to clean up AGENTS.md');
-    console.warn(`  Error: ${error}`);
+export function printUnchecked(unchecked: ChecklistItem[] = []): void {
+  for (const item of unchecked) {
+    console.error(`  [ ] ${item.number}. ${item.text}`);
   }
-}
\ No newline at end of file
+  if (unchecked.length > 0) {
+    console.error('  Hint: Tick them with "issue-make check <identifier> <item>" or close with --force');
+  }
+}
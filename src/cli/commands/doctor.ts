@@ -0,0 +1,57 @@
+/**
+ * Doctor Command
+ * Check the .issues tree for inconsistencies and optionally repair them
+ */
+
+import * as path from 'path';
+import { IssueDoctor } from '../../core/doctor.js';
+import { DoctorSeverity } from '../../core/types.js';
+
+const SEVERITY_ICONS: Record<DoctorSeverity, string> = {
+  [DoctorSeverity.ERROR]: '✗',
+  [DoctorSeverity.WARNING]: '⚠',
+  [DoctorSeverity.INFO]: 'ℹ',
+};
+
+/**
+ * Execute doctor command
+ * @param options - Set fix to repair the problems that can be repaired safely
+ */
+export async function doctorCommand(options: { fix?: boolean } = {}): Promise<void> {
+  const basePath = process.cwd();
+  const doctor = new IssueDoctor(basePath);
+
+  const result = await doctor.run({ fix: options.fix });
+  if (!result.success) {
+    console.error('✗ Failed to check issues');
+    console.error(`  Error: ${result.error}`);
+    process.exit(1);
+  }
+
+  const fixed = result.fixed || [];
+  if (fixed.length > 0) {
+    console.log(`✓ Fixed ${fixed.length} problem(s):`);
+    for (const description of fixed) {
+      console.log(`  ${description}`);
+    }
+  }
+
+  const findings = result.findings || [];
+  if (findings.length === 0) {
+    console.log('✓ No problems found');
+    return;
+  }
+
+  console.log(`Found ${findings.length} problem(s):`);
+  for (const finding of findings) {
+    const location = finding.filePath ? `${path.relative(basePath, finding.filePath)}: ` : '';
+    const hint = finding.fixable && !options.fix ? ' (fixable with --fix)' : '';
+    console.log(
+      `  ${SEVERITY_ICONS[finding.severity]} [${finding.severity}] ${location}${finding.message}${hint}`
+    );
+  }
+
+  if (findings.some(finding => finding.severity === DoctorSeverity.ERROR)) {
+    process.exit(1);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Graph Command
+ * Print the blocking relations between issues
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { formatDependencyDot, formatDependencyTree } from '../../core/dependencies.js';
+
+/**
+ * Execute graph command
+ * @param options - Set dot to print Graphviz DOT instead of a tree
+ */
+export async function graphCommand(options: { dot?: boolean } = {}): Promise<void> {
+  const fileManager = new FileManager(process.cwd());
+
+  // Achieved blockers still explain the order work was done in
+  const result = await fileManager.listIssues({ all: true });
+  if (!result.success) {
+    console.error('✗ Failed to build dependency graph');
+    console.error(`  Error: ${result.error}`);
+    process.exit(1);
+  }
+
+  const issues = result.issues || [];
+  if (options.dot) {
+    console.log(formatDependencyDot(issues));
+    return;
+  }
+
+  const tree = formatDependencyTree(issues);
+  console.log(tree || 'No dependencies recorded.');
+}
@@ -0,0 +1,65 @@
+/**
+ * Link Commands
+ * Record and remove blocking relations between issues
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { IssueLinkResult } from '../../core/types.js';
+import { printCandidates } from './open.js';
+
+/**
+ * Execute link command
+ * @param blocker - Issue that has to be achieved first (number, stable ID or title)
+ * @param blocked - Issue that waits for it
+ */
+export async function linkCommand(blocker: string, blocked: string): Promise<void> {
+  const fileManager = new FileManager(process.cwd());
+
+  const result = await fileManager.linkIssues(blocker, blocked);
+  reportLink(result, 'link', 'now blocks', 'already blocks');
+}
+
+/**
+ * Execute unlink command
+ * @param blocker - Issue that blocks (number, stable ID or title)
+ * @param blocked - Issue that is blocked
+ */
+export async function unlinkCommand(blocker: string, blocked: string): Promise<void> {
+  const fileManager = new FileManager(process.cwd());
+
+  const result = await fileManager.unlinkIssues(blocker, blocked);
+  reportLink(result, 'unlink', 'no longer blocks', 'did not block');
+}
+
+/**
+ * Print the outcome of a link or unlink command
+ * @param result - Link result
+ * @param action - Command name for the failure message
+ * @param changedVerb - Relation wording when the files were updated
+ * @param unchangedVerb - Relation wording when nothing had to change
+ */
+function reportLink(
+  result: IssueLinkResult,
+  action: string,
+  changedVerb: string,
+  unchangedVerb: string
+): void {
+  if (!result.success) {
+    console.error(`✗ Failed to ${action} issues`);
+    console.error(`  Error: ${result.error}`);
+    printCandidates(result.candidates);
+    process.exit(1);
+  }
+
+  const blocker = result.blocker!;
+  const blocked = result.blocked!;
+  const verb = result.changed ? changedVerb : unchangedVerb;
+  const relation = `#${blocker.number} (${blocker.id}) ${verb} #${blocked.number} (${blocked.id})`;
+  if (result.changed) {
+    console.log(`✓ Issue ${relation}`);
+  } else {
+    console.warn(`⚠ Issue ${relation}; nothing to change`);
+  }
+  console.log(`  Blocker: ${blocker.title}`);
+  console.log(`  Blocked: ${blocked.title}`);
+}
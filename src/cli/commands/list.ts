@@ -1,18 +1,36 @@
 /**
  * List Command
- * Display current issues in a table
+ * Display current issues in a table or a machine-readable format
  */
 
 import { FileManager } from '../../core/file-manager.js';
+import { loadProjectConfig } from '../../core/project-config.js';
+import { OUTPUT_FORMATS, formatIssueList, parseOutputFormat } from '../../utils/output.js';
 
 /**
  * Execute list command
+ * @param options - Set all to include archived issues, group to print one table per workflow state,
+ *                  query to keep the issues matching a filter such as type:bug label:parser
+ *                  and format to print json, csv, tsv, markdown or yaml instead of the table
  */
-export async function listCommand(): Promise<void> {
+export async function listCommand(
+  options: { all?: boolean; group?: boolean; query?: string; format?: string } = {}
+): Promise<void> {
+  const format = parseOutputFormat(options.format);
+  if (!format) {
+    console.error(`✗ Invalid format: ${options.format}`);
+    console.error(`  Valid formats: ${OUTPUT_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+  if (options.group && format !== 'table') {
+    console.error('✗ --group only works with the table format');
+    process.exit(1);
+  }
+
   const basePath = process.cwd();
   const fileManager = new FileManager(basePath);
 
-  const result = await fileManager.listIssues();
+  const result = await fileManager.listIssues({ all: options.all, query: options.query });
   if (!result.success) {
     console.error('✗ Failed to list issues');
     console.error(`  Error: ${result.error}`);
@@ -20,27 +38,12 @@ export async function listCommand(): Promise<void> {
   }
 
   const issues = result.issues || [];
-  if (issues.length === 0) {
-    console.log('No issues found.');
+  if (issues.length === 0 && format === 'table') {
+    console.log(options.query?.trim() ? 'No issues match the filter.' : 'No issues found.');
     return;
   }
 
-  const header = ['Index', 'Type', 'Status', 'Title'];
-  const rows = issues.map(issue => [
-    String(issue.index),
-    String(issue.type),
-    issue.status,
-    issue.title,
-  ]);
-
-  const allRows = [header, ...rows];
-  const widths = header.map((_, col) => Math.max(...allRows.map(row => row[col].length)));
-  const formatRow = (row: string[]) =>
-    row.map((cell, col) => cell.padEnd(widths[col])).join('  ');
-
-  console.log(formatRow(header));
-  console.log(widths.map(width => '-'.repeat(width)).join('  '));
-  for (const row of rows) {
-    console.log(formatRow(row));
-  }
+  // Workflow order, skipping states without issues
+  const groupBy = options.group ? loadProjectConfig(basePath).workflow.states : undefined;
+  console.log(formatIssueList(issues, format!, { groupBy }));
 }
@@ -0,0 +1,94 @@
+/**
+ * Migrate Command
+ * Upgrade the .issues tree to the current on-disk format
+ */
+
+import * as path from 'path';
+import { FileManager } from '../../core/file-manager.js';
+import { ISSUE_SCHEMA_VERSION } from '../../core/types.js';
+import { formatUnifiedDiff } from '../../utils/diff.js';
+
+/**
+ * Execute migrate command
+ * @param options - Set dryRun to report changes without applying them
+ */
+export async function migrateCommand(options: { dryRun?: boolean } = {}): Promise<void> {
+  const basePath = process.cwd();
+  const fileManager = new FileManager(basePath);
+
+  const result = await fileManager.migrateArchive({ dryRun: options.dryRun });
+  if (!result.success) {
+    console.error('✗ Failed to migrate issues');
+    console.error(`  Error: ${result.error}`);
+    process.exit(1);
+  }
+
+  const renames = result.renames || [];
+  if (renames.length === 0) {
+    console.log('✓ Archive already uses collision-safe filenames');
+  } else {
+    console.log(
+      options.dryRun
+        ? `Would rename ${renames.length} archived issue(s):`
+        : `✓ Renamed ${renames.length} archived issue(s):`
+    );
+    for (const rename of renames) {
+      const note = rename.collision ? ' (name collision resolved)' : '';
+      console.log(`  ${path.basename(rename.from)} -> ${path.basename(rename.to)}${note}`);
+    }
+  }
+
+  const uidResult = await fileManager.migrateUids({ dryRun: options.dryRun });
+  if (!uidResult.success) {
+    console.error('✗ Failed to migrate issues');
+    console.error(`  Error: ${uidResult.error}`);
+    process.exit(1);
+  }
+
+  const assigned = uidResult.assigned || [];
+  if (assigned.length === 0) {
+    console.log('✓ All issues have stable IDs');
+  } else {
+    console.log(
+      options.dryRun
+        ? `Would assign stable IDs to ${assigned.length} issue(s):`
+        : `✓ Assigned stable IDs to ${assigned.length} issue(s):`
+    );
+    for (const { filePath, id } of assigned) {
+      console.log(`  ${id}  ${path.basename(filePath)}`);
+    }
+  }
+
+  const schemaResult = await fileManager.migrateSchema({ dryRun: options.dryRun });
+  if (!schemaResult.success) {
+    console.error('✗ Failed to migrate issues');
+    console.error(`  Error: ${schemaResult.error}`);
+    process.exit(1);
+  }
+
+  for (const { filePath, reason } of schemaResult.skipped || []) {
+    console.warn(`⚠ Skipped ${path.relative(basePath, filePath)}: ${reason}`);
+  }
+
+  const upgrades = schemaResult.upgrades || [];
+  if (upgrades.length === 0) {
+    console.log(`✓ All issues use schema version ${ISSUE_SCHEMA_VERSION}`);
+    return;
+  }
+
+  console.log(
+    options.dryRun
+      ? `Would upgrade ${upgrades.length} issue(s) to schema version ${ISSUE_SCHEMA_VERSION}:`
+      : `✓ Upgraded ${upgrades.length} issue(s) to schema version ${ISSUE_SCHEMA_VERSION}:`
+  );
+  for (const upgrade of upgrades) {
+    const file = path.relative(basePath, upgrade.filePath);
+    console.log(`  ${file} (from version ${upgrade.from})`);
+    for (const change of upgrade.changes) {
+      console.log(`    - ${change}`);
+    }
+    if (options.dryRun) {
+      console.log(formatUnifiedDiff(upgrade.before, upgrade.after, { file }));
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Move Command
+ * Move an issue to another workflow state
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { removeAgentsTaskBlocks } from '../../core/agents.js';
+import { IssueStatus } from '../../core/types.js';
+import { printBlockers, printCandidates, updateAgentsFile } from './open.js';
+import { printUnchecked } from './close.js';
+
+/**
+ * Execute move command
+ * @param identifier - Issue number, stable ID or title
+ * @param state - Target workflow state
+ * @param options - Set force to move despite unfinished blockers or unchecked checklist items
+ */
+export async function moveCommand(
+  identifier: string,
+  state: string,
+  options: { force?: boolean } = {}
+): Promise<void> {
+  if (!identifier || identifier.trim().length === 0 || !state || state.trim().length === 0) {
+    console.error('✗ Please provide an issue identifier and a target state');
+    console.error('  Usage: issue-make move <number|title> <state>');
+    process.exit(1);
+  }
+
+  const basePath = process.cwd();
+  const fileManager = new FileManager(basePath);
+
+  // Move issue
+  const result = await fileManager.moveIssue(identifier, state.trim(), options);
+
+  if (!result.success) {
+    console.error('✗ Failed to move issue');
+    console.error(`  Error: ${result.error}`);
+    printCandidates(result.candidates);
+    if (result.error?.includes('Solution file not found')) {
+      console.error('  Hint: Please write the solution draft for this issue first or ask your agent to create it');
+    }
+    printBlockers(result.blockers);
+    printUnchecked(result.unchecked);
+    process.exit(1);
+  }
+
+  const issue = result.issue!;
+  console.log(`✓ Issue moved from ${result.from} to ${result.to}`);
+  console.log(`  ID: ${issue.number}`);
+  if (issue.id) {
+    console.log(`  Stable ID: ${issue.id}`);
+  }
+  console.log(`  Title: ${issue.title}`);
+  console.log(`  File: ${issue.filePath}`);
+  if (result.solutionPath) {
+    console.log(`  Solution file: ${result.solutionPath}`);
+  }
+
+  // Keep AGENTS.md describing exactly the issues in doing
+  if (result.to === IssueStatus.DOING) {
+    await updateAgentsFile(basePath, issue, result.solutionPath!);
+  } else if (result.from === IssueStatus.DOING) {
+    const cleanup = await removeAgentsTaskBlocks(basePath, block => block.number === issue.number);
+    if (!cleanup.success) {
+      console.warn('⚠ Failed to clean up AGENTS.md');
+      console.warn(`  Error: ${cleanup.error}`);
+    } else if (cleanup.removed) {
+      console.log('✓ Cleaned up AGENTS.md');
+    }
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Note Command
+ * Append a timestamped note to an issue
+ */
+
+import * as fs from 'fs/promises';
+import { FileManager } from '../../core/file-manager.js';
+import { formatDateTime } from '../../utils/date.js';
+import { printCandidates } from './open.js';
+
+/**
+ * Execute note command
+ * @param identifier - Issue number, stable ID or title
+ * @param words - Note text given on the command line
+ * @param options - Set file to read the note text from a file instead
+ */
+export async function noteCommand(
+  identifier: string,
+  words: string[] = [],
+  options: { file?: string } = {}
+): Promise<void> {
+  if (words.length > 0 && options.file) {
+    console.error('✗ Please give the note either as text or with --file, not both');
+    process.exit(1);
+  }
+
+  let text = words.join(' ');
+  if (options.file) {
+    try {
+      text = await fs.readFile(options.file, 'utf-8');
+    } catch (error) {
+      console.error(`✗ Failed to read note file: ${options.file}`);
+      console.error(`  Error: ${error}`);
+      process.exit(1);
+    }
+  }
+  if (!text.trim()) {
+    console.error('✗ Please provide the note text');
+    console.error('  Usage: issue-make note <number|title> <text> or issue-make note <number|title> --file <path>');
+    process.exit(1);
+  }
+
+  const fileManager = new FileManager(process.cwd());
+
+  const result = await fileManager.addNote(identifier, text);
+
+  if (!result.success) {
+    console.error('✗ Failed to add note');
+    console.error(`  Error: ${result.error}`);
+    printCandidates(result.candidates);
+    process.exit(1);
+  }
+
+  const issue = result.issue!;
+  const note = result.note!;
+  console.log(`✓ Note added to issue #${issue.number}`);
+  console.log(`  Title: ${issue.title}`);
+  console.log(`  By: ${note.by} at ${formatDateTime(new Date(note.at))}`);
+}
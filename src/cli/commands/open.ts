@@ -5,16 +5,19 @@
 
 import * as fs from 'fs/promises';
 import { FileManager } from '../../core/file-manager.js';
-import { getAgentsPath, getSolutionPath } from '../../utils/path.js';
-
-const ISSUE_MAKE_START = '<!-- ISSUE-MAKE:START -->';
-const ISSUE_MAKE_END = '<!-- ISSUE-MAKE:END -->';
+import { ISSUE_MAKE_END, ISSUE_MAKE_START, findAgentsTaskBlocks } from '../../core/agents.js';
+import { IssueCandidate, IssueListItem } from '../../core/types.js';
+import { getAgentsPath } from '../../utils/path.js';
 
 /**
  * Execute open command
  * @param identifier - Issue number or title
+ * @param options - Set force to open an issue whose blockers are not achieved
  */
-export async function openCommand(identifier: string): Promise<void> {
+export async function openCommand(
+  identifier: string,
+  options: { force?: boolean } = {}
+): Promise<void> {
   if (!identifier || identifier.trim().length === 0) {
     console.error('✗ Please provide an issue identifier (number or title)');
     console.error('  Usage: issue-make open <number|title>');
@@ -25,39 +28,77 @@ export async function openCommand(identifier: string): Promise<void> {
   const fileManager = new FileManager(basePath);
 
   // Open issue
-  const result = await fileManager.openIssue(identifier);
+  const result = await fileManager.openIssue(identifier, options);
 
   if (!result.success) {
     console.error('✗ Failed to open issue');
     console.error(`  Error: ${result.error}`);
+    printCandidates(result.candidates);
+    printBlockers(result.blockers);
     process.exit(1);
   }
 
   const issue = result.issue!;
-  console.log('✓ Issue opened successfully');
+  console.log(result.reopened ? '✓ Issue reopened successfully' : '✓ Issue opened successfully');
   console.log(`  ID: ${issue.number}`);
+  if (issue.id) {
+    console.log(`  Stable ID: ${issue.id}`);
+  }
   console.log(`  Title: ${issue.title}`);
   console.log(`  Type: ${issue.type}`);
   console.log(`  Solution file: ${result.solutionPath}`);
 
   // Update AGENTS.md
-  await updateAgentsFile(basePath, issue);
+  await updateAgentsFile(basePath, issue, result.solutionPath!);
+}
+
+/**
+ * List the unfinished blockers that stopped an issue from being worked on
+ * @param blockers - Blockers reported by the file manager
+ */
+export function printBlockers(blockers: IssueListItem[] = []): void {
+  for (const blocker of blockers) {
+    console.error(`  Blocked by #${blocker.number} ${blocker.title} (${blocker.status})`);
+  }
+  if (blockers.length > 0) {
+    console.error('  Hint: Use --force to start it anyway');
+  }
+}
+
+/**
+ * Print the issues an ambiguous title matched, best match first
+ * @param candidates - Candidates from the failed lookup
+ */
+export function printCandidates(candidates: IssueCandidate[] = []): void {
+  if (candidates.length === 0) {
+    return;
+  }
+  console.error('  Candidates:');
+  for (const candidate of candidates) {
+    const id = candidate.id ? ` ${candidate.id}` : '';
+    console.error(`    #${candidate.number}${id} ${candidate.title} (${candidate.status})`);
+  }
+  console.error('  Hint: Run the command again with one of these numbers or IDs');
 }
 
 /**
  * Update AGENTS.md file with task description
  * @param basePath - Project base path
  * @param issue - Issue object
+ * @param solutionPath - Path to the issue's solution draft
  */
-async function updateAgentsFile(basePath: string, issue: any): Promise<void> {
+export async function updateAgentsFile(
+  basePath: string,
+  issue: any,
+  solutionPath: string
+): Promise<void> {
   const agentsPath = getAgentsPath(basePath);
-  const solutionPath = getSolutionPath(basePath);
 
   const taskContent = `
 ${ISSUE_MAKE_START}
 ## Task: ${issue.title}
 
-**Issue ID:** ${issue.number}
+**Issue ID:** ${issue.number}${issue.id ? `\n**Stable ID:** ${issue.id}` : ''}
 **Type:** ${issue.type}
 **Created:** ${issue.createDate}
 
@@ -82,11 +123,10 @@ ${ISSUE_MAKE_END}
       agentsContent = '# AGENTS.md\n\nThis file contains tasks for AI agents.\n\n';
     }
 
-    // Remove existing ISSUE-MAKE section
-    const cleanedContent = agentsContent.replace(
-      /<!-- ISSUE-MAKE:START -->[\s\S]*?<!-- ISSUE-MAKE:END -->\n?/g,
-      ''
-    );
+    // Replace this issue's block; the blocks of other issues in doing stay
+    const cleanedContent = findAgentsTaskBlocks(agentsContent)
+      .filter(block => block.number === issue.number)
+      .reduce((content, block) => content.replace(block.text, ''), agentsContent);
 
     // Append new task
     const newContent = cleanedContent + taskContent;
@@ -0,0 +1,45 @@
+/**
+ * Reopen Command
+ * Restore an archived issue to doing
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { printCandidates, updateAgentsFile } from './open.js';
+
+/**
+ * Execute reopen command
+ * @param identifier - Original issue number or title
+ */
+export async function reopenCommand(identifier: string): Promise<void> {
+  if (!identifier || identifier.trim().length === 0) {
+    console.error('✗ Please provide an issue identifier (number or title)');
+    console.error('  Usage: issue-make reopen <number|title>');
+    process.exit(1);
+  }
+
+  const basePath = process.cwd();
+  const fileManager = new FileManager(basePath);
+
+  // Reopen issue
+  const result = await fileManager.reopenIssue(identifier);
+
+  if (!result.success) {
+    console.error('✗ Failed to reopen issue');
+    console.error(`  Error: ${result.error}`);
+    printCandidates(result.candidates);
+    process.exit(1);
+  }
+
+  const issue = result.issue!;
+  console.log('✓ Issue reopened successfully');
+  console.log(`  ID: ${issue.number}`);
+  if (issue.id) {
+    console.log(`  Stable ID: ${issue.id}`);
+  }
+  console.log(`  Title: ${issue.title}`);
+  console.log(`  Type: ${issue.type}`);
+  console.log(`  Solution file: ${result.solutionPath}`);
+
+  // Update AGENTS.md
+  await updateAgentsFile(basePath, issue, result.solutionPath!);
+}
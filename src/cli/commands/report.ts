@@ -0,0 +1,55 @@
+/**
+ * Report Command
+ * Total the time tracked on issues
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { buildTimeReport } from '../../core/time-report.js';
+import { formatDuration, getCurrentDate } from '../../utils/date.js';
+import { formatTable } from '../../utils/table.js';
+
+/**
+ * Execute report command
+ * @param options - Inclusive YYYY-MM-DD range and grouping (type or label)
+ */
+export async function reportCommand(
+  options: { since?: string; until?: string; by?: string } = {}
+): Promise<void> {
+  const fileManager = new FileManager(process.cwd());
+
+  const listResult = await fileManager.listIssues({ all: true });
+  if (!listResult.success) {
+    console.error('✗ Failed to build report');
+    console.error(`  Error: ${listResult.error}`);
+    process.exit(1);
+  }
+
+  const report = buildTimeReport(listResult.issues || [], options);
+  if (!report.success) {
+    console.error('✗ Failed to build report');
+    console.error(`  Error: ${report.error}`);
+    process.exit(1);
+  }
+
+  const by = options.by ?? 'type';
+  const range = report.since
+    ? `from ${report.since} to ${report.until ?? getCurrentDate()}`
+    : `up to ${report.until ?? getCurrentDate()}`;
+  const days = report.days ? ` (${report.days} day${report.days === 1 ? '' : 's'})` : '';
+  console.log(`Time by ${by} ${range}${days}`);
+
+  const rows = report.rows || [];
+  if (rows.length === 0) {
+    console.log('No time tracked.');
+    return;
+  }
+
+  console.log(
+    formatTable([
+      [by === 'type' ? 'Type' : 'Label', 'Issues', 'Time'],
+      ...rows.map(row => [row.key, String(row.issues), formatDuration(row.minutes)]),
+    ])
+  );
+  console.log('');
+  console.log(`Total: ${formatDuration(report.totalMinutes ?? 0)}`);
+}
@@ -0,0 +1,63 @@
+/**
+ * Search Command
+ * Full-text search over titles, descriptions, notes and solutions of all issues
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { formatSearchHits, parseSearchQuery } from '../../core/search.js';
+import { validateIssueNumber } from '../../utils/validation.js';
+import { OUTPUT_FORMATS, formatSearchRecords, parseOutputFormat } from '../../utils/output.js';
+
+/**
+ * Number of hits shown when no limit is given
+ */
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Execute search command
+ * @param words - Query words; "quoted phrases" and -excluded terms are allowed
+ * @param options - Maximum number of issues to show and the output format
+ */
+export async function searchCommand(
+  words: string[],
+  options: { limit?: string; format?: string } = {}
+): Promise<void> {
+  const query = words.join(' ');
+  const format = parseOutputFormat(options.format);
+  if (!format) {
+    console.error(`✗ Invalid format: ${options.format}`);
+    console.error(`  Valid formats: ${OUTPUT_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+  const limit = options.limit !== undefined ? validateIssueNumber(options.limit.trim()) : DEFAULT_LIMIT;
+  if (limit === null || limit < 1) {
+    console.error(`✗ Invalid limit "${options.limit}"`);
+    console.error('  Use a whole number of issues, such as --limit 10');
+    process.exit(1);
+  }
+
+  const fileManager = new FileManager(process.cwd());
+
+  const result = await fileManager.searchIssues(query, { limit: limit! });
+
+  if (!result.success) {
+    console.error('✗ Search failed');
+    console.error(`  Error: ${result.error}`);
+    process.exit(1);
+  }
+
+  const hits = result.hits ?? [];
+  if (format !== 'table') {
+    console.log(formatSearchRecords(hits, format!));
+    return;
+  }
+  if (hits.length === 0) {
+    console.log(`No issues match "${query}".`);
+    return;
+  }
+
+  const total = result.total ?? hits.length;
+  const shown = total > hits.length ? ` (showing the best ${hits.length})` : '';
+  console.log(`${total} issue${total === 1 ? ' matches' : 's match'} "${query}"${shown}\n`);
+  console.log(formatSearchHits(hits, parseSearchQuery(query)));
+}
@@ -0,0 +1,66 @@
+/**
+ * Show Command
+ * Print an issue with its notes, or the timeline of its state changes
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import {
+  OUTPUT_FORMATS,
+  formatHistory,
+  formatIssueBody,
+  formatIssueDetail,
+  formatIssueHeader,
+  parseOutputFormat,
+} from '../../utils/output.js';
+import { printCandidates } from './open.js';
+
+/**
+ * Execute show command
+ * @param identifier - Issue number, stable ID or title
+ * @param options - Set history to print the state change timeline instead of the body
+ *                  and format to print json, csv, tsv, markdown or yaml
+ */
+export async function showCommand(
+  identifier: string,
+  options: { history?: boolean; format?: string } = {}
+): Promise<void> {
+  const format = parseOutputFormat(options.format);
+  if (!format) {
+    console.error(`✗ Invalid format: ${options.format}`);
+    console.error(`  Valid formats: ${OUTPUT_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+  if (options.history && format !== 'table') {
+    console.error('✗ --history only works with the table format; the other formats include the history');
+    process.exit(1);
+  }
+
+  const basePath = process.cwd();
+  const fileManager = new FileManager(basePath);
+
+  const result = await fileManager.findIssue(identifier);
+  if (!result.found || !result.issue) {
+    console.error('✗ Failed to show issue');
+    console.error(`  Error: ${result.error || 'Issue not found'}`);
+    printCandidates(result.candidates);
+    process.exit(1);
+  }
+
+  const issue = result.issue;
+  if (format !== 'table') {
+    console.log(formatIssueDetail(issue, format!, basePath));
+    return;
+  }
+
+  for (const line of formatIssueHeader(issue, basePath)) {
+    console.log(line);
+  }
+  console.log('');
+
+  if (options.history) {
+    console.log(formatHistory(issue));
+    return;
+  }
+
+  console.log(formatIssueBody(issue));
+}
@@ -0,0 +1,41 @@
+/**
+ * Track Command
+ * Start, pause and resume work sessions on issues in doing
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { TimeTrackingAction } from '../../core/types.js';
+import { formatDuration } from '../../utils/date.js';
+import { printCandidates } from './open.js';
+
+const PAST_TENSE: Record<TimeTrackingAction, string> = {
+  start: 'Started',
+  pause: 'Paused',
+  resume: 'Resumed',
+};
+
+/**
+ * Execute start, pause or resume command
+ * @param action - Tracking action
+ * @param identifier - Issue number, stable ID or title; picked from doing when omitted
+ */
+export async function trackCommand(
+  action: TimeTrackingAction,
+  identifier?: string
+): Promise<void> {
+  const fileManager = new FileManager(process.cwd());
+
+  const result = await fileManager.trackTime(action, identifier?.trim() || undefined);
+
+  if (!result.success) {
+    console.error(`✗ Failed to ${action} time tracking`);
+    console.error(`  Error: ${result.error}`);
+    printCandidates(result.candidates);
+    process.exit(1);
+  }
+
+  const issue = result.issue!;
+  console.log(`✓ ${PAST_TENSE[action]} time tracking on issue #${issue.number}`);
+  console.log(`  Title: ${issue.title}`);
+  console.log(`  Tracked so far: ${formatDuration(result.totalMinutes ?? 0)}`);
+}
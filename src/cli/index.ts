@@ -8,8 +8,35 @@ import { initCommand } from './commands/init.js';
 import { addCommand } from './commands/add.js';
 import { openCommand } from './commands/open.js';
 import { closeCommand } from './commands/close.js';
+import { checkCommand } from './commands/check.js';
+import { noteCommand } from './commands/note.js';
+import { attachCommand } from './commands/attach.js';
+import { searchCommand } from './commands/search.js';
+import { reopenCommand } from './commands/reopen.js';
+import { moveCommand } from './commands/move.js';
 import { listCommand } from './commands/list.js';
+import { migrateCommand } from './commands/migrate.js';
+import { showCommand } from './commands/show.js';
+import { linkCommand, unlinkCommand } from './commands/link.js';
+import { graphCommand } from './commands/graph.js';
+import { trackCommand } from './commands/track.js';
+import { reportCommand } from './commands/report.js';
+import { doctorCommand } from './commands/doctor.js';
 import { testLLMCommand } from './commands/test-llm.js';
+import { parseLabels } from '../utils/validation.js';
+import {
+  DEFAULT_PROJECT_CONFIG,
+  ProjectConfig,
+  loadProjectConfig,
+  getIssueTypeNames,
+  getWorkflowStateNames,
+  ProjectConfigError,
+} from '../core/project-config.js';
+
+/**
+ * Commands that only use the global configuration and work outside a project
+ */
+const GLOBAL_COMMANDS = ['init', 'test-llm'];
 
 /**
  * Create and configure CLI
@@ -17,11 +44,36 @@ import { testLLMCommand } from './commands/test-llm.js';
 export function createCLI(): Command {
   const program = new Command();
 
+  // Help lists the project's own types; a broken config is reported by the preAction hook
+  let projectConfig: ProjectConfig;
+  try {
+    projectConfig = loadProjectConfig(process.cwd());
+  } catch {
+    projectConfig = DEFAULT_PROJECT_CONFIG;
+  }
+
   program
     .name('issue-make')
     .description('A lightweight issue management tool for developers')
     .version('1.0.0');
 
+  // Report a broken .issues/config.yaml once, before any command touches the issues
+  program.hook('preAction', (_program, actionCommand) => {
+    if (GLOBAL_COMMANDS.includes(actionCommand.name())) {
+      return;
+    }
+    try {
+      loadProjectConfig(process.cwd());
+    } catch (error) {
+      if (!(error instanceof ProjectConfigError)) {
+        throw error;
+      }
+      console.error('✗ Invalid project configuration');
+      console.error(`  Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
   program
     .command('init')
     .description('Initialize issue-make configuration')
@@ -32,33 +84,218 @@ export function createCLI(): Command {
   program
     .command('add')
     .description('Create a new issue from a description file')
-    .option('--type <type>', 'Issue type (feat, todo, bug, refact)', 'feat')
+    .option(
+      '--type <type>',
+      `Issue type (${getIssueTypeNames(projectConfig).join(', ')})`,
+      projectConfig.defaults.type
+    )
+    .option('--priority <priority>', 'Priority (low, medium, high, critical)')
+    .option('--labels <labels>', 'Comma-separated labels')
+    .option('--assignee <name>', 'Person responsible for the issue')
+    .option('--due <date>', 'Due date (YYYY-MM-DD)')
+    .option('--estimate <duration>', 'Estimated effort (e.g. 30m, 2h, 1.5d, 1w)')
     .argument('<path>', 'Path to description file')
-    .action(async (path: string, options: { type: string }) => {
-      await addCommand(options.type, path);
-    });
+    .action(
+      async (
+        path: string,
+        options: {
+          type: string;
+          priority?: string;
+          labels?: string;
+          assignee?: string;
+          due?: string;
+          estimate?: string;
+        }
+      ) => {
+        await addCommand(options.type, path, {
+          priority: options.priority,
+          labels: options.labels !== undefined ? parseLabels(options.labels) : undefined,
+          assignee: options.assignee,
+          due: options.due,
+          estimate: options.estimate,
+        });
+      }
+    );
 
   program
     .command('open')
-    .description('Start working on an issue')
-    .argument('<identifier>', 'Issue number or title')
-    .action(async (identifier: string) => {
-      await openCommand(identifier);
+    .description('Start working on an issue (reopens archived issues)')
+    .argument('<identifier>', 'Issue number, stable ID or title')
+    .option('-f, --force', 'Open even if blocking issues are not achieved')
+    .action(async (identifier: string, options: { force?: boolean }) => {
+      await openCommand(identifier, options);
     });
 
   program
     .command('close')
     .description('Complete and archive an issue')
-    .argument('<identifier>', 'Issue number or title')
+    .argument('<identifier>', 'Issue number, stable ID or title')
+    .option('-f, --force', 'Close even if required checklist items are unchecked')
+    .action(async (identifier: string, options: { force?: boolean }) => {
+      await closeCommand(identifier, options);
+    });
+
+  program
+    .command('check')
+    .description('Tick a checklist item in an issue')
+    .argument('<identifier>', 'Issue number, stable ID or title')
+    .argument('<item>', 'Checklist item number, counting from 1')
+    .option('-u, --uncheck', 'Clear the item instead')
+    .action(async (identifier: string, item: string, options: { uncheck?: boolean }) => {
+      await checkCommand(identifier, item, options);
+    });
+
+  program
+    .command('reopen')
+    .description('Restore an archived issue to doing')
+    .argument('<identifier>', 'Original issue number, stable ID or title')
     .action(async (identifier: string) => {
-      await closeCommand(identifier);
+      await reopenCommand(identifier);
+    });
+
+  program
+    .command('move')
+    .description('Move an issue to another workflow state')
+    .argument('<identifier>', 'Issue number, stable ID or title')
+    .argument('<state>', `Target state (${getWorkflowStateNames(projectConfig).join(', ')})`)
+    .option(
+      '-f, --force',
+      'Move even if blocking issues are not achieved or required checklist items are unchecked'
+    )
+    .action(async (identifier: string, state: string, options: { force?: boolean }) => {
+      await moveCommand(identifier, state, options);
+    });
+
+  program
+    .command('note')
+    .description('Append a timestamped note to an issue')
+    .argument('<identifier>', 'Issue number, stable ID or title')
+    .argument('[text...]', 'Note text')
+    .option('--file <path>', 'Read the note text from a file')
+    .action(async (identifier: string, text: string[], options: { file?: string }) => {
+      await noteCommand(identifier, text, options);
+    });
+
+  program
+    .command('attach')
+    .description('Copy files into an issue\'s attachment folder and link them from the issue')
+    .argument('<identifier>', 'Issue number, stable ID or title')
+    .argument('<paths...>', 'Files to attach')
+    .action(async (identifier: string, paths: string[]) => {
+      await attachCommand(identifier, paths);
+    });
+
+  program
+    .command('link')
+    .description('Record that one issue blocks another')
+    .argument('<blocker>', 'Issue that has to be achieved first')
+    .argument('<blocked>', 'Issue that waits for it')
+    .action(async (blocker: string, blocked: string) => {
+      await linkCommand(blocker, blocked);
+    });
+
+  program
+    .command('unlink')
+    .description('Remove a blocking relation')
+    .argument('<blocker>', 'Issue that blocks')
+    .argument('<blocked>', 'Issue that is blocked')
+    .action(async (blocker: string, blocked: string) => {
+      await unlinkCommand(blocker, blocked);
+    });
+
+  program
+    .command('graph')
+    .description('Show which issues block which')
+    .option('--dot', 'Print Graphviz DOT instead of a tree')
+    .action(async (options: { dot?: boolean }) => {
+      await graphCommand(options);
+    });
+
+  program
+    .command('start')
+    .description('Start tracking time on an issue in doing')
+    .argument('[identifier]', 'Issue number, stable ID or title (defaults to the issue in doing)')
+    .action(async (identifier?: string) => {
+      await trackCommand('start', identifier);
+    });
+
+  program
+    .command('pause')
+    .description('Stop the running work session')
+    .argument('[identifier]', 'Issue number, stable ID or title (defaults to the tracked issue)')
+    .action(async (identifier?: string) => {
+      await trackCommand('pause', identifier);
+    });
+
+  program
+    .command('resume')
+    .description('Start a new work session on a paused issue')
+    .argument('[identifier]', 'Issue number, stable ID or title (defaults to the last paused issue)')
+    .action(async (identifier?: string) => {
+      await trackCommand('resume', identifier);
+    });
+
+  program
+    .command('report')
+    .description('Total the time tracked on issues')
+    .option('--since <date>', 'First day to include (YYYY-MM-DD)')
+    .option('--until <date>', 'Last day to include (YYYY-MM-DD)')
+    .option('--by <group>', 'Group by type or label', 'type')
+    .action(async (options: { since?: string; until?: string; by?: string }) => {
+      await reportCommand(options);
+    });
+
+  program
+    .command('show')
+    .description('Show an issue without opening it')
+    .argument('<identifier>', 'Issue number, stable ID or title')
+    .option('--history', 'Show the timeline of state changes instead of the description')
+    .option('--format <format>', 'Output format: table, json, csv, tsv, markdown or yaml')
+    .action(async (identifier: string, options: { history?: boolean; format?: string }) => {
+      await showCommand(identifier, options);
     });
 
   program
     .command('list')
     .description('List current issues')
-    .action(async () => {
-      await listCommand();
+    .argument(
+      '[query...]',
+      'Filter such as type:bug status:doing label:parser created:>2026-01-01 "text"; put it after -- when it starts with -'
+    )
+    .option('-a, --all', 'Include archived issues')
+    .option('-g, --group', 'Group issues by workflow state')
+    .option('--format <format>', 'Output format: table, json, csv, tsv, markdown or yaml')
+    .action(async (query: string[], options: { all?: boolean; group?: boolean; format?: string }) => {
+      await listCommand({ ...options, query: query.join(' ') });
+    });
+
+  program
+    .command('search')
+    .description('Search titles, descriptions, notes and solutions of all issues, archive included')
+    .argument('<query...>', 'Words to find; quote phrases and prefix terms with - to exclude them')
+    .option('--limit <count>', 'Show at most this many issues (default 20)')
+    .option('--format <format>', 'Output format: table, json, csv, tsv, markdown or yaml')
+    // -term excludes a term, so words that look like options belong to the query; there are no
+    // short options, which would swallow the terms starting with their letter
+    .allowUnknownOption()
+    .action(async (query: string[], options: { limit?: string; format?: string }) => {
+      await searchCommand(query, options);
+    });
+
+  program
+    .command('migrate')
+    .description('Upgrade issue files to the current on-disk format')
+    .option('--dry-run', 'Show the changes without applying them')
+    .action(async (options: { dryRun?: boolean }) => {
+      await migrateCommand(options);
+    });
+
+  program
+    .command('doctor')
+    .description('Check issue files and AGENTS.md for inconsistencies')
+    .option('--fix', 'Repair the problems that can be repaired safely')
+    .action(async (options: { fix?: boolean }) => {
+      await doctorCommand(options);
     });
 
   program
@@ -0,0 +1,81 @@
+/**
+ * AGENTS.md Module
+ * Reads and cleans the task blocks issue-make writes into AGENTS.md
+ */
+
+import * as fs from 'fs/promises';
+import { AgentsCleanupResult } from './types.js';
+import { getAgentsPath } from '../utils/path.js';
+import { writeFileAtomic } from '../utils/fs.js';
+
+export const ISSUE_MAKE_START = '<!-- ISSUE-MAKE:START -->';
+export const ISSUE_MAKE_END = '<!-- ISSUE-MAKE:END -->';
+
+const TASK_BLOCK_PATTERN = /<!-- ISSUE-MAKE:START -->[\s\S]*?<!-- ISSUE-MAKE:END -->\n?/g;
+
+/**
+ * Task block found in AGENTS.md
+ */
+export interface AgentsTaskBlock {
+  text: string;
+  number: number | null;
+  title: string | null;
+}
+
+/**
+ * Find the issue-make task blocks in AGENTS.md content
+ * @param content - AGENTS.md content
+ * @returns Task blocks in file order
+ */
+export function findAgentsTaskBlocks(content: string): AgentsTaskBlock[] {
+  return (content.match(TASK_BLOCK_PATTERN) || []).map(text => {
+    const number = text.match(/\*\*Issue ID:\*\* (\d+)/);
+    const title = text.match(/^## Task: (.*)$/m);
+    return {
+      text,
+      number: number ? parseInt(number[1], 10) : null,
+      title: title ? title[1].trim() : null,
+    };
+  });
+}
+
+/**
+ * Remove task blocks from AGENTS.md
+ * @param basePath - Project base path
+ * @param shouldRemove - Selects the blocks to remove (all when omitted)
+ * @returns AgentsCleanupResult
+ */
+export async function removeAgentsTaskBlocks(
+  basePath: string,
+  shouldRemove: (block: AgentsTaskBlock) => boolean = () => true
+): Promise<AgentsCleanupResult> {
+  const agentsPath = getAgentsPath(basePath);
+
+  try {
+    let content: string;
+    try {
+      content = await fs.readFile(agentsPath, 'utf-8');
+    } catch (error) {
+      // No AGENTS.md, nothing to clean
+      return { success: true, removed: false };
+    }
+
+    let removed = false;
+    for (const block of findAgentsTaskBlocks(content)) {
+      if (shouldRemove(block)) {
+        content = content.replace(block.text, '');
+        removed = true;
+      }
+    }
+
+    if (removed) {
+      await writeFileAtomic(agentsPath, content);
+    }
+    return { success: true, removed };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to clean up AGENTS.md: ${error}`,
+    };
+  }
+}
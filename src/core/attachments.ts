@@ -0,0 +1,84 @@
+/**
+ * Attachments Module
+ * Links files in an issue's attachment folder from its body
+ */
+
+import * as path from 'path';
+import { findNotesHeading, splitSolution } from './notes.js';
+import { ATTACHMENTS_DIR } from '../utils/path.js';
+
+/**
+ * Heading of the section that links the attachments
+ */
+const ATTACHMENTS_HEADING = '## Attachments';
+
+/**
+ * Extensions shown inline as images
+ */
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.svg', '.webp'];
+
+/**
+ * Pick a filename that is not taken yet in an attachment folder
+ * @param filename - Name of the file being attached
+ * @param existing - Names already in the folder
+ * @returns The name itself, or the name with a -2, -3, ... suffix before the extension
+ */
+export function getAttachmentFilename(filename: string, existing: Iterable<string>): string {
+  // Compare case-insensitively so names stay distinct on case-insensitive filesystems
+  const taken = new Set(Array.from(existing, name => name.toLowerCase()));
+  const extension = path.extname(filename);
+  const stem = filename.slice(0, filename.length - extension.length);
+
+  let candidate = filename;
+  for (let counter = 2; taken.has(candidate.toLowerCase()); counter += 1) {
+    candidate = `${stem}-${counter}${extension}`;
+  }
+  return candidate;
+}
+
+/**
+ * Format the markdown link to an attachment, relative to the issue file
+ * @param uid - Stable ID of the issue
+ * @param filename - Attachment filename
+ * @returns Image embed for pictures, a plain link for anything else
+ */
+export function formatAttachmentLink(uid: string, filename: string): string {
+  const target = encodeURI(`${ATTACHMENTS_DIR}/${uid}/${filename}`);
+  const image = IMAGE_EXTENSIONS.includes(path.extname(filename).toLowerCase());
+  return `${image ? '!' : ''}[${filename}](${target})`;
+}
+
+/**
+ * Add links to the Attachments section of an issue body, creating the section if needed
+ * The section goes after the description, in front of notes and merged solutions
+ * @param content - Issue body
+ * @param links - Markdown links to add
+ * @returns Updated body
+ */
+export function addAttachmentLinks(content: string, links: string[]): string {
+  const { body, solution } = splitSolution(content);
+  const notesStart = findNotesHeading(body);
+  const main = notesStart === -1 ? body : body.slice(0, notesStart);
+  const notes = notesStart === -1 ? '' : body.slice(notesStart);
+
+  const items = links.map(link => `- ${link}`).join('\n');
+  const heading = main.match(/(^|\n)## Attachments[ \t]*(\n|$)/);
+  let updated: string;
+  if (heading) {
+    // Append to the end of the existing section, before whatever heading follows it
+    const sectionStart = heading.index! + heading[0].length;
+    const next = main.slice(sectionStart).search(/\n#{1,2} /);
+    const sectionEnd = next === -1 ? main.length : sectionStart + next;
+    const section = main.slice(0, sectionEnd).trimEnd();
+    const rest = main.slice(sectionEnd).trim();
+    updated = `${section}\n${items}\n${rest ? `\n${rest}\n` : ''}`;
+  } else {
+    const trimmed = main.trimEnd();
+    updated = `${trimmed.length > 0 ? `${trimmed}\n\n` : ''}${ATTACHMENTS_HEADING}\n\n${items}\n`;
+  }
+
+  if (notes) {
+    updated = `${updated}\n${notes}`;
+  }
+  return solution ? `${updated.trimEnd()}${solution}` : updated;
+}
@@ -0,0 +1,96 @@
+/**
+ * Checklist Module
+ * Reads and ticks the markdown task lists in issue bodies
+ */
+
+import { ChecklistItem, ChecklistProgress } from './types.js';
+
+/**
+ * Task list item: bullet or ordered marker, a [ ] or [x] box and the item text
+ */
+const ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*?)\s*$/;
+
+/**
+ * Items whose text starts with this marker do not have to be checked before closing
+ */
+const OPTIONAL_PATTERN = /^\(optional\)/i;
+
+/**
+ * Find the task list items in an issue body
+ * Items inside fenced code blocks are examples, not tasks, and are skipped
+ * @param content - Issue body
+ * @returns Items in document order, numbered from 1
+ */
+export function parseChecklist(content: string): ChecklistItem[] {
+  const items: ChecklistItem[] = [];
+  let fence: string | null = null;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const marker = line.match(/^\s*(```|~~~)/)?.[1];
+    if (marker) {
+      fence = fence === null ? marker : fence === marker ? null : fence;
+      return;
+    }
+    if (fence !== null) {
+      return;
+    }
+
+    const match = line.match(ITEM_PATTERN);
+    if (match) {
+      const text = match[2];
+      items.push({
+        number: items.length + 1,
+        text,
+        checked: match[1] !== ' ',
+        optional: OPTIONAL_PATTERN.test(text),
+        line: index,
+      });
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Count the checked items of a checklist
+ * @param items - Checklist items
+ * @returns Progress, or undefined when there are no items
+ */
+export function getChecklistProgress(items: ChecklistItem[]): ChecklistProgress | undefined {
+  if (items.length === 0) {
+    return undefined;
+  }
+  return {
+    done: items.filter(item => item.checked).length,
+    total: items.length,
+  };
+}
+
+/**
+ * Format checklist progress as done/total
+ * @param progress - Checklist progress
+ * @returns Progress text such as 3/7
+ */
+export function formatChecklistProgress(progress: ChecklistProgress): string {
+  return `${progress.done}/${progress.total}`;
+}
+
+/**
+ * Tick or untick one checklist item
+ * Only the box changes, so the rest of the body keeps its formatting and line endings
+ * @param content - Issue body
+ * @param number - Item number, counting from 1
+ * @param checked - true to tick the item, false to clear it
+ * @returns Updated body, or null when there is no such item
+ */
+export function setChecklistItem(content: string, number: number, checked: boolean): string | null {
+  const item = parseChecklist(content).find(candidate => candidate.number === number);
+  if (!item) {
+    return null;
+  }
+
+  const lines = content.split('\n');
+  // The first box on the line is the item's own, right after its marker
+  lines[item.line] = lines[item.line].replace(/\[[ xX]\]/, checked ? '[x]' : '[ ]');
+  return lines.join('\n');
+}
@@ -0,0 +1,186 @@
+/**
+ * Dependencies Module
+ * Blocks/BlockedBy relations between issues: cycle checks and graph output
+ */
+
+import { IssueListItem, IssueStatus } from './types.js';
+
+/**
+ * Collect the blocking relations between issues
+ * A relation recorded on either side counts, so hand-edited files that list it only once still show up
+ * @param issues - Issues with their Blocks and BlockedBy lists
+ * @returns Stable IDs of the issues each blocker blocks, in list order
+ */
+export function getBlockingEdges(issues: IssueListItem[]): Map<string, string[]> {
+  const edges = new Map<string, string[]>();
+  const addEdge = (from: string, to: string) => {
+    const targets = edges.get(from) ?? [];
+    if (!targets.includes(to)) {
+      targets.push(to);
+    }
+    edges.set(from, targets);
+  };
+
+  for (const issue of issues) {
+    if (!issue.id) {
+      continue;
+    }
+    for (const blocked of issue.blocks ?? []) {
+      addEdge(issue.id, blocked);
+    }
+    for (const blocker of issue.blockedBy ?? []) {
+      addEdge(blocker, issue.id);
+    }
+  }
+  return edges;
+}
+
+/**
+ * Find a chain of blocking relations from one issue to another
+ * @param issues - Issues with their Blocks and BlockedBy lists
+ * @param from - Stable ID to start from
+ * @param to - Stable ID to reach
+ * @returns Stable IDs along the shortest chain, including both ends, or null if there is none
+ */
+export function findDependencyPath(
+  issues: IssueListItem[],
+  from: string,
+  to: string
+): string[] | null {
+  const edges = getBlockingEdges(issues);
+  const previous = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === to) {
+      const path: string[] = [];
+      for (let id: string | null = current; id !== null; id = previous.get(id)!) {
+        path.unshift(id);
+      }
+      return path;
+    }
+    for (const next of edges.get(current) ?? []) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the issues of a dependency graph in display order
+ * @param issues - Issues with their Blocks and BlockedBy lists
+ * @returns Issues that take part in a relation, keyed by stable ID; IDs no issue has map to null
+ */
+function getGraphNodes(issues: IssueListItem[]): Map<string, IssueListItem | null> {
+  const edges = getBlockingEdges(issues);
+  const linked = new Set([...edges.keys(), ...[...edges.values()].flat()]);
+  const nodes = new Map<string, IssueListItem | null>();
+
+  for (const issue of issues) {
+    if (issue.id && linked.has(issue.id)) {
+      nodes.set(issue.id, issue);
+    }
+  }
+  for (const id of linked) {
+    if (!nodes.has(id)) {
+      nodes.set(id, null);
+    }
+  }
+  return nodes;
+}
+
+/**
+ * Describe an issue in a dependency graph
+ * @param id - Stable ID
+ * @param issue - Issue with that ID, or null when the relation points to an issue that is gone
+ * @returns Label such as "#3 Support CRLF (IM-4) [stash]"
+ */
+function describeNode(id: string, issue: IssueListItem | null): string {
+  return issue ? `#${issue.number} ${issue.title} (${id}) [${issue.status}]` : `${id} [missing]`;
+}
+
+/**
+ * Format the dependency graph as an indented tree of what each issue blocks
+ * Issues blocked by several others appear under each; repeated subtrees are elided
+ * @param issues - Issues with their Blocks and BlockedBy lists
+ * @returns Tree text, or an empty string when there are no relations
+ */
+export function formatDependencyTree(issues: IssueListItem[]): string {
+  const edges = getBlockingEdges(issues);
+  const nodes = getGraphNodes(issues);
+  const blockedIds = new Set([...edges.values()].flat());
+  const expanded = new Set<string>();
+  const lines: string[] = [];
+
+  const render = (id: string, prefix: string, connector: string, ancestors: string[]) => {
+    const label = describeNode(id, nodes.get(id) ?? null);
+    if (ancestors.includes(id)) {
+      lines.push(`${prefix}${connector}${label} (cycle)`);
+      return;
+    }
+    const children = edges.get(id) ?? [];
+    if (expanded.has(id) && children.length > 0) {
+      lines.push(`${prefix}${connector}${label} (see above)`);
+      return;
+    }
+    lines.push(`${prefix}${connector}${label}`);
+    expanded.add(id);
+
+    const childPrefix = connector === '' ? '' : prefix + (connector === '└── ' ? '    ' : '│   ');
+    children.forEach((child, index) => {
+      const last = index === children.length - 1;
+      render(child, childPrefix, last ? '└── ' : '├── ', [...ancestors, id]);
+    });
+  };
+
+  // Start from issues nothing blocks; issues caught only in cycles get a root of their own
+  const ids = [...nodes.keys()];
+  for (const id of [...ids.filter(id => !blockedIds.has(id)), ...ids]) {
+    if (!expanded.has(id)) {
+      render(id, '', '', []);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Quote a string for a Graphviz DOT file
+ * @param text - Text to quote
+ * @returns Double-quoted string
+ */
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Format the dependency graph in Graphviz DOT, with edges from blocker to blocked issue
+ * Achieved issues are drawn in grey and missing ones dashed
+ * @param issues - Issues with their Blocks and BlockedBy lists
+ * @returns DOT source
+ */
+export function formatDependencyDot(issues: IssueListItem[]): string {
+  const lines = ['digraph issues {', '  rankdir=LR;', '  node [shape=box];'];
+
+  for (const [id, issue] of getGraphNodes(issues)) {
+    const label = issue ? `#${issue.number} ${issue.title}\n${issue.status}` : `${id}\nmissing`;
+    const style =
+      issue === null
+        ? ', style=dashed'
+        : issue.status === IssueStatus.ACHIEVED
+          ? ', color=gray, fontcolor=gray'
+          : '';
+    lines.push(`  ${quoteDot(id)} [label=${quoteDot(label).replace(/\n/g, '\\n')}${style}];`);
+  }
+  for (const [from, targets] of getBlockingEdges(issues)) {
+    for (const to of targets) {
+      lines.push(`  ${quoteDot(from)} -> ${quoteDot(to)};`);
+    }
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
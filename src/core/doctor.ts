@@ -0,0 +1,721 @@
+/**
+ * Doctor Module
+ * Finds and repairs inconsistencies in the .issues tree and AGENTS.md
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  DoctorFinding,
+  DoctorReport,
+  DoctorSeverity,
+  IssueMetadata,
+  IssueStatus,
+} from './types.js';
+import { FileManager } from './file-manager.js';
+import { IssueLock } from './lock.js';
+import { FrontmatterFormat, hasFrontmatter } from './frontmatter.js';
+import { loadProjectConfig, getIssueTypeNames } from './project-config.js';
+import { findAgentsTaskBlocks, removeAgentsTaskBlocks } from './agents.js';
+import {
+  generateIssueFilename,
+  extractIssueNumber,
+  extractIssueTitle,
+  isIssueFile,
+  isArchivedIssueFile,
+  getIssuesDir,
+  getStateDir,
+  getSolutionPath,
+  getAgentsPath,
+  getIdCounterPath,
+  getAttachmentsDir,
+  ATTACHMENTS_DIR,
+} from '../utils/path.js';
+import { writeFileAtomic, isTempFile } from '../utils/fs.js';
+import { formatIssueUid, parseIssueUid } from '../utils/id.js';
+import { formatDate, parseDate } from '../utils/date.js';
+import { isValidFrontmatter, findInvalidFields, validateIssueType } from '../utils/validation.js';
+
+/**
+ * Issue file read during a scan
+ */
+interface ScannedFile {
+  status: string;
+  archived: boolean;
+  filePath: string;
+  number: number | null;
+  metadata: Record<string, unknown>;
+  body: string;
+  hasFrontmatter: boolean;
+  format: FrontmatterFormat | null;
+  parseError?: string;
+}
+
+/**
+ * Finding together with the action that repairs it
+ */
+interface Diagnosis {
+  finding: DoctorFinding;
+  repair?: () => Promise<string>;
+}
+
+/**
+ * IssueDoctor class for checking the integrity of an issues directory
+ */
+export class IssueDoctor {
+  private basePath: string;
+  private fileManager: FileManager;
+  private lock: IssueLock;
+
+  constructor(basePath: string) {
+    this.basePath = basePath;
+    this.fileManager = new FileManager(basePath);
+    this.lock = new IssueLock(basePath);
+  }
+
+  /**
+   * Check the issues directory, optionally repairing what can be repaired safely
+   * @param options - Set fix to apply repairs
+   * @returns DoctorReport with the problems remaining after any repairs
+   */
+  async run(options: { fix?: boolean } = {}): Promise<DoctorReport> {
+    try {
+      await fs.access(getIssuesDir(this.basePath));
+    } catch {
+      return {
+        success: false,
+        error: `No issues directory found at ${getIssuesDir(this.basePath)}`,
+      };
+    }
+
+    try {
+      if (!options.fix) {
+        const diagnoses = await this.diagnose();
+        return { success: true, findings: diagnoses.map(({ finding }) => finding) };
+      }
+
+      return await this.lock.withLock(async () => {
+        const fixed: string[] = [];
+        const attempted = new Set<string>();
+        // Repairs run in diagnosis order: frontmatter first, renumbering after it. The tree is
+        // scanned again after each one, since a renumbered file no longer has the path scanned before
+        for (;;) {
+          const next = (await this.diagnose()).find(
+            ({ finding, repair }) => repair && !attempted.has(this.findingKey(finding))
+          );
+          if (!next) {
+            break;
+          }
+          attempted.add(this.findingKey(next.finding));
+          fixed.push(await next.repair!());
+        }
+
+        const remaining = await this.diagnose();
+        return { success: true, findings: remaining.map(({ finding }) => finding), fixed };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Doctor failed: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Run every check
+   * @returns Diagnoses ordered so that repairs do not invalidate each other
+   */
+  private async diagnose(): Promise<Diagnosis[]> {
+    const files = await this.scan();
+    return [
+      ...this.checkFrontmatter(files),
+      ...this.checkIndexes(files),
+      ...(await this.checkStableIds(files)),
+      ...(await this.checkSolutionDrafts(files)),
+      ...(await this.checkAttachments(files)),
+      ...(await this.checkAgentsFile(files)),
+    ];
+  }
+
+  /**
+   * Read every issue file in every workflow state
+   * @returns Scanned files
+   */
+  private async scan(): Promise<ScannedFile[]> {
+    const scanned: ScannedFile[] = [];
+    for (const state of loadProjectConfig(this.basePath).workflow.states) {
+      const dir = getStateDir(this.basePath, state.name);
+      let files: string[];
+      try {
+        files = await fs.readdir(dir);
+      } catch (error) {
+        // Directory doesn't exist
+        continue;
+      }
+
+      for (const file of files.filter(name => name.endsWith('.md') && !isTempFile(name)).sort()) {
+        const filePath = path.join(dir, file);
+        const content = await fs.readFile(filePath, 'utf-8');
+        const entry: ScannedFile = {
+          status: state.name,
+          archived: state.terminal,
+          filePath,
+          number: extractIssueNumber(file),
+          metadata: {},
+          body: content,
+          hasFrontmatter: hasFrontmatter(content),
+          format: null,
+        };
+
+        try {
+          const { metadata, body, format } = this.fileManager.parseIssueFile(content);
+          entry.metadata = metadata ?? {};
+          entry.body = body;
+          entry.format = format;
+        } catch (error) {
+          entry.parseError = error instanceof Error ? error.message : String(error);
+        }
+        scanned.push(entry);
+      }
+    }
+    return scanned;
+  }
+
+  /**
+   * Check that every issue has readable frontmatter with the required fields
+   * @param files - Scanned files
+   * @returns Diagnoses
+   */
+  private checkFrontmatter(files: ScannedFile[]): Diagnosis[] {
+    const diagnoses: Diagnosis[] = [];
+    const typeNames = getIssueTypeNames(loadProjectConfig(this.basePath));
+
+    for (const file of files) {
+      const name = path.basename(file.filePath);
+      const archived = file.archived;
+
+      if (!(archived ? isArchivedIssueFile(name) : isIssueFile(name))) {
+        diagnoses.push({
+          finding: {
+            severity: DoctorSeverity.WARNING,
+            code: 'unexpected-file',
+            message: 'Not named {title}.{number}.md, so issue-make ignores it',
+            filePath: file.filePath,
+            fixable: false,
+          },
+        });
+        continue;
+      }
+
+      if (file.parseError) {
+        diagnoses.push({
+          finding: {
+            severity: DoctorSeverity.ERROR,
+            code: 'invalid-frontmatter',
+            message: `Frontmatter cannot be parsed: ${file.parseError}`,
+            filePath: file.filePath,
+            fixable: false,
+          },
+        });
+        continue;
+      }
+
+      if (!file.hasFrontmatter) {
+        diagnoses.push({
+          finding: {
+            severity: DoctorSeverity.ERROR,
+            code: 'missing-frontmatter',
+            message: 'File has no frontmatter',
+            filePath: file.filePath,
+            fixable: true,
+          },
+          repair: () => this.rewriteFrontmatter(file),
+        });
+        continue;
+      }
+
+      const type = file.metadata.Type;
+      if (type && !validateIssueType(String(type), typeNames)) {
+        diagnoses.push({
+          finding: {
+            severity: DoctorSeverity.WARNING,
+            code: 'invalid-type',
+            message: `Issue type "${type}" is not defined in .issues/config.yaml`,
+            filePath: file.filePath,
+            fixable: false,
+          },
+        });
+      }
+
+      const invalidFields = findInvalidFields(file.metadata);
+      if (invalidFields.length > 0) {
+        diagnoses.push({
+          finding: {
+            severity: DoctorSeverity.WARNING,
+            code: 'invalid-field',
+            message: `Frontmatter has a malformed ${invalidFields.join(', ')}`,
+            filePath: file.filePath,
+            fixable: false,
+          },
+        });
+      }
+
+      // Malformed optional fields are reported above; only required ones can be rebuilt
+      const missing = [
+        !parseDate(String(file.metadata['Create Date'] ?? '')) ? 'Create Date' : null,
+        !type ? 'Type' : null,
+      ].filter(Boolean);
+      if (!isValidFrontmatter(file.metadata) && missing.length > 0) {
+        diagnoses.push({
+          finding: {
+            severity: DoctorSeverity.ERROR,
+            code: 'invalid-frontmatter',
+            message: `Frontmatter is missing or has an invalid ${missing.join(', ')}`,
+            filePath: file.filePath,
+            fixable: true,
+          },
+          repair: () => this.rewriteFrontmatter(file),
+        });
+      }
+    }
+
+    return diagnoses;
+  }
+
+  /**
+   * Check that indexes in active states are unique and match the filenames
+   * @param files - Scanned files
+   * @returns Diagnoses
+   */
+  private checkIndexes(files: ScannedFile[]): Diagnosis[] {
+    const diagnoses: Diagnosis[] = [];
+    const current = files.filter(
+      file => !file.archived && file.number !== null && file.hasFrontmatter
+    );
+
+    for (const file of current) {
+      if (file.parseError || file.metadata.Index === file.number) {
+        continue;
+      }
+      diagnoses.push({
+        finding: {
+          severity: DoctorSeverity.WARNING,
+          code: 'index-mismatch',
+          message:
+            file.metadata.Index === undefined
+              ? `Frontmatter has no Index (filename says ${file.number})`
+              : `Frontmatter Index ${file.metadata.Index} disagrees with filename number ${file.number}`,
+          filePath: file.filePath,
+          fixable: true,
+        },
+        repair: () => this.rewriteFrontmatter(file),
+      });
+    }
+
+    const byNumber = new Map<number, ScannedFile[]>();
+    for (const file of files.filter(
+      entry => !entry.archived && entry.number !== null
+    )) {
+      byNumber.set(file.number!, [...(byNumber.get(file.number!) ?? []), file]);
+    }
+
+    for (const [number, group] of byNumber) {
+      if (group.length < 2) {
+        continue;
+      }
+      // The oldest issue keeps the number; doing wins ties since its draft uses the number
+      const ordered = [...group].sort(
+        (a, b) =>
+          String(a.metadata['Create Date'] ?? '').localeCompare(String(b.metadata['Create Date'] ?? '')) ||
+          (a.status === IssueStatus.DOING ? -1 : 0) - (b.status === IssueStatus.DOING ? -1 : 0)
+      );
+      const keeper = ordered[0];
+      for (const file of ordered.slice(1)) {
+        diagnoses.push({
+          finding: {
+            severity: DoctorSeverity.ERROR,
+            code: 'duplicate-index',
+            message: `Index ${number} is also used by ${this.relative(keeper.filePath)}`,
+            filePath: file.filePath,
+            fixable: true,
+          },
+          repair: () => this.renumber(file),
+        });
+      }
+    }
+
+    return diagnoses;
+  }
+
+  /**
+   * Check that stable IDs are unique and the counter is ahead of every assigned ID
+   * @param files - Scanned files
+   * @returns Diagnoses
+   */
+  private async checkStableIds(files: ScannedFile[]): Promise<Diagnosis[]> {
+    const ids = files
+      .map(file => parseIssueUid(file.metadata.ID))
+      .filter((id): id is number => id !== null);
+    const withoutId = files.filter(
+      file => file.hasFrontmatter && !file.parseError && parseIssueUid(file.metadata.ID) === null
+    );
+
+    const diagnoses: Diagnosis[] = [];
+    if (withoutId.length > 0) {
+      diagnoses.push({
+        finding: {
+          severity: DoctorSeverity.INFO,
+          code: 'missing-id',
+          message: `${withoutId.length} issue(s) have no stable ID; run \`issue-make migrate\` to assign them`,
+          fixable: false,
+        },
+      });
+    }
+
+    if (ids.length === 0) {
+      return diagnoses;
+    }
+
+    const counterPath = getIdCounterPath(this.basePath);
+    const counter = await this.readUidCounter();
+    const highest = Math.max(...ids);
+
+    // Copied files keep the ID of the original; the older issue keeps it
+    const owners = new Map<number, ScannedFile>();
+    const ordered = [...files].sort((a, b) =>
+      String(a.metadata['Create Date'] ?? '').localeCompare(String(b.metadata['Create Date'] ?? ''))
+    );
+    for (const file of ordered) {
+      const id = parseIssueUid(file.metadata.ID);
+      if (id === null) {
+        continue;
+      }
+      const owner = owners.get(id);
+      if (!owner) {
+        owners.set(id, file);
+        continue;
+      }
+      diagnoses.push({
+        finding: {
+          severity: DoctorSeverity.ERROR,
+          code: 'duplicate-id',
+          message: `Stable ID ${file.metadata.ID} is also used by ${this.relative(owner.filePath)}`,
+          filePath: file.filePath,
+          fixable: true,
+        },
+        repair: async () => {
+          const next = Math.max((await this.readUidCounter()) ?? 0, highest) + 1;
+          const { metadata, body, format } = this.fileManager.parseIssueFile(
+            await fs.readFile(file.filePath, 'utf-8')
+          );
+          const id = formatIssueUid(next);
+          await writeFileAtomic(
+            file.filePath,
+            this.fileManager.formatIssueFile({ ...metadata, ID: id }, body, format)
+          );
+          await writeFileAtomic(counterPath, `${next}\n`);
+          return `Assigned new stable ID ${id} to ${this.relative(file.filePath)}`;
+        },
+      });
+    }
+
+    if (counter === null || counter < highest) {
+      diagnoses.push({
+        finding: {
+          severity: DoctorSeverity.ERROR,
+          code: 'id-counter-behind',
+          message:
+            counter === null
+              ? 'Stable ID counter is missing or corrupt'
+              : `Stable ID counter is ${counter} but IM-${highest} is already assigned`,
+          filePath: counterPath,
+          fixable: true,
+        },
+        repair: async () => {
+          const value = Math.max((await this.readUidCounter()) ?? 0, highest);
+          await writeFileAtomic(counterPath, `${value}\n`);
+          return `Set stable ID counter to ${value}`;
+        },
+      });
+    }
+
+    return diagnoses;
+  }
+
+  /**
+   * Read the stable ID counter
+   * @returns Counter value or null when missing or corrupt
+   */
+  private async readUidCounter(): Promise<number | null> {
+    try {
+      const raw = await fs.readFile(getIdCounterPath(this.basePath), 'utf-8');
+      return /^\s*\d+\s*$/.test(raw) ? parseInt(raw, 10) : null;
+    } catch (error) {
+      // Counter file doesn't exist
+      return null;
+    }
+  }
+
+  /**
+   * Check that every solution draft belongs to an active issue
+   * Drafts are created in doing and stay with the issue until it is archived
+   * @param files - Scanned files
+   * @returns Diagnoses
+   */
+  private async checkSolutionDrafts(files: ScannedFile[]): Promise<Diagnosis[]> {
+    const active = new Set(files.filter(file => !file.archived).map(file => file.number));
+    const issuesDir = getIssuesDir(this.basePath);
+    const diagnoses: Diagnosis[] = [];
+
+    for (const file of (await fs.readdir(issuesDir)).sort()) {
+      const match = file.match(/^solution(?:\.(\d+))?\.md$/);
+      if (!match) {
+        continue;
+      }
+
+      const filePath = path.join(issuesDir, file);
+      const content = await fs.readFile(filePath, 'utf-8');
+      const header = content.match(/^# Solution for Issue #(\d+):/);
+      const number = match[1] !== undefined ? parseInt(match[1], 10) : header ? parseInt(header[1], 10) : null;
+
+      if (number !== null && active.has(number)) {
+        if (match[1] === undefined) {
+          diagnoses.push({
+            finding: {
+              severity: DoctorSeverity.INFO,
+              code: 'legacy-solution',
+              message: `Shared solution.md will be used when closing #${number}`,
+              filePath,
+              fixable: false,
+            },
+          });
+        }
+        continue;
+      }
+
+      // Only drafts nobody has written into are safe to delete
+      const untouched = content.split('\n').slice(1).join('\n').trim().length === 0;
+      diagnoses.push({
+        finding: {
+          severity: DoctorSeverity.WARNING,
+          code: 'orphaned-solution',
+          message: untouched
+            ? 'Empty solution draft does not belong to an active issue'
+            : 'Solution draft does not belong to an active issue; move its content or delete it',
+          filePath,
+          fixable: untouched,
+        },
+        repair: untouched
+          ? async () => {
+              await fs.unlink(filePath);
+              return `Removed empty draft ${this.relative(filePath)}`;
+            }
+          : undefined,
+      });
+    }
+
+    return diagnoses;
+  }
+
+  /**
+   * Check that every attachment folder sits next to the issue it belongs to
+   * Folders left behind by an interrupted move are moved to their issue; others are only reported
+   * @param files - Scanned files
+   * @returns Diagnoses
+   */
+  private async checkAttachments(files: ScannedFile[]): Promise<Diagnosis[]> {
+    const diagnoses: Diagnosis[] = [];
+
+    for (const state of loadProjectConfig(this.basePath).workflow.states) {
+      const attachmentsDir = path.join(getStateDir(this.basePath, state.name), ATTACHMENTS_DIR);
+      let folders: string[];
+      try {
+        folders = await fs.readdir(attachmentsDir);
+      } catch (error) {
+        // No attachments in this state
+        continue;
+      }
+
+      for (const folder of folders.sort()) {
+        const folderPath = path.join(attachmentsDir, folder);
+        const uid = parseIssueUid(folder);
+        const owners = files.filter(
+          file => uid !== null && parseIssueUid(file.metadata.ID) === uid
+        );
+        if (owners.some(file => file.status === state.name)) {
+          continue;
+        }
+
+        if (owners.length === 1) {
+          const owner = owners[0];
+          const target = getAttachmentsDir(this.basePath, owner.status, formatIssueUid(uid!));
+          diagnoses.push({
+            finding: {
+              severity: DoctorSeverity.WARNING,
+              code: 'misplaced-attachments',
+              message: `Attachments belong to ${this.relative(owner.filePath)}, which is in ${owner.status}`,
+              filePath: folderPath,
+              fixable: true,
+            },
+            repair: async () => {
+              await fs.mkdir(path.dirname(target), { recursive: true });
+              await fs.rename(folderPath, target);
+              return `Moved ${this.relative(folderPath)} to ${this.relative(target)}`;
+            },
+          });
+          continue;
+        }
+
+        diagnoses.push({
+          finding: {
+            severity: DoctorSeverity.WARNING,
+            code: 'orphaned-attachments',
+            message:
+              owners.length === 0
+                ? 'Attachment folder does not belong to any issue; move its files or delete it'
+                : `Attachment folder is claimed by ${owners.length} issues with stable ID ${folder}`,
+            filePath: folderPath,
+            fixable: false,
+          },
+        });
+      }
+    }
+
+    return diagnoses;
+  }
+
+  /**
+   * Check that AGENTS.md only describes issues that are in doing
+   * @param files - Scanned files
+   * @returns Diagnoses
+   */
+  private async checkAgentsFile(files: ScannedFile[]): Promise<Diagnosis[]> {
+    const agentsPath = getAgentsPath(this.basePath);
+    let content: string;
+    try {
+      content = await fs.readFile(agentsPath, 'utf-8');
+    } catch (error) {
+      // No AGENTS.md
+      return [];
+    }
+
+    const doing = files.filter(file => file.status === IssueStatus.DOING);
+    const isStale = (block: ReturnType<typeof findAgentsTaskBlocks>[number]) =>
+      !doing.some(
+        file =>
+          file.number === block.number &&
+          extractIssueTitle(path.basename(file.filePath)) === block.title
+      );
+
+    return findAgentsTaskBlocks(content)
+      .filter(isStale)
+      .map(block => ({
+        finding: {
+          severity: DoctorSeverity.WARNING,
+          code: 'stale-agents-task',
+          message: `AGENTS.md describes ${
+            block.number !== null ? `issue #${block.number}` : 'an unknown issue'
+          }${block.title ? ` (${block.title})` : ''}, which is not in doing`,
+          filePath: agentsPath,
+          fixable: true,
+        },
+        repair: async () => {
+          const result = await removeAgentsTaskBlocks(
+            this.basePath,
+            candidate => candidate.text === block.text
+          );
+          if (!result.success) {
+            throw new Error(result.error);
+          }
+          return `Removed stale task for #${block.number ?? '?'} from AGENTS.md`;
+        },
+      }));
+  }
+
+  /**
+   * Rewrite the frontmatter of an issue, filling in required fields
+   * @param file - Scanned file
+   * @returns Description of the repair
+   */
+  private async rewriteFrontmatter(file: ScannedFile): Promise<string> {
+    const createDate = parseDate(String(file.metadata['Create Date'] ?? ''))
+      ? String(file.metadata['Create Date'])
+      : formatDate((await fs.stat(file.filePath)).mtime);
+
+    const metadata: IssueMetadata = {
+      ...file.metadata,
+      'Create Date': createDate,
+      Type:
+        typeof file.metadata.Type === 'string' ? file.metadata.Type : loadProjectConfig(this.basePath).defaults.type,
+      Index: file.number ?? (file.metadata.Index as number),
+    };
+    if (metadata.Index === undefined || metadata.Index === null) {
+      delete (metadata as Partial<IssueMetadata>).Index;
+    }
+
+    await writeFileAtomic(file.filePath, this.fileManager.formatIssueFile(metadata, file.body, file.format));
+    return `Rewrote frontmatter of ${this.relative(file.filePath)}`;
+  }
+
+  /**
+   * Move an issue to the next free index, taking its solution draft along
+   * @param file - Scanned file
+   * @returns Description of the repair
+   */
+  private async renumber(file: ScannedFile): Promise<string> {
+    const oldNumber = file.number!;
+    const newNumber = await this.fileManager.getNextId();
+    const title = extractIssueTitle(path.basename(file.filePath));
+    const newPath = path.join(
+      path.dirname(file.filePath),
+      generateIssueFilename(title, newNumber, loadProjectConfig(this.basePath).filenames)
+    );
+
+    const { metadata, body, format } = this.fileManager.parseIssueFile(
+      await fs.readFile(file.filePath, 'utf-8')
+    );
+    await writeFileAtomic(
+      newPath,
+      this.fileManager.formatIssueFile({ ...metadata, Index: newNumber }, body, format),
+      { exclusive: true }
+    );
+    await fs.unlink(file.filePath);
+
+    if (!file.archived) {
+      const draftPath = getSolutionPath(this.basePath, oldNumber);
+      try {
+        const draft = await fs.readFile(draftPath, 'utf-8');
+        if (draft.startsWith(`# Solution for Issue #${oldNumber}: ${title}`)) {
+          const renamed = draft.replace(
+            `# Solution for Issue #${oldNumber}:`,
+            `# Solution for Issue #${newNumber}:`
+          );
+          await writeFileAtomic(getSolutionPath(this.basePath, newNumber), renamed, { exclusive: true });
+          await fs.unlink(draftPath);
+        }
+      } catch (error) {
+        // No draft to move
+      }
+    }
+
+    return `Renumbered ${this.relative(file.filePath)} from #${oldNumber} to #${newNumber}`;
+  }
+
+  /**
+   * Identify a finding across scans, so each problem is repaired at most once
+   * @param finding - Finding
+   * @returns Key made of the code, file and message
+   */
+  private findingKey(finding: DoctorFinding): string {
+    return [finding.code, finding.filePath ?? '', finding.message].join('\0');
+  }
+
+  /**
+   * Get a path relative to the project root for display
+   * @param filePath - Absolute path
+   * @returns Relative path
+   */
+  private relative(filePath: string): string {
+    return path.relative(this.basePath, filePath);
+  }
+}
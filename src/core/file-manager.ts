@@ -5,18 +5,42 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import * as yaml from 'yaml';
 import {
   IssueFile,
+  IssueFields,
   IssueStatus,
-  IssueType,
   IssueMetadata,
+  IssueHistoryEntry,
+  WorkSession,
+  TimeTrackingAction,
+  TimeTrackingResult,
   IssueCreationResult,
   IssueSearchResult,
+  IssueCandidate,
   IssueOpenResult,
   IssueCloseResult,
   IssueListResult,
   IssueListItem,
+  IssueLinkResult,
+  ChecklistItem,
+  ChecklistProgress,
+  ChecklistUpdateResult,
+  IssueNote,
+  IssueNoteResult,
+  IssueAttachResult,
+  IssueTextSearchResult,
+  SearchHit,
+  ArchiveMigrationResult,
+  ArchiveRename,
+  UidMigrationResult,
+  UidAssignment,
+  SchemaMigrationResult,
+  SchemaSkip,
+  SchemaUpgrade,
+  ISSUE_SCHEMA_VERSION,
+  IssueMoveResult,
+  MoveJournal,
+  RecoveryResult,
 } from './types.js';
 import {
   generateIssueFilename,
@@ -25,21 +49,147 @@ import {
   isIssueFile,
   getIssuesDir,
   getStashDir,
-  getDoingDir,
   getAchievedDir,
+  getStateDir,
   getSolutionPath,
+  isArchivedIssueFile,
+  isDatedArchiveFilename,
+  extractIssueTitle,
+  getIdCounterPath,
+  getJournalPath,
+  getAttachmentsDir,
 } from '../utils/path.js';
-import { getCurrentDate } from '../utils/date.js';
-import { validateIssueType } from '../utils/validation.js';
+import { writeFileAtomic, isTempFile } from '../utils/fs.js';
+import { IssueLock } from './lock.js';
+import { findDependencyPath } from './dependencies.js';
+import { getChecklistProgress, parseChecklist, setChecklistItem } from './checklist.js';
+import { appendNote, parseIssueBody } from './notes.js';
+import { parseSearchQuery, hasSearchTerms, rankDocuments } from './search.js';
+import {
+  FilterEntry,
+  FilterQueryError,
+  parseFilterQuery,
+  checkFilterQuery,
+  hasStatusCondition,
+  matchesFilter,
+} from './filter.js';
+import {
+  addAttachmentLinks,
+  formatAttachmentLink,
+  getAttachmentFilename,
+} from './attachments.js';
+import { loadIssueTemplate, renderIssueTemplate } from './templates.js';
+import {
+  FrontmatterError,
+  FrontmatterFormat,
+  parseFrontmatter,
+  stringifyFrontmatter,
+} from './frontmatter.js';
+import {
+  FilenameScheme,
+  loadProjectConfig,
+  findWorkflowState,
+  getWorkflowStateNames,
+  isTerminalState,
+  isTransitionAllowed,
+} from './project-config.js';
+import { formatIssueUid, parseIssueUid, isUidIdentifier } from '../utils/id.js';
+import {
+  validateIssueFields,
+  validatePriority,
+  parseLabels,
+  parseIssueFields,
+  parseIssueHistory,
+  parseWorkSessions,
+  parseIssueLinks,
+} from '../utils/validation.js';
+import { getActor } from '../utils/actor.js';
+import {
+  formatDate,
+  getCurrentDate,
+  getCurrentDateTime,
+  getDaysBetween,
+  getMinutesBetween,
+  normalizeDate,
+  parseDate,
+} from '../utils/date.js';
+
+/**
+ * Separator placed between an issue body and its merged solution in the archive
+ */
+const SOLUTION_SEPARATOR = '\n\n---\n\n## Solution\n\n';
+
+/**
+ * How well a title matches the search text, best first
+ * exact: same words; prefix: starts with the search; words: contains it as whole words;
+ * substring: contains it inside a word; contained: the title is part of the search text
+ */
+const TITLE_SCORES = {
+  exact: 100,
+  prefix: 80,
+  words: 60,
+  substring: 40,
+  contained: 20,
+};
+
+/**
+ * Turn planning fields into frontmatter entries, leaving out unset ones
+ * @param fields - Validated planning fields
+ * @returns Frontmatter entries in schema order
+ */
+function fieldsToMetadata(fields: IssueFields): Partial<IssueMetadata> {
+  const entries: Partial<IssueMetadata> = {
+    Priority: fields.priority !== undefined ? validatePriority(fields.priority)! : undefined,
+    Labels: fields.labels && fields.labels.length > 0 ? parseLabels(fields.labels) : undefined,
+    Assignee: fields.assignee,
+    Due: fields.due,
+    Estimate: fields.estimate,
+  };
+  return Object.fromEntries(
+    Object.entries(entries).filter(([, value]) => value !== undefined)
+  ) as Partial<IssueMetadata>;
+}
 
 /**
  * FileManager class for managing issue files
  */
 export class FileManager {
   private basePath: string;
+  private lock: IssueLock;
 
   constructor(basePath: string) {
     this.basePath = basePath;
+    this.lock = new IssueLock(basePath);
+  }
+
+  /**
+   * Filename scheme configured for this project
+   */
+  private get filenameScheme(): FilenameScheme {
+    return loadProjectConfig(this.basePath).filenames;
+  }
+
+  /**
+   * Every workflow state, active states first
+   */
+  private get allStatuses(): string[] {
+    return getWorkflowStateNames(loadProjectConfig(this.basePath));
+  }
+
+  /**
+   * Workflow states whose issues hold an index
+   */
+  private get activeStatuses(): string[] {
+    return this.allStatuses.filter(status => !this.isArchived(status));
+  }
+
+  /**
+   * Check whether issues in a state are archived
+   * @param status - Workflow state
+   * @returns true for terminal states
+   */
+  private isArchived(status: string): boolean {
+    return isTerminalState(loadProjectConfig(this.basePath), status);
   }
 
   /**
@@ -49,9 +199,7 @@ export class FileManager {
   async ensureDirectories(): Promise<void> {
     const dirs = [
       getIssuesDir(this.basePath),
-      getStashDir(this.basePath),
-      getDoingDir(this.basePath),
-      getAchievedDir(this.basePath),
+      ...this.getIssueLocations(this.allStatuses).map(({ dir }) => dir),
     ];
 
     for (const dir of dirs) {
@@ -68,9 +216,21 @@ export class FileManager {
    * @returns Next ID number
    */
   async getNextId(): Promise<number> {
-    const stashDir = getStashDir(this.basePath);
-    const doingDir = getDoingDir(this.basePath);
+    const usedIds = await this.collectUsedIds();
 
+    let candidate = 0;
+    while (usedIds.has(candidate)) {
+      candidate += 1;
+    }
+
+    return candidate;
+  }
+
+  /**
+   * Collect issue numbers in use by active (non-terminal) states
+   * @returns Set of used numbers
+   */
+  private async collectUsedIds(): Promise<Set<number>> {
     const usedIds = new Set<number>();
 
     const collectIds = async (dir: string) => {
@@ -87,15 +247,49 @@ export class FileManager {
       }
     };
 
-    await collectIds(stashDir);
-    await collectIds(doingDir);
+    for (const { dir } of this.getIssueLocations(this.activeStatuses)) {
+      await collectIds(dir);
+    }
 
-    let candidate = 0;
-    while (usedIds.has(candidate)) {
-      candidate += 1;
+    return usedIds;
+  }
+
+  /**
+   * Read the last allocated stable ID counter
+   * Rebuilds the value from existing frontmatter when the counter file is missing or corrupt
+   * @returns Last allocated counter value (0 when none)
+   */
+  private async readUidCounter(): Promise<number> {
+    try {
+      const raw = await fs.readFile(getIdCounterPath(this.basePath), 'utf-8');
+      if (typeof raw === 'string' && /^\s*\d+\s*$/.test(raw)) {
+        return parseInt(raw, 10);
+      }
+    } catch (error) {
+      // Counter file doesn't exist yet
     }
 
-    return candidate;
+    let highest = 0;
+    for (const { status, dir } of this.getIssueLocations(this.allStatuses)) {
+      const matchesLocation = this.isArchived(status) ? isArchivedIssueFile : isIssueFile;
+      for (const file of (await this.readDirSafe(dir)).filter(matchesLocation)) {
+        try {
+          const { metadata } = this.parseIssueFile(await fs.readFile(path.join(dir, file), 'utf-8'));
+          highest = Math.max(highest, parseIssueUid(metadata.ID) ?? 0);
+        } catch (error) {
+          // Skip unreadable files
+        }
+      }
+    }
+    return highest;
+  }
+
+  /**
+   * Persist the last allocated stable ID counter
+   * @param value - Counter value
+   */
+  private async writeUidCounter(value: number): Promise<void> {
+    await writeFileAtomic(getIdCounterPath(this.basePath), `${value}\n`);
   }
 
   /**
@@ -103,39 +297,26 @@ export class FileManager {
    * @param title - Issue title
    * @param type - Issue type
    * @param content - Issue content
+   * @param fields - Optional planning fields (priority, labels, assignee, due, estimate)
    * @returns IssueCreationResult
    */
-  async createIssue(title: string, type: IssueType, content: string): Promise<IssueCreationResult> {
+  async createIssue(
+    title: string,
+    type: string,
+    content: string,
+    fields: IssueFields = {}
+  ): Promise<IssueCreationResult> {
     try {
-      await this.ensureDirectories();
-
-      const id = await this.getNextId();
-      const filename = generateIssueFilename(title, id);
-      const filePath = path.join(getStashDir(this.basePath), filename);
-
-      const metadata: IssueMetadata = {
-        'Create Date': getCurrentDate(),
-        Type: type,
-        Index: id,
-      };
-
-      const fileContent = this.formatIssueFile(metadata, content);
-      await fs.writeFile(filePath, fileContent, 'utf-8');
-
-      const issue: IssueFile = {
-        title,
-        number: id,
-        type,
-        content,
-        createDate: new Date(),
-        status: IssueStatus.STASH,
-      };
+      const invalid = validateIssueFields(fields);
+      if (invalid) {
+        return {
+          success: false,
+          error: invalid,
+        };
+      }
 
-      return {
-        success: true,
-        issue,
-        filePath,
-      };
+      await this.ensureDirectories();
+      return await this.lock.withLock(() => this.writeNewIssue(title, type, content, fields));
     } catch (error) {
       return {
         success: false,
@@ -144,21 +325,87 @@ export class FileManager {
     }
   }
 
+  /**
+   * Allocate numbers for a new issue and write it to stash
+   * Must be called while holding the lock
+   * @param title - Issue title
+   * @param type - Issue type
+   * @param content - Issue content
+   * @param fields - Optional planning fields
+   * @returns IssueCreationResult
+   */
+  private async writeNewIssue(
+    title: string,
+    type: string,
+    content: string,
+    fields: IssueFields
+  ): Promise<IssueCreationResult> {
+    const id = await this.getNextId();
+    const uidValue = (await this.readUidCounter()) + 1;
+    const filename = generateIssueFilename(title, id, this.filenameScheme);
+    const filePath = path.join(getStashDir(this.basePath), filename);
+
+    const metadata: IssueMetadata = {
+      Schema: ISSUE_SCHEMA_VERSION,
+      'Create Date': getCurrentDate(),
+      Type: type,
+      Index: id,
+      ID: formatIssueUid(uidValue),
+      ...fieldsToMetadata(fields),
+    };
+
+    const template = await loadIssueTemplate(this.basePath, type);
+    const body = await renderIssueTemplate(
+      template,
+      { description: content, title, type, id: metadata.ID!, date: metadata['Create Date'] },
+      this.basePath
+    );
+    const fileContent = this.formatIssueFile(metadata, body);
+    await writeFileAtomic(filePath, fileContent);
+    await this.writeUidCounter(uidValue);
+
+    const issue: IssueFile = {
+      title,
+      number: id,
+      id: metadata.ID,
+      type,
+      content: body,
+      createDate: new Date(),
+      status: IssueStatus.STASH,
+      ...parseIssueFields(metadata as unknown as Record<string, unknown>),
+    };
+
+    return {
+      success: true,
+      issue,
+      filePath,
+    };
+  }
+
   /**
    * Find issue by identifier (number or title)
    * @param identifier - Issue number or title
+   * @param statuses - Locations to search, in order of preference
    * @returns IssueSearchResult
    */
-  async findIssue(identifier: string): Promise<IssueSearchResult> {
+  async findIssue(
+    identifier: string,
+    statuses: string[] = this.allStatuses
+  ): Promise<IssueSearchResult> {
     try {
+      // Stable IDs never change, so check them before the reusable index
+      if (isUidIdentifier(identifier)) {
+        return this.findIssueByUid(identifier, statuses);
+      }
+
       // Try to parse as number first
       const number = parseInt(identifier, 10);
       if (!isNaN(number)) {
-        return this.findIssueByNumber(number);
+        return this.findIssueByNumber(number, statuses);
       }
 
       // Try to find by title
-      return this.findIssueByTitle(identifier);
+      return this.findIssueByTitle(identifier, statuses);
     } catch (error) {
       return {
         found: false,
@@ -167,39 +414,85 @@ export class FileManager {
     }
   }
 
+  /**
+   * Find issue by stable ID
+   * @param uid - Stable ID such as IM-12 (case insensitive)
+   * @param statuses - Locations to search, in order of preference
+   * @returns IssueSearchResult
+   */
+  async findIssueByUid(
+    uid: string,
+    statuses: string[] = this.allStatuses
+  ): Promise<IssueSearchResult> {
+    const wanted = parseIssueUid(uid);
+
+    for (const { status, dir } of this.getIssueLocations(statuses)) {
+      const matchesLocation = this.isArchived(status) ? isArchivedIssueFile : isIssueFile;
+      for (const file of (await this.readDirSafe(dir)).filter(matchesLocation)) {
+        try {
+          const { metadata } = this.parseIssueFile(await fs.readFile(path.join(dir, file), 'utf-8'));
+          if (wanted !== null && parseIssueUid(metadata.ID) === wanted) {
+            return this.loadIssueFile(path.join(dir, file), status);
+          }
+        } catch (error) {
+          // Skip unreadable files
+        }
+      }
+    }
+
+    return {
+      found: false,
+      error: `Issue with ID ${uid.toUpperCase()} not found`,
+    };
+  }
+
   /**
    * Find issue by number
+   * Archived issues are matched on their original index, preferring the latest closed
    * @param number - Issue number
+   * @param statuses - Locations to search, in order of preference
    * @returns IssueSearchResult
    */
-  async findIssueByNumber(number: number): Promise<IssueSearchResult> {
-    const stashDir = getStashDir(this.basePath);
-    const doingDir = getDoingDir(this.basePath);
+  async findIssueByNumber(
+    number: number,
+    statuses: string[] = this.allStatuses
+  ): Promise<IssueSearchResult> {
+    for (const { status, dir } of this.getIssueLocations(statuses)) {
+      let files: string[];
+      try {
+        files = await fs.readdir(dir);
+      } catch (error) {
+        // Directory doesn't exist
+        continue;
+      }
 
-    // Check stash directory
-    try {
-      const stashFiles = await fs.readdir(stashDir);
-      for (const file of stashFiles) {
-        const fileNumber = extractIssueNumber(file);
-        if (fileNumber === number) {
-          return this.loadIssueFile(path.join(stashDir, file));
+      if (!this.isArchived(status)) {
+        for (const file of files) {
+          const fileNumber = extractIssueNumber(file);
+          if (fileNumber === number) {
+            return this.loadIssueFile(path.join(dir, file), status);
+          }
         }
+        continue;
       }
-    } catch (error) {
-      // Directory doesn't exist
-    }
 
-    // Check doing directory
-    try {
-      const doingFiles = await fs.readdir(doingDir);
-      for (const file of doingFiles) {
-        const fileNumber = extractIssueNumber(file);
-        if (fileNumber === number) {
-          return this.loadIssueFile(path.join(doingDir, file));
+      let latest: { file: string; closeDate: string } | null = null;
+      for (const file of files.filter(isArchivedIssueFile)) {
+        try {
+          const content = await fs.readFile(path.join(dir, file), 'utf-8');
+          const { metadata } = this.parseIssueFile(content);
+          const index = extractIssueNumber(file) ?? metadata.Index;
+          const closeDate = String(metadata['Close Date'] ?? '');
+          if (index === number && (!latest || closeDate > latest.closeDate)) {
+            latest = { file, closeDate };
+          }
+        } catch (error) {
+          // Skip unreadable archive entries
         }
       }
-    } catch (error) {
-      // Directory doesn't exist
+      if (latest) {
+        return this.loadIssueFile(path.join(dir, latest.file), status);
+      }
     }
 
     return {
@@ -210,12 +503,18 @@ export class FileManager {
 
   /**
    * Find issue by title (fuzzy match)
+   * Every title that contains the search text, or is contained in it, is a candidate; the issue is
+   * picked only when it is the sole candidate or the sole exact match, otherwise the result is
+   * ambiguous and lists the candidates, best first. Archived issues are candidates only when no
+   * current issue matches, so the archive does not take titles over from the work in progress
    * @param title - Issue title
+   * @param statuses - Locations to search, in order of preference
    * @returns IssueSearchResult
    */
-  async findIssueByTitle(title: string): Promise<IssueSearchResult> {
-    const stashDir = getStashDir(this.basePath);
-    const doingDir = getDoingDir(this.basePath);
+  async findIssueByTitle(
+    title: string,
+    statuses: string[] = this.allStatuses
+  ): Promise<IssueSearchResult> {
     const searchNormalized = this.normalizeTitleForSearch(title);
 
     if (!searchNormalized) {
@@ -225,154 +524,208 @@ export class FileManager {
       };
     }
 
-    // Check stash directory
-    try {
-      const stashFiles = await fs.readdir(stashDir);
-      for (const file of stashFiles) {
-        if (isIssueFile(file)) {
-          const fileTitle = file.replace(/\.\d+\.md$/, '').toLowerCase();
-          const fileNormalized = this.normalizeTitleForSearch(fileTitle);
-          if (
-            fileNormalized.includes(searchNormalized) ||
-            searchNormalized.includes(fileNormalized)
-          ) {
-            return this.loadIssueFile(path.join(stashDir, file));
-          }
+    let matches: Array<{ filePath: string; status: string; title: string; score: number; order: number }> = [];
+    for (const { status, dir } of this.getIssueLocations(statuses)) {
+      const archived = this.isArchived(status);
+      const matchesLocation = archived ? isArchivedIssueFile : isIssueFile;
+      for (const file of (await this.readDirSafe(dir)).filter(matchesLocation)) {
+        const fileTitle = extractIssueTitle(file, archived);
+        const score = this.scoreTitleMatch(this.normalizeTitleForSearch(fileTitle), searchNormalized);
+        if (score > 0) {
+          matches.push({ filePath: path.join(dir, file), status, title: fileTitle, score, order: matches.length });
         }
       }
-    } catch (error) {
-      // Directory doesn't exist
     }
 
-    // Check doing directory
-    try {
-      const doingFiles = await fs.readdir(doingDir);
-      for (const file of doingFiles) {
-        if (isIssueFile(file)) {
-          const fileTitle = file.replace(/\.\d+\.md$/, '').toLowerCase();
-          const fileNormalized = this.normalizeTitleForSearch(fileTitle);
-          if (
-            fileNormalized.includes(searchNormalized) ||
-            searchNormalized.includes(fileNormalized)
-          ) {
-            return this.loadIssueFile(path.join(doingDir, file));
-          }
+    if (matches.some(match => !this.isArchived(match.status))) {
+      matches = matches.filter(match => !this.isArchived(match.status));
+    }
+
+    const exact = matches.filter(match => match.score === TITLE_SCORES.exact);
+    const picked = matches.length === 1 ? matches[0] : exact.length === 1 ? exact[0] : null;
+    if (picked) {
+      return this.loadIssueFile(picked.filePath, picked.status);
+    }
+    if (matches.length === 0) {
+      return {
+        found: false,
+        error: `Issue with title containing "${title}" not found`,
+      };
+    }
+
+    matches.sort((a, b) => b.score - a.score || a.order - b.order);
+    const candidates: IssueCandidate[] = [];
+    for (const match of matches) {
+      const candidate: IssueCandidate = { number: -1, title: match.title, status: match.status, score: match.score };
+      try {
+        const { metadata } = this.parseIssueFile(await fs.readFile(match.filePath, 'utf-8'));
+        candidate.number =
+          extractIssueNumber(path.basename(match.filePath)) ??
+          (Number.isInteger(metadata.Index) ? (metadata.Index as number) : -1);
+        if (parseIssueUid(metadata.ID) !== null) {
+          candidate.id = String(metadata.ID);
         }
+        if (typeof metadata.Type === 'string') {
+          candidate.type = metadata.Type;
+        }
+      } catch (error) {
+        candidate.number = extractIssueNumber(path.basename(match.filePath)) ?? -1;
       }
-    } catch (error) {
-      // Directory doesn't exist
+      candidates.push(candidate);
     }
 
     return {
       found: false,
-      error: `Issue with title containing "${title}" not found`,
+      ambiguous: true,
+      candidates,
+      error: `Title "${title}" matches ${candidates.length} issues; use a number or ID to pick one`,
     };
   }
 
+  /**
+   * Score how well a title matches the search text
+   * @param fileTitle - Normalized title of the issue
+   * @param search - Normalized search text
+   * @returns Score from TITLE_SCORES, or 0 when the title does not match
+   */
+  private scoreTitleMatch(fileTitle: string, search: string): number {
+    if (fileTitle === search) {
+      return TITLE_SCORES.exact;
+    }
+    if (fileTitle.startsWith(`${search} `)) {
+      return TITLE_SCORES.prefix;
+    }
+    if (` ${fileTitle} `.includes(` ${search} `)) {
+      return TITLE_SCORES.words;
+    }
+    if (fileTitle.includes(search)) {
+      return TITLE_SCORES.substring;
+    }
+    return fileTitle && search.includes(fileTitle) ? TITLE_SCORES.contained : 0;
+  }
+
   /**
    * Open an issue (move to doing directory)
+   * Archived issues are reopened; issues with blockers that are not achieved are refused unless forced
    * @param identifier - Issue number or title
+   * @param options - Set force to open an issue whose blockers are not achieved
    * @returns IssueOpenResult
    */
-  async openIssue(identifier: string): Promise<IssueOpenResult> {
+  async openIssue(identifier: string, options: { force?: boolean } = {}): Promise<IssueOpenResult> {
     try {
-      const searchResult = await this.findIssue(identifier);
-      if (!searchResult.found || !searchResult.issue) {
-        return {
-          success: false,
-          error: searchResult.error || 'Issue not found',
-        };
-      }
-
-      const issue = searchResult.issue;
-
-      // Check if issue is already in doing directory
-      if (issue.status === IssueStatus.DOING) {
-        return {
-          success: false,
-          error: `Issue #${issue.number} is already in progress`,
-        };
-      }
+      return await this.lock.withLock(async () => {
+        const searchResult = await this.findIssue(identifier);
+        if (!searchResult.found || !searchResult.issue) {
+          return {
+            success: false,
+            error: searchResult.error || 'Issue not found',
+            candidates: searchResult.candidates,
+          };
+        }
 
-      // Move file to doing directory
-      const doingDir = getDoingDir(this.basePath);
-      const oldPath = path.join(
-        issue.status === IssueStatus.STASH ? getStashDir(this.basePath) : getAchievedDir(this.basePath),
-        generateIssueFilename(issue.title, issue.number)
-      );
-      const newPath = path.join(doingDir, generateIssueFilename(issue.title, issue.number));
+        const issue = searchResult.issue;
 
-      await fs.rename(oldPath, newPath);
+        // Check if issue is already in doing directory
+        if (issue.status === IssueStatus.DOING) {
+          return {
+            success: false,
+            error: `Issue #${issue.number} is already in progress`,
+          };
+        }
 
-      // Create solution.md file
-      const solutionPath = getSolutionPath(this.basePath);
-      await fs.writeFile(
-        solutionPath,
-        `# Solution for Issue #${issue.number}: ${issue.title}\n\n`,
-        'utf-8'
-      );
+        const blockers = options.force ? [] : await this.findOpenBlockers(issue);
+        if (blockers.length > 0) {
+          return {
+            success: false,
+            blockers,
+            error: this.describeBlockers(issue, blockers),
+          };
+        }
 
+        return this.toOpenResult(await this.transitionIssue(issue, IssueStatus.DOING));
+      });
+    } catch (error) {
       return {
-        success: true,
-        issue,
-        solutionPath,
+        success: false,
+        error: `Failed to open issue: ${error}`,
       };
+    }
+  }
+
+  /**
+   * Reopen an archived issue (move from a terminal state back to doing)
+   * @param identifier - Original issue number or title
+   * @returns IssueOpenResult
+   */
+  async reopenIssue(identifier: string): Promise<IssueOpenResult> {
+    try {
+      return await this.lock.withLock(async () => {
+        const archivedStatuses = this.allStatuses.filter(status => this.isArchived(status));
+        const searchResult = await this.findIssue(identifier, archivedStatuses);
+        if (!searchResult.found || !searchResult.issue) {
+          return {
+            success: false,
+            error: searchResult.error || 'Archived issue not found',
+            candidates: searchResult.candidates,
+          };
+        }
+
+        return this.toOpenResult(await this.transitionIssue(searchResult.issue, IssueStatus.DOING));
+      });
     } catch (error) {
       return {
         success: false,
-        error: `Failed to open issue: ${error}`,
+        error: `Failed to reopen issue: ${error}`,
       };
     }
   }
 
   /**
    * Close an issue (move to achieved directory)
+   * When the project requires complete checklists, unchecked required items refuse the close unless forced
    * @param identifier - Issue number or title
+   * @param options - Set force to close despite unchecked checklist items
    * @returns IssueCloseResult
    */
-  async closeIssue(identifier: string): Promise<IssueCloseResult> {
+  async closeIssue(
+    identifier: string,
+    options: { force?: boolean } = {}
+  ): Promise<IssueCloseResult> {
     try {
-      const searchResult = await this.findIssue(identifier);
-      if (!searchResult.found || !searchResult.issue) {
-        return {
-          success: false,
-          error: searchResult.error || 'Issue not found',
-        };
-      }
+      return await this.lock.withLock(async () => {
+        const searchResult = await this.findIssue(identifier);
+        if (!searchResult.found || !searchResult.issue) {
+          return {
+            success: false,
+            error: searchResult.error || 'Issue not found',
+            candidates: searchResult.candidates,
+          };
+        }
 
-      const issue = searchResult.issue;
+        const issue = searchResult.issue;
+        const unchecked = options.force ? [] : this.findUncheckedItems(issue);
+        if (unchecked.length > 0) {
+          return {
+            success: false,
+            unchecked,
+            error: this.describeUnchecked(issue, unchecked),
+          };
+        }
+
+        const result = await this.transitionIssue(issue, IssueStatus.ACHIEVED);
+        if (!result.success) {
+          return {
+            success: false,
+            error: result.error,
+          };
+        }
 
-      // Check if solution.md exists
-      const solutionPath = getSolutionPath(this.basePath);
-      try {
-        await fs.access(solutionPath);
-      } catch {
         return {
-          success: false,
-          error: 'Solution file not found. Please create solution.md first.',
+          success: true,
+          issue: result.issue,
+          archivedPath: result.issue!.filePath,
         };
-      }
-
-      // Read solution content
-      const solutionContent = await fs.readFile(solutionPath, 'utf-8');
-
-      // Move file to achieved directory
-      const achievedDir = getAchievedDir(this.basePath);
-      const oldPath = path.join(getDoingDir(this.basePath), generateIssueFilename(issue.title, issue.number));
-      const newPath = path.join(achievedDir, generateAchievedFilename(issue.title));
-
-      // Combine original content with solution
-      const combinedContent = `${issue.content}\n\n---\n\n## Solution\n\n${solutionContent}`;
-      await fs.writeFile(newPath, combinedContent, 'utf-8');
-      await fs.unlink(oldPath);
-
-      // Delete solution.md
-      await fs.unlink(solutionPath);
-
-      return {
-        success: true,
-        archivedPath: newPath,
-      };
+      });
     } catch (error) {
       return {
         success: false,
@@ -382,95 +735,1519 @@ export class FileManager {
   }
 
   /**
-   * List current issues in stash and doing directories
-   * @returns IssueListResult
+   * Move an issue to another workflow state
+   * Moves into doing are refused while blockers are not achieved, like open, and moves into
+   * achieved while required checklist items are unchecked, like close
+   * @param identifier - Issue number, stable ID or title
+   * @param state - Target workflow state
+   * @param options - Set force to move despite blockers or unchecked items
+   * @returns IssueMoveResult
    */
-  async listIssues(): Promise<IssueListResult> {
-    const issues: IssueListItem[] = [];
-    const stashDir = getStashDir(this.basePath);
-    const doingDir = getDoingDir(this.basePath);
-
-    const collectFromDir = async (dir: string, status: IssueStatus): Promise<void> => {
-      try {
-        const files = await fs.readdir(dir);
-        for (const file of files) {
-          if (!isIssueFile(file)) {
-            continue;
-          }
-          const number = extractIssueNumber(file);
-          if (number === null) {
-            continue;
-          }
-
-          const title = file.replace(/\.\d+\.md$/, '');
-          let index = number;
-          let type: IssueListItem['type'] = 'unknown';
-
-          try {
-            const content = await fs.readFile(path.join(dir, file), 'utf-8');
-            const { metadata } = this.parseIssueFile(content);
-            const validatedType = validateIssueType(metadata.Type);
-            if (validatedType) {
-              type = validatedType;
-            }
-            if (typeof metadata.Index === 'number' && Number.isInteger(metadata.Index)) {
-              index = metadata.Index;
-            }
-          } catch (error) {
-            // Ignore parse errors and fall back to filename-based index/type
-          }
-
-          issues.push({
-            title,
-            number,
-            index,
-            type,
-            status,
-          });
+  async moveIssue(
+    identifier: string,
+    state: string,
+    options: { force?: boolean } = {}
+  ): Promise<IssueMoveResult> {
+    try {
+      return await this.lock.withLock(async () => {
+        const config = loadProjectConfig(this.basePath);
+        if (!findWorkflowState(config, state)) {
+          return {
+            success: false,
+            error: `Unknown state "${state}". Valid states: ${getWorkflowStateNames(config).join(', ')}`,
+          };
         }
-      } catch (error) {
-        // Directory doesn't exist yet
-      }
-    };
 
-    try {
-      await collectFromDir(stashDir, IssueStatus.STASH);
-      await collectFromDir(doingDir, IssueStatus.DOING);
+        const searchResult = await this.findIssue(identifier);
+        if (!searchResult.found || !searchResult.issue) {
+          return {
+            success: false,
+            error: searchResult.error || 'Issue not found',
+            candidates: searchResult.candidates,
+          };
+        }
 
-      issues.sort((a, b) => {
-        if (a.index !== b.index) {
-          return a.index - b.index;
+        const issue = searchResult.issue;
+        if (state === IssueStatus.DOING && issue.status !== IssueStatus.DOING && !options.force) {
+          const blockers = await this.findOpenBlockers(issue);
+          if (blockers.length > 0) {
+            return {
+              success: false,
+              blockers,
+              error: this.describeBlockers(issue, blockers),
+            };
+          }
         }
-        if (a.status !== b.status) {
-          return a.status.localeCompare(b.status);
+        if (state === IssueStatus.ACHIEVED && issue.status !== state && !options.force) {
+          const unchecked = this.findUncheckedItems(issue);
+          if (unchecked.length > 0) {
+            return {
+              success: false,
+              unchecked,
+              error: this.describeUnchecked(issue, unchecked),
+            };
+          }
         }
-        return a.title.localeCompare(b.title);
-      });
 
-      return { success: true, issues };
+        return this.transitionIssue(issue, state);
+      });
     } catch (error) {
       return {
         success: false,
-        error: `Failed to list issues: ${error}`,
+        error: `Failed to move issue: ${error}`,
       };
     }
   }
 
   /**
-   * Load issue file from disk
-   * @param filePath - Path to issue file
-   * @returns IssueSearchResult
+   * Record that one issue blocks another
+   * Both files are updated: the blocker's Blocks list and the blocked issue's BlockedBy list
+   * @param blockerIdentifier - Issue that has to be achieved first
+   * @param blockedIdentifier - Issue that waits for it
+   * @returns IssueLinkResult; changed is false when the relation already existed
    */
-  private async loadIssueFile(filePath: string): Promise<IssueSearchResult> {
-    try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      const { metadata, body } = this.parseIssueFile(content);
+  async linkIssues(blockerIdentifier: string, blockedIdentifier: string): Promise<IssueLinkResult> {
+    return this.changeLink(blockerIdentifier, blockedIdentifier, true);
+  }
 
-      const filename = path.basename(filePath);
+  /**
+   * Remove a blocking relation between two issues
+   * @param blockerIdentifier - Issue that blocks
+   * @param blockedIdentifier - Issue that is blocked
+   * @returns IssueLinkResult; changed is false when there was no such relation
+   */
+  async unlinkIssues(blockerIdentifier: string, blockedIdentifier: string): Promise<IssueLinkResult> {
+    return this.changeLink(blockerIdentifier, blockedIdentifier, false);
+  }
+
+  /**
+   * Add or remove a blocking relation on both issues
+   * @param blockerIdentifier - Issue that blocks
+   * @param blockedIdentifier - Issue that is blocked
+   * @param linked - true to add the relation, false to remove it
+   * @returns IssueLinkResult
+   */
+  private async changeLink(
+    blockerIdentifier: string,
+    blockedIdentifier: string,
+    linked: boolean
+  ): Promise<IssueLinkResult> {
+    try {
+      return await this.lock.withLock(async () => {
+        const found: IssueFile[] = [];
+        for (const identifier of [blockerIdentifier, blockedIdentifier]) {
+          const searchResult = await this.findIssue(identifier);
+          if (!searchResult.found || !searchResult.issue) {
+            return {
+              success: false,
+              error: searchResult.error || 'Issue not found',
+              candidates: searchResult.candidates,
+            };
+          }
+          found.push(searchResult.issue);
+        }
+
+        const [blocker, blocked] = found;
+        if (blocker.filePath === blocked.filePath) {
+          return {
+            success: false,
+            error: `Issue #${blocker.number} cannot block itself`,
+          };
+        }
+        // Relations name stable IDs because indexes are reused
+        const withoutId = found.find(issue => !issue.id);
+        if (withoutId) {
+          return {
+            success: false,
+            error: `Issue #${withoutId.number} has no stable ID; run "issue-make migrate" first`,
+          };
+        }
+
+        const blockerId = blocker.id!;
+        const blockedId = blocked.id!;
+        const blocks = parseIssueLinks(blocker.metadata?.Blocks);
+        const blockedBy = parseIssueLinks(blocked.metadata?.BlockedBy);
+
+        if (linked && !blocks.includes(blockedId)) {
+          const listResult = await this.listIssues({ all: true });
+          const cycle = findDependencyPath(listResult.issues ?? [], blockedId, blockerId);
+          if (cycle) {
+            return {
+              success: false,
+              error: `Linking would create a cycle: ${[blockerId, ...cycle].join(' -> ')}`,
+            };
+          }
+        }
+
+        const update = (ids: string[], id: string) =>
+          linked ? (ids.includes(id) ? ids : [...ids, id]) : ids.filter(item => item !== id);
+        // Only files whose list changes are rewritten, so a half-recorded relation gets completed
+        const rewrite = async (
+          issue: IssueFile,
+          key: 'Blocks' | 'BlockedBy',
+          ids: string[],
+          next: string[]
+        ): Promise<IssueFile> => {
+          if (next.length === ids.length) {
+            return issue;
+          }
+          const metadata = this.getIssueMetadata(issue);
+          if (next.length > 0) {
+            metadata[key] = next;
+          } else {
+            delete metadata[key];
+          }
+          await writeFileAtomic(
+            issue.filePath!,
+            this.formatIssueFile(metadata, issue.content, issue.frontmatterFormat)
+          );
+          return { ...issue, metadata };
+        };
+
+        const nextBlocks = update(blocks, blockedId);
+        const nextBlockedBy = update(blockedBy, blockerId);
+        return {
+          success: true,
+          blocker: await rewrite(blocker, 'Blocks', blocks, nextBlocks),
+          blocked: await rewrite(blocked, 'BlockedBy', blockedBy, nextBlockedBy),
+          changed: nextBlocks.length !== blocks.length || nextBlockedBy.length !== blockedBy.length,
+        };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to ${linked ? 'link' : 'unlink'} issues: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Find the issues an issue is blocked by that are not achieved yet
+   * Blockers that no longer exist are ignored
+   * @param issue - Issue about to be worked on
+   * @returns Unfinished blockers
+   */
+  private async findOpenBlockers(issue: IssueFile): Promise<IssueListItem[]> {
+    const blockedBy = parseIssueLinks(issue.metadata?.BlockedBy);
+    if (blockedBy.length === 0) {
+      return [];
+    }
+
+    const listResult = await this.listIssues({ all: true });
+    return (listResult.issues ?? []).filter(
+      item => item.id && blockedBy.includes(item.id) && item.status !== IssueStatus.ACHIEVED
+    );
+  }
+
+  /**
+   * Explain why an issue cannot be worked on yet
+   * @param issue - Blocked issue
+   * @param blockers - Unfinished blockers
+   * @returns Error message
+   */
+  private describeBlockers(issue: IssueFile, blockers: IssueListItem[]): string {
+    const names = blockers.map(blocker => `#${blocker.number} (${blocker.status})`).join(', ');
+    return `Issue #${issue.number} is blocked by ${names}, which must be achieved first`;
+  }
+
+  /**
+   * Find the required checklist items of an issue that are still unchecked
+   * @param issue - Issue about to be closed
+   * @returns Unchecked items, or none when the project does not require complete checklists
+   */
+  private findUncheckedItems(issue: IssueFile): ChecklistItem[] {
+    if (!loadProjectConfig(this.basePath).checklist.requireComplete) {
+      return [];
+    }
+    return parseChecklist(issue.content).filter(item => !item.checked && !item.optional);
+  }
+
+  /**
+   * Explain why an issue cannot be closed yet
+   * @param issue - Issue with unchecked items
+   * @param unchecked - Unchecked required items
+   * @returns Error message
+   */
+  private describeUnchecked(issue: IssueFile, unchecked: ChecklistItem[]): string {
+    const items = unchecked.map(item => `${item.number}`).join(', ');
+    return `Issue #${issue.number} has ${unchecked.length} unchecked checklist item${
+      unchecked.length === 1 ? '' : 's'
+    } (${items}), which must be checked first`;
+  }
+
+  /**
+   * Tick or untick a checklist item in an issue body
+   * @param identifier - Issue number, stable ID or title
+   * @param number - Item number, counting from 1 in document order
+   * @param checked - true to tick the item, false to clear it
+   * @returns ChecklistUpdateResult; changed is false when the item already had that state
+   */
+  async checkItem(
+    identifier: string,
+    number: number,
+    checked = true
+  ): Promise<ChecklistUpdateResult> {
+    try {
+      return await this.lock.withLock(async () => {
+        const searchResult = await this.findIssue(identifier);
+        if (!searchResult.found || !searchResult.issue) {
+          return {
+            success: false,
+            error: searchResult.error || 'Issue not found',
+            candidates: searchResult.candidates,
+          };
+        }
+
+        const issue = searchResult.issue;
+        const items = parseChecklist(issue.content);
+        if (items.length === 0) {
+          return {
+            success: false,
+            error: `Issue #${issue.number} has no checklist`,
+          };
+        }
+        const item = items.find(candidate => candidate.number === number);
+        if (!item) {
+          return {
+            success: false,
+            error: `Issue #${issue.number} has no checklist item ${number} (items 1-${items.length})`,
+          };
+        }
+
+        if (item.checked === checked) {
+          return {
+            success: true,
+            issue,
+            item,
+            progress: getChecklistProgress(items),
+            changed: false,
+          };
+        }
+
+        const content = setChecklistItem(issue.content, number, checked)!;
+        const metadata = this.getIssueMetadata(issue);
+        await writeFileAtomic(
+          issue.filePath!,
+          this.formatIssueFile(metadata, content, issue.frontmatterFormat)
+        );
+
+        return {
+          success: true,
+          issue: { ...issue, content, metadata },
+          item: { ...item, checked },
+          progress: getChecklistProgress(parseChecklist(content)),
+          changed: true,
+        };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to ${checked ? 'check' : 'uncheck'} checklist item: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Append a timestamped note to an issue, attributed to the current actor
+   * @param identifier - Issue number, stable ID or title
+   * @param text - Note text in markdown
+   * @returns IssueNoteResult with the note as written
+   */
+  async addNote(identifier: string, text: string): Promise<IssueNoteResult> {
+    if (!text.trim()) {
+      return {
+        success: false,
+        error: 'Note text is empty',
+      };
+    }
+
+    try {
+      return await this.lock.withLock(async () => {
+        const searchResult = await this.findIssue(identifier);
+        if (!searchResult.found || !searchResult.issue) {
+          return {
+            success: false,
+            error: searchResult.error || 'Issue not found',
+            candidates: searchResult.candidates,
+          };
+        }
+
+        const issue = searchResult.issue;
+        const note: IssueNote = {
+          at: getCurrentDateTime(),
+          by: await getActor(this.basePath),
+          text: text.trim(),
+        };
+        const content = appendNote(issue.content, note);
+        const metadata = this.getIssueMetadata(issue);
+        await writeFileAtomic(
+          issue.filePath!,
+          this.formatIssueFile(metadata, content, issue.frontmatterFormat)
+        );
+
+        return {
+          success: true,
+          issue: { ...issue, content, metadata },
+          note,
+        };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to add note: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Copy files into an issue's attachment folder and link them from its body
+   * Names already taken in the folder get a numeric suffix instead of being overwritten
+   * @param identifier - Issue number, stable ID or title
+   * @param filePaths - Files to attach
+   * @returns IssueAttachResult with the paths of the copies
+   */
+  async attachFiles(identifier: string, filePaths: string[]): Promise<IssueAttachResult> {
+    if (filePaths.length === 0) {
+      return {
+        success: false,
+        error: 'No files to attach',
+      };
+    }
+
+    try {
+      return await this.lock.withLock(async () => {
+        const searchResult = await this.findIssue(identifier);
+        if (!searchResult.found || !searchResult.issue) {
+          return {
+            success: false,
+            error: searchResult.error || 'Issue not found',
+            candidates: searchResult.candidates,
+          };
+        }
+
+        const issue = searchResult.issue;
+        // Folders are named after the stable ID because the filename changes as the issue moves
+        if (!issue.id) {
+          return {
+            success: false,
+            error: `Issue #${issue.number} has no stable ID; run "issue-make migrate" first`,
+          };
+        }
+
+        for (const filePath of filePaths) {
+          let isFile = false;
+          try {
+            isFile = (await fs.stat(filePath)).isFile();
+          } catch (error) {
+            // Reported below
+          }
+          if (!isFile) {
+            return {
+              success: false,
+              error: `Cannot attach ${filePath}: not a readable file`,
+            };
+          }
+        }
+
+        const dir = getAttachmentsDir(this.basePath, issue.status, issue.id);
+        await fs.mkdir(dir, { recursive: true });
+        const taken = await this.readDirSafe(dir);
+        const attached: string[] = [];
+        const links: string[] = [];
+        for (const filePath of filePaths) {
+          const filename = getAttachmentFilename(path.basename(filePath), taken);
+          taken.push(filename);
+          await fs.copyFile(filePath, path.join(dir, filename));
+          attached.push(path.join(dir, filename));
+          links.push(formatAttachmentLink(issue.id, filename));
+        }
+
+        const content = addAttachmentLinks(issue.content, links);
+        const metadata = this.getIssueMetadata(issue);
+        await writeFileAtomic(
+          issue.filePath!,
+          this.formatIssueFile(metadata, content, issue.frontmatterFormat)
+        );
+
+        return {
+          success: true,
+          issue: { ...issue, content, metadata },
+          attached,
+        };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to attach files: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Move an issue's attachment folder along with the issue
+   * Must be called while holding the lock
+   * @param issue - Issue that was moved
+   * @param from - State the issue left
+   * @param to - State the issue is in now
+   */
+  private async moveAttachments(issue: IssueFile, from: string, to: string): Promise<void> {
+    if (!issue.id) {
+      return;
+    }
+    const source = getAttachmentsDir(this.basePath, from, issue.id);
+    const target = getAttachmentsDir(this.basePath, to, issue.id);
+    try {
+      await fs.access(source);
+    } catch {
+      // No attachments
+      return;
+    }
+
+    // The issue has already moved, so a folder left behind is reported by doctor instead
+    try {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.rename(source, target);
+    } catch (error) {
+      // Target folder already exists or cannot be created
+    }
+  }
+
+  /**
+   * Start, pause or resume tracking time on an issue in doing
+   * Without an identifier the issue is picked from doing: the only one without a running session
+   * for start, the one with a running session for pause and the most recently paused one for resume
+   * @param action - Tracking action
+   * @param identifier - Issue number, stable ID or title
+   * @returns TimeTrackingResult with the session that was started or finished
+   */
+  async trackTime(action: TimeTrackingAction, identifier?: string): Promise<TimeTrackingResult> {
+    try {
+      return await this.lock.withLock(async () => {
+        const picked = identifier
+          ? await this.findIssue(identifier)
+          : await this.pickTrackedIssue(action);
+        if (!picked.found || !picked.issue) {
+          return {
+            success: false,
+            error: picked.error || 'Issue not found',
+            candidates: picked.candidates,
+          };
+        }
+
+        const issue = picked.issue;
+        if (issue.status !== IssueStatus.DOING) {
+          return {
+            success: false,
+            error: `Issue #${issue.number} is in ${issue.status}; time is only tracked in doing`,
+          };
+        }
+
+        const sessions = parseWorkSessions(issue.metadata ?? {});
+        const running = sessions.find(session => !session.End);
+        const now = getCurrentDateTime();
+        let session: WorkSession;
+
+        if (action === 'pause') {
+          if (!running) {
+            return {
+              success: false,
+              error: `No session is running on issue #${issue.number}`,
+            };
+          }
+          session = { Start: running.Start, End: now, By: running.By };
+          sessions[sessions.indexOf(running)] = session;
+        } else {
+          if (running) {
+            return {
+              success: false,
+              error: `Time is already being tracked on issue #${issue.number} since ${running.Start}`,
+            };
+          }
+          if (action === 'resume' && sessions.length === 0) {
+            return {
+              success: false,
+              error: `Issue #${issue.number} has no paused session; use start instead`,
+            };
+          }
+          session = { Start: now, By: await getActor(this.basePath) };
+          sessions.push(session);
+        }
+
+        const metadata: IssueMetadata = { ...this.getIssueMetadata(issue), Sessions: sessions };
+        await writeFileAtomic(
+          issue.filePath!,
+          this.formatIssueFile(metadata, issue.content, issue.frontmatterFormat)
+        );
+
+        const end = new Date();
+        return {
+          success: true,
+          issue: { ...issue, metadata },
+          session,
+          totalMinutes: sessions.reduce(
+            (total, item) =>
+              total + getMinutesBetween(new Date(item.Start), item.End ? new Date(item.End) : end),
+            0
+          ),
+        };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to ${action} time tracking: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Pick the issue in doing a tracking action without an identifier applies to
+   * @param action - Tracking action
+   * @returns IssueSearchResult, with an error naming the candidates when there is more than one
+   */
+  private async pickTrackedIssue(action: TimeTrackingAction): Promise<IssueSearchResult> {
+    const doing: IssueFile[] = [];
+    const dir = getStateDir(this.basePath, IssueStatus.DOING);
+    for (const file of (await this.readDirSafe(dir)).filter(isIssueFile)) {
+      const loaded = await this.loadIssueFile(path.join(dir, file), IssueStatus.DOING);
+      if (loaded.found && loaded.issue) {
+        doing.push(loaded.issue);
+      }
+    }
+
+    const sessionsOf = (issue: IssueFile) => parseWorkSessions(issue.metadata ?? {});
+    const isRunning = (issue: IssueFile) => sessionsOf(issue).some(session => !session.End);
+    const lastEnd = (issue: IssueFile) =>
+      Math.max(...sessionsOf(issue).map(session => Date.parse(session.End!)));
+
+    let candidates: IssueFile[];
+    if (action === 'pause') {
+      candidates = doing.filter(isRunning);
+    } else if (action === 'resume') {
+      // Only the most recently paused issue is a candidate so resume needs no argument
+      const paused = doing
+        .filter(issue => sessionsOf(issue).length > 0 && !isRunning(issue))
+        .sort((a, b) => lastEnd(b) - lastEnd(a));
+      candidates = paused.slice(0, 1);
+    } else {
+      candidates = doing.filter(issue => !isRunning(issue));
+    }
+
+    if (candidates.length === 1) {
+      return { found: true, issue: candidates[0] };
+    }
+    if (candidates.length === 0) {
+      const reason = {
+        start: 'No issue in doing without a running session',
+        pause: 'No session is running',
+        resume: 'No paused issue in doing',
+      }[action];
+      return { found: false, error: reason };
+    }
+    return {
+      found: false,
+      error: `Several issues are in doing (${candidates
+        .map(issue => `#${issue.number}`)
+        .join(', ')}); please name one`,
+    };
+  }
+
+  /**
+   * Convert a move into doing to the result open and reopen report
+   * @param result - Move result
+   * @returns IssueOpenResult
+   */
+  private toOpenResult(result: IssueMoveResult): IssueOpenResult {
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      issue: result.issue,
+      solutionPath: result.solutionPath,
+      ...(this.isArchived(result.from!) ? { reopened: true } : {}),
+    };
+  }
+
+  /**
+   * Move a loaded issue to another state if the workflow allows it
+   * Must be called while holding the lock
+   * @param issue - Issue to move
+   * @param to - Target workflow state
+   * @returns IssueMoveResult
+   */
+  private async transitionIssue(issue: IssueFile, to: string): Promise<IssueMoveResult> {
+    const config = loadProjectConfig(this.basePath);
+    const from = issue.status;
+
+    if (from === to) {
+      return {
+        success: false,
+        error: `Issue #${issue.number} is already in ${to}`,
+      };
+    }
+
+    if (!isTransitionAllowed(config, from, to)) {
+      const allowed = config.workflow.transitions[from] ?? [];
+      return {
+        success: false,
+        error: `Moving an issue from ${from} to ${to} is not allowed (allowed from ${from}: ${
+          allowed.length > 0 ? allowed.join(', ') : 'none'
+        })`,
+      };
+    }
+
+    // The entry is written together with the rest of the move's metadata
+    const entry: IssueHistoryEntry = {
+      At: getCurrentDateTime(),
+      From: from,
+      To: to,
+      By: await getActor(this.basePath),
+    };
+
+    // Time is tracked while an issue is in doing
+    let sessions = parseWorkSessions(issue.metadata ?? {});
+    if (from === IssueStatus.DOING) {
+      sessions = sessions.map(session =>
+        session.End ? session : { Start: session.Start, End: entry.At, By: session.By }
+      );
+    }
+    if (to === IssueStatus.DOING) {
+      sessions = [...sessions, { Start: entry.At, By: entry.By }];
+    }
+
+    const recorded: IssueFile = {
+      ...issue,
+      metadata: {
+        ...issue.metadata,
+        History: [...parseIssueHistory(issue.metadata ?? {}), entry],
+        ...(sessions.length > 0 ? { Sessions: sessions } : {}),
+      } as IssueMetadata,
+    };
+
+    let result: IssueMoveResult;
+    if (isTerminalState(config, to)) {
+      result = await this.archiveIssue(recorded, to);
+    } else if (isTerminalState(config, from)) {
+      result = await this.restoreArchivedIssue(recorded, to);
+    } else {
+      result = await this.relocateIssue(recorded, to);
+    }
+
+    if (!result.success) {
+      return result;
+    }
+    await this.moveAttachments(issue, from, to);
+    return { ...result, from, to };
+  }
+
+  /**
+   * Move an issue between active states, keeping its index
+   * @param issue - Issue in an active state
+   * @param to - Active target state
+   * @returns IssueMoveResult
+   */
+  private async relocateIssue(issue: IssueFile, to: string): Promise<IssueMoveResult> {
+    const filename = generateIssueFilename(issue.title, issue.number, this.filenameScheme);
+    const oldPath = issue.filePath ?? path.join(getStateDir(this.basePath, issue.status), filename);
+    const newPath = path.join(getStateDir(this.basePath, to), filename);
+
+    await fs.rename(oldPath, newPath);
+
+    // Record when work started so the archive can report time in doing
+    const metadata: IssueMetadata = {
+      ...this.getIssueMetadata(issue),
+      ...(to === IssueStatus.DOING ? { 'Opened Date': getCurrentDate() } : {}),
+    };
+    await writeFileAtomic(newPath, this.formatIssueFile(metadata, issue.content, issue.frontmatterFormat));
+
+    const solutionPath =
+      to === IssueStatus.DOING ? await this.createSolutionDraft(issue) : undefined;
+
+    return {
+      success: true,
+      issue: { ...issue, status: to, metadata, filePath: newPath },
+      solutionPath,
+    };
+  }
+
+  /**
+   * Restore an archived issue to an active state
+   * Keeps the original index when it is free, and turns earlier solutions into history
+   * @param issue - Archived issue
+   * @param to - Active target state
+   * @returns IssueMoveResult
+   */
+  private async restoreArchivedIssue(issue: IssueFile, to: string): Promise<IssueMoveResult> {
+    const usedIds = await this.collectUsedIds();
+    const number = usedIds.has(issue.number) ? await this.getNextId() : issue.number;
+
+    const metadata: IssueMetadata = {
+      ...this.getIssueMetadata(issue),
+      Index: number,
+      ...(to === IssueStatus.DOING ? { 'Opened Date': getCurrentDate() } : {}),
+    };
+    const closeDate = metadata['Close Date'];
+    delete metadata['Close Date'];
+    delete metadata['Days In Doing'];
+    const content = issue.content.split(SOLUTION_SEPARATOR).join(
+      `\n\n---\n\n## Previous Solution${closeDate ? ` (closed ${closeDate})` : ''}\n\n`
+    );
+
+    const newPath = path.join(
+      getStateDir(this.basePath, to),
+      generateIssueFilename(issue.title, number, this.filenameScheme)
+    );
+    await this.commitMove(
+      'reopen',
+      newPath,
+      this.formatIssueFile(metadata, content, issue.frontmatterFormat),
+      [issue.filePath!]
+    );
+
+    const reopened: IssueFile = {
+      ...issue,
+      number,
+      content,
+      status: to,
+      metadata,
+      filePath: newPath,
+    };
+    const solutionPath =
+      to === IssueStatus.DOING ? await this.createSolutionDraft(reopened) : undefined;
+
+    return {
+      success: true,
+      issue: reopened,
+      solutionPath,
+    };
+  }
+
+  /**
+   * Create the per-issue solution draft, keeping any draft already written for it
+   * @param issue - Issue being worked on
+   * @returns Path to the solution draft
+   */
+  private async createSolutionDraft(issue: IssueFile): Promise<string> {
+    const solutionPath = getSolutionPath(this.basePath, issue.number);
+    try {
+      await fs.writeFile(
+        solutionPath,
+        `# Solution for Issue #${issue.number}: ${issue.title}\n\n`,
+        { encoding: 'utf-8', flag: 'wx' }
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+    return solutionPath;
+  }
+
+  /**
+   * Archive an issue in a terminal state
+   * Achieved needs a solution draft; other terminal states merge one only if it exists
+   * @param issue - Issue to archive
+   * @param to - Terminal target state
+   * @returns IssueMoveResult
+   */
+  private async archiveIssue(issue: IssueFile, to: string): Promise<IssueMoveResult> {
+    const targetDir = getStateDir(this.basePath, to);
+    const archivedFiles = await this.readDirSafe(targetDir);
+
+    // Already archived: the index may belong to an active issue now, so leave drafts alone
+    if (this.isArchived(issue.status)) {
+      const closeDate = String(issue.metadata?.['Close Date'] ?? getCurrentDate());
+      const newPath = path.join(
+        targetDir,
+        generateAchievedFilename(
+          issue.title,
+          issue.number,
+          closeDate,
+          archivedFiles,
+          this.filenameScheme
+        )
+      );
+      await fs.rename(issue.filePath!, newPath);
+      const metadata = this.getIssueMetadata(issue);
+      await writeFileAtomic(newPath, this.formatIssueFile(metadata, issue.content, issue.frontmatterFormat));
+      return {
+        success: true,
+        issue: { ...issue, status: to, metadata, filePath: newPath },
+      };
+    }
+
+    // Find the solution draft owned by this issue
+    const solutionPath = await this.findSolutionDraft(issue.number);
+    if (!solutionPath && to === IssueStatus.ACHIEVED) {
+      return {
+        success: false,
+        error: `Solution file not found. Please create ${path.basename(
+          getSolutionPath(this.basePath, issue.number)
+        )} first.`,
+      };
+    }
+
+    // Move file to the archive under a name no other archive uses
+    const closeDate = getCurrentDate();
+    const oldPath =
+      issue.filePath ??
+      path.join(
+        getStateDir(this.basePath, issue.status),
+        generateIssueFilename(issue.title, issue.number, this.filenameScheme)
+      );
+    const newPath = path.join(
+      targetDir,
+      generateAchievedFilename(
+        issue.title,
+        issue.number,
+        closeDate,
+        archivedFiles,
+        this.filenameScheme
+      )
+    );
+
+    // Combine original content with solution, keeping the frontmatter machine-readable
+    const metadata: IssueMetadata = {
+      ...this.getIssueMetadata(issue),
+      'Close Date': closeDate,
+    };
+    const openedDate = metadata['Opened Date'] ? parseDate(metadata['Opened Date']) : null;
+    if (openedDate) {
+      metadata['Days In Doing'] = getDaysBetween(openedDate, parseDate(closeDate)!);
+    }
+    const content = solutionPath
+      ? `${issue.content}${SOLUTION_SEPARATOR}${await fs.readFile(solutionPath, 'utf-8')}`
+      : issue.content;
+    // The merged solution draft goes away together with the active file
+    await this.commitMove(
+      'close',
+      newPath,
+      this.formatIssueFile(metadata, content, issue.frontmatterFormat),
+      solutionPath ? [oldPath, solutionPath] : [oldPath]
+    );
+
+    return {
+      success: true,
+      issue: { ...issue, content, status: to, metadata, filePath: newPath },
+    };
+  }
+
+  /**
+   * Write the new file of a move and delete the old ones
+   * A journal is kept until the move completes so recover() can finish it after a crash
+   * Must be called while holding the lock
+   * @param operation - Operation being performed
+   * @param target - Path of the file to create, which must not exist yet
+   * @param content - Content of the new file
+   * @param remove - Paths deleted once the new file is in place
+   */
+  private async commitMove(
+    operation: MoveJournal['operation'],
+    target: string,
+    content: string,
+    remove: string[]
+  ): Promise<void> {
+    const journalPath = getJournalPath(this.basePath);
+    const journal: MoveJournal = {
+      operation,
+      target: path.relative(this.basePath, target),
+      remove: remove.map(file => path.relative(this.basePath, file)),
+    };
+
+    await writeFileAtomic(journalPath, JSON.stringify(journal, null, 2));
+    await writeFileAtomic(target, content, { exclusive: true });
+    for (const file of remove) {
+      await fs.unlink(file);
+    }
+    await fs.unlink(journalPath);
+  }
+
+  /**
+   * Finish or discard operations interrupted by a crash and remove leftover temporary files
+   * Safe to call on every startup; does nothing when the tree is consistent
+   * @returns RecoveryResult with a description of every repair made
+   */
+  async recover(): Promise<RecoveryResult> {
+    try {
+      await fs.access(getIssuesDir(this.basePath));
+    } catch {
+      // Not an issue-make project, nothing to recover
+      return { success: true, actions: [] };
+    }
+
+    try {
+      return await this.lock.withLock(async () => {
+        const actions: string[] = [];
+        const journalPath = getJournalPath(this.basePath);
+
+        let journal: MoveJournal | null = null;
+        try {
+          journal = JSON.parse(await fs.readFile(journalPath, 'utf-8')) as MoveJournal;
+        } catch (error) {
+          // No interrupted move
+        }
+
+        if (journal) {
+          const targetExists = await fs
+            .access(path.join(this.basePath, journal.target))
+            .then(() => true, () => false);
+
+          if (targetExists) {
+            for (const file of journal.remove) {
+              try {
+                await fs.unlink(path.join(this.basePath, file));
+                actions.push(`Removed ${file} left behind by an interrupted ${journal.operation}`);
+              } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                  throw error;
+                }
+              }
+            }
+          } else {
+            actions.push(`Discarded an interrupted ${journal.operation} of ${journal.target}`);
+          }
+          await fs.unlink(journalPath);
+        }
+
+        const dirs = [
+          getIssuesDir(this.basePath),
+          ...this.getIssueLocations(this.allStatuses).map(({ dir }) => dir),
+        ];
+        for (const dir of dirs) {
+          for (const file of (await this.readDirSafe(dir)).filter(isTempFile)) {
+            await fs.unlink(path.join(dir, file));
+            actions.push(`Removed temporary file ${path.relative(this.basePath, path.join(dir, file))}`);
+          }
+        }
+
+        return { success: true, actions };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to recover interrupted operations: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Locate the solution draft for an issue
+   * Falls back to the legacy shared solution.md only when its header names this issue
+   * @param number - Issue number
+   * @returns Path to the draft or null if none exists
+   */
+  private async findSolutionDraft(number: number): Promise<string | null> {
+    const solutionPath = getSolutionPath(this.basePath, number);
+    try {
+      await fs.access(solutionPath);
+      return solutionPath;
+    } catch {
+      // No per-issue draft, try the legacy shared file
+    }
+
+    const legacyPath = getSolutionPath(this.basePath);
+    try {
+      const legacyContent = await fs.readFile(legacyPath, 'utf-8');
+      if (legacyContent.startsWith(`# Solution for Issue #${number}:`)) {
+        return legacyPath;
+      }
+    } catch {
+      // Legacy file doesn't exist
+    }
+
+    return null;
+  }
+
+  /**
+   * Rename archived issues to the collision-safe naming scheme
+   * Legacy archives were named {title}.md, so same-titled issues could overwrite each other
+   * @param options - Set dryRun to report the renames without touching files
+   * @returns ArchiveMigrationResult
+   */
+  async migrateArchive(options: { dryRun?: boolean } = {}): Promise<ArchiveMigrationResult> {
+    try {
+      return await this.lock.withLock(async () => {
+        const achievedDir = getAchievedDir(this.basePath);
+        const files = await this.readDirSafe(achievedDir);
+        const taken = files.filter(isDatedArchiveFilename);
+        const renames: ArchiveRename[] = [];
+
+        const legacyFiles = files.filter(
+          name => isArchivedIssueFile(name) && !isDatedArchiveFilename(name)
+        );
+
+        for (const file of legacyFiles) {
+          const filePath = path.join(achievedDir, file);
+          let metadata: Partial<IssueMetadata> = {};
+          try {
+            metadata = this.parseIssueFile(await fs.readFile(filePath, 'utf-8')).metadata ?? {};
+          } catch (error) {
+            // Unreadable frontmatter, fall back to file information
+          }
+
+          const closeDate =
+            metadata['Close Date'] && parseDate(String(metadata['Close Date']))
+              ? String(metadata['Close Date'])
+              : formatDate((await fs.stat(filePath)).mtime);
+          const index = Number.isInteger(metadata.Index)
+            ? (metadata.Index as number)
+            : extractIssueNumber(file);
+          const title = extractIssueTitle(file);
+
+          const scheme = this.filenameScheme;
+          const plain = generateAchievedFilename(title, index, closeDate, [], scheme);
+          const target = generateAchievedFilename(title, index, closeDate, taken, scheme);
+          taken.push(target);
+          renames.push({
+            from: filePath,
+            to: path.join(achievedDir, target),
+            collision: plain !== target,
+          });
+        }
+
+        if (!options.dryRun) {
+          for (const rename of renames) {
+            await fs.rename(rename.from, rename.to);
+          }
+        }
+
+        return { success: true, renames };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to migrate archive: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Assign stable IDs to issues created before IDs existed
+   * IDs are handed out in creation order so older issues get lower IDs
+   * @param options - Set dryRun to report the assignments without touching files
+   * @returns UidMigrationResult
+   */
+  async migrateUids(options: { dryRun?: boolean } = {}): Promise<UidMigrationResult> {
+    try {
+      return await this.lock.withLock(async () => {
+        const pending: Array<{ filePath: string; createDate: string; index: number }> = [];
+        let highest = 0;
+        for (const { status, dir } of this.getIssueLocations(this.allStatuses)) {
+          const matchesLocation = this.isArchived(status) ? isArchivedIssueFile : isIssueFile;
+          for (const file of (await this.readDirSafe(dir)).filter(matchesLocation)) {
+            const filePath = path.join(dir, file);
+            const { metadata } = this.parseIssueFile(await fs.readFile(filePath, 'utf-8'));
+            highest = Math.max(highest, parseIssueUid(metadata.ID) ?? 0);
+            if (parseIssueUid(metadata.ID) === null && Object.keys(metadata).length > 0) {
+              pending.push({
+                filePath,
+                createDate: String(metadata['Create Date'] ?? ''),
+                index: Number.isInteger(metadata.Index) ? (metadata.Index as number) : 0,
+              });
+            }
+          }
+        }
+        pending.sort((a, b) => a.createDate.localeCompare(b.createDate) || a.index - b.index);
+
+        // A hand-written ID may be ahead of the counter; new IDs start after it
+        let counter = Math.max(await this.readUidCounter(), highest);
+        const assigned: UidAssignment[] = pending.map(({ filePath }) => {
+          counter += 1;
+          return { filePath, id: formatIssueUid(counter) };
+        });
+
+        if (!options.dryRun && assigned.length > 0) {
+          for (const { filePath, id } of assigned) {
+            const { metadata, body, format } = this.parseIssueFile(await fs.readFile(filePath, 'utf-8'));
+            await writeFileAtomic(filePath, this.formatIssueFile({ ...metadata, ID: id }, body, format));
+          }
+          await this.writeUidCounter(counter);
+        }
+
+        return { success: true, assigned };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to assign stable IDs: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Upgrade issue frontmatter to the current schema version
+   * Fills in what older files relied on fallbacks for: a missing Index, dates in other formats
+   * and comma-separated labels
+   * @param options - Set dryRun to report the upgrades without touching files
+   * @returns SchemaMigrationResult
+   */
+  async migrateSchema(options: { dryRun?: boolean } = {}): Promise<SchemaMigrationResult> {
+    try {
+      return await this.lock.withLock(async () => {
+        const upgrades: SchemaUpgrade[] = [];
+        const skipped: SchemaSkip[] = [];
+
+        for (const { status, dir } of this.getIssueLocations(this.allStatuses)) {
+          const matchesLocation = this.isArchived(status) ? isArchivedIssueFile : isIssueFile;
+          for (const file of (await this.readDirSafe(dir)).filter(matchesLocation)) {
+            const filePath = path.join(dir, file);
+            const before = await fs.readFile(filePath, 'utf-8');
+            let parsed: ReturnType<FileManager['parseIssueFile']>;
+            try {
+              parsed = this.parseIssueFile(before);
+            } catch (error) {
+              if (!(error instanceof FrontmatterError)) {
+                throw error;
+              }
+              skipped.push({ filePath, reason: `frontmatter ${error.message}` });
+              continue;
+            }
+            const { metadata, body } = parsed;
+
+            const upgrade = this.upgradeMetadata(metadata, file);
+            if (upgrade.error !== undefined) {
+              skipped.push({ filePath, reason: upgrade.error });
+            } else if (upgrade.changes.length > 0) {
+              upgrades.push({
+                filePath,
+                from: Number.isInteger(metadata.Schema) ? (metadata.Schema as number) : 1,
+                changes: upgrade.changes,
+                before,
+                after: this.formatIssueFile(upgrade.metadata, body, parsed.format),
+              });
+            }
+          }
+        }
+
+        if (!options.dryRun) {
+          for (const { filePath, after } of upgrades) {
+            await writeFileAtomic(filePath, after);
+          }
+        }
+
+        return { success: true, upgrades, skipped };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to migrate issue schema: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Bring one file's frontmatter up to the current schema
+   * @param metadata - Parsed frontmatter
+   * @param filename - Issue filename, used to recover a missing Index
+   * @returns Upgraded metadata and a description of each change, or the reason it cannot be upgraded
+   */
+  private upgradeMetadata(
+    metadata: Record<string, unknown>,
+    filename: string
+  ): { metadata: IssueMetadata; changes: string[]; error?: string } {
+    const upgraded: Record<string, unknown> = { ...metadata };
+    const changes: string[] = [];
+    const fail = (error: string) => ({ metadata: upgraded as unknown as IssueMetadata, changes, error });
+
+    if (Object.keys(metadata).length === 0) {
+      return fail('no frontmatter (run issue-make doctor --fix first)');
+    }
+    const schema = metadata.Schema ?? 1;
+    if (typeof schema !== 'number' || !Number.isInteger(schema) || schema < 1) {
+      return fail(`unrecognized schema version "${schema}"`);
+    }
+    if (schema > ISSUE_SCHEMA_VERSION) {
+      return fail(`written for schema version ${schema}, newer than this version of issue-make`);
+    }
+    if (typeof metadata.Type !== 'string' || !metadata.Type.trim()) {
+      return fail('no Type (run issue-make doctor --fix first)');
+    }
+    if (metadata['Create Date'] === undefined || metadata['Create Date'] === null) {
+      return fail('no Create Date (run issue-make doctor --fix first)');
+    }
+
+    if (!Number.isInteger(metadata.Index)) {
       const number = extractIssueNumber(filename);
-      const title = filename.replace(/\.\d+\.md$/, '');
+      if (number !== null) {
+        upgraded.Index = number;
+        changes.push(`Index set to ${number} from the filename`);
+      }
+    }
+
+    for (const key of ['Create Date', 'Opened Date', 'Close Date', 'Due', 'Updated']) {
+      const value = metadata[key];
+      if (value === undefined || value === null || (typeof value === 'string' && parseDate(value))) {
+        continue;
+      }
+      const date = normalizeDate(value);
+      if (!date) {
+        return fail(`${key} "${value}" is not a date that can be converted safely`);
+      }
+      upgraded[key] = date;
+      changes.push(`${key} "${value}" converted to ${date}`);
+    }
+
+    if (typeof metadata.Priority === 'string' && validatePriority(metadata.Priority)) {
+      const priority = validatePriority(metadata.Priority)!;
+      if (priority !== metadata.Priority) {
+        upgraded.Priority = priority;
+        changes.push(`Priority "${metadata.Priority}" normalized to ${priority}`);
+      }
+    }
+    if (typeof metadata.Labels === 'string') {
+      upgraded.Labels = parseLabels(metadata.Labels);
+      changes.push('Labels converted to a list');
+    }
+
+    if (schema !== ISSUE_SCHEMA_VERSION) {
+      changes.push(`Schema set to ${ISSUE_SCHEMA_VERSION}`);
+    }
+    // Keep the version on the first line and the required fields in the order new files use
+    delete upgraded.Schema;
+    const { 'Create Date': createDate, Type, Index, ...rest } = upgraded;
+    return {
+      metadata: {
+        Schema: ISSUE_SCHEMA_VERSION,
+        'Create Date': createDate,
+        Type,
+        ...(Index !== undefined ? { Index } : {}),
+        ...rest,
+      } as IssueMetadata,
+      changes,
+    };
+  }
+
+  /**
+   * Read a directory, treating a missing directory as empty
+   * @param dir - Directory path
+   * @returns Filenames in the directory
+   */
+  private async readDirSafe(dir: string): Promise<string[]> {
+    try {
+      return await fs.readdir(dir);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * List current issues in every active workflow state
+   * A filter with a status condition also looks at archived states
+   * @param options - Set all to include archived issues, query to filter with a filter expression
+   * @returns IssueListResult
+   */
+  async listIssues(options: { all?: boolean; query?: string } = {}): Promise<IssueListResult> {
+    try {
+      const filter = options.query?.trim() ? parseFilterQuery(options.query) : null;
+      const statuses =
+        options.all || (filter && hasStatusCondition(filter)) ? this.allStatuses : this.activeStatuses;
+
+      let entries = await this.readIssueEntries(statuses);
+      if (filter) {
+        checkFilterQuery(filter, {
+          statuses: this.allStatuses,
+          frontmatterKeys: entries.flatMap(entry => Object.keys(entry.metadata)),
+        });
+        entries = entries.filter(entry => matchesFilter(entry, filter));
+      }
+      const issues = entries.map(entry => entry.item);
+
+      issues.sort((a, b) => {
+        const aArchived = this.isArchived(a.status);
+        const bArchived = this.isArchived(b.status);
+        if (aArchived !== bArchived) {
+          return aArchived ? 1 : -1;
+        }
+        if (a.index !== b.index) {
+          return a.index - b.index;
+        }
+        if (a.status !== b.status) {
+          return a.status.localeCompare(b.status);
+        }
+        return a.title.localeCompare(b.title);
+      });
+
+      return { success: true, issues };
+    } catch (error) {
+      if (error instanceof FilterQueryError) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+      return {
+        success: false,
+        error: `Failed to list issues: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Search titles, descriptions, notes and solutions of every issue, archive included
+   * @param query - Search query with plain terms, "quoted phrases" and -excluded terms
+   * @param options - Maximum number of hits to return
+   * @returns IssueTextSearchResult with hits ranked best first
+   */
+  async searchIssues(query: string, options: { limit?: number } = {}): Promise<IssueTextSearchResult> {
+    const parsed = parseSearchQuery(query);
+    if (!hasSearchTerms(parsed)) {
+      return {
+        success: false,
+        error: 'Search query needs at least one term that is not excluded',
+      };
+    }
+
+    try {
+      const entries = await this.readIssueEntries(this.allStatuses);
+      const documents = entries.map(({ item, body }) => {
+        const { description, notes, solution } = parseIssueBody(body);
+        return {
+          title: item.title,
+          description,
+          notes: notes.map(note => note.text).join('\n\n'),
+          // Separators and solution headings are layout, not text worth matching
+          solution: solution.replace(/^(?:---|## (?:Previous )?Solution\b.*)$/gm, ''),
+        };
+      });
+
+      const hits: SearchHit[] = rankDocuments(documents, parsed).map(({ index, score, snippets }) => ({
+        issue: entries[index].item,
+        score,
+        snippets,
+      }));
+
+      return {
+        success: true,
+        total: hits.length,
+        hits: options.limit !== undefined ? hits.slice(0, options.limit) : hits,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to search issues: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Read the list entry, frontmatter and body of every issue in the given statuses
+   * Files that cannot be parsed still get an entry built from their filename
+   * @param statuses - Issue statuses in scan order
+   * @returns Entries in scan order
+   */
+  private async readIssueEntries(statuses: string[]): Promise<FilterEntry[]> {
+    const entries: FilterEntry[] = [];
+
+    const collectFromDir = async (dir: string, status: string): Promise<void> => {
+      const archived = this.isArchived(status);
+      try {
+        const files = await fs.readdir(dir);
+        for (const file of files) {
+          if (!(archived ? isArchivedIssueFile(file) : isIssueFile(file))) {
+            continue;
+          }
+          const number = extractIssueNumber(file);
+          if (number === null && !archived) {
+            continue;
+          }
+
+          const title = extractIssueTitle(file, archived);
+          let index = number ?? -1;
+          let id: string | undefined;
+          let type: IssueListItem['type'] = 'unknown';
+          let fields: IssueFields = {};
+          let sessions: WorkSession[] = [];
+          let blocks: string[] = [];
+          let blockedBy: string[] = [];
+          let checklist: ChecklistProgress | undefined;
+          let metadata: Record<string, unknown> = {};
+          let body = '';
+
+          try {
+            const content = await fs.readFile(path.join(dir, file), 'utf-8');
+            const parsed = this.parseIssueFile(content);
+            metadata = (parsed.metadata ?? {}) as unknown as Record<string, unknown>;
+            body = parsed.body;
+            // Types dropped from the project config still show up under their old name
+            if (typeof metadata.Type === 'string' && metadata.Type.trim()) {
+              type = metadata.Type;
+            }
+            if (typeof metadata.Index === 'number' && Number.isInteger(metadata.Index)) {
+              index = metadata.Index;
+            }
+            if (parseIssueUid(metadata.ID) !== null) {
+              id = String(metadata.ID);
+            }
+            fields = parseIssueFields(metadata);
+            sessions = parseWorkSessions(metadata);
+            blocks = parseIssueLinks(metadata.Blocks);
+            blockedBy = parseIssueLinks(metadata.BlockedBy);
+            checklist = getChecklistProgress(parseChecklist(body));
+          } catch (error) {
+            // Ignore parse errors and fall back to filename-based index/type
+          }
+
+          entries.push({
+            item: {
+              title,
+              number: number ?? index,
+              index,
+              id,
+              type,
+              status,
+              ...fields,
+              ...(sessions.length > 0 ? { sessions } : {}),
+              ...(blocks.length > 0 ? { blocks } : {}),
+              ...(blockedBy.length > 0 ? { blockedBy } : {}),
+              ...(checklist ? { checklist } : {}),
+            },
+            metadata,
+            body,
+          });
+        }
+      } catch (error) {
+        // Directory doesn't exist yet
+      }
+    };
+
+    for (const { status, dir } of this.getIssueLocations(statuses)) {
+      await collectFromDir(dir, status);
+    }
+    return entries;
+  }
+
+  /**
+   * Get the directories to scan for the given statuses
+   * @param statuses - Issue statuses in search order
+   * @returns Status and directory pairs
+   */
+  private getIssueLocations(statuses: string[]): Array<{ status: string; dir: string }> {
+    return statuses.map(status => ({ status, dir: getStateDir(this.basePath, status) }));
+  }
+
+  /**
+   * Load issue file from disk
+   * @param filePath - Path to issue file
+   * @param status - Status implied by the directory the file lives in
+   * @returns IssueSearchResult
+   */
+  private async loadIssueFile(filePath: string, status: string): Promise<IssueSearchResult> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const { metadata, body, format } = this.parseIssueFile(content);
 
-      const type = validateIssueType(metadata.Type);
+      const filename = path.basename(filePath);
+      const fileNumber = extractIssueNumber(filename);
+      const number =
+        fileNumber ?? (Number.isInteger(metadata.Index) ? (metadata.Index as number) : 0);
+      const title = extractIssueTitle(filename, this.isArchived(status));
+
+      // Any type is accepted so issues survive a type being removed from the project config
+      const type = typeof metadata.Type === 'string' ? metadata.Type.trim() : '';
       if (!type) {
         return {
           found: false,
@@ -478,16 +2255,21 @@ export class FileManager {
         };
       }
 
-      const createDateStr = metadata['Create Date'];
+      const createDateStr = metadata['Create Date'] as string;
       const createDate = new Date(createDateStr);
 
       const issue: IssueFile = {
         title,
-        number: number || 0,
+        number,
+        id: parseIssueUid(metadata.ID) !== null ? String(metadata.ID) : undefined,
         type,
         content: body,
         createDate,
-        status: filePath.includes('doing') ? IssueStatus.DOING : IssueStatus.STASH,
+        status,
+        metadata: metadata as unknown as IssueMetadata,
+        filePath,
+        frontmatterFormat: format ?? undefined,
+        ...parseIssueFields(metadata),
       };
 
       return {
@@ -502,32 +2284,49 @@ export class FileManager {
     }
   }
 
+  /**
+   * Get the frontmatter of a loaded issue for rewriting, rebuilding the required fields if it had none
+   * Stamps Updated since every caller is about to change the issue
+   * @param issue - Loaded issue
+   * @returns Issue metadata
+   */
+  private getIssueMetadata(issue: IssueFile): IssueMetadata {
+    return {
+      ...issue.metadata,
+      'Create Date': issue.metadata?.['Create Date'] ?? getCurrentDate(),
+      Type: issue.type,
+      Index: issue.number,
+      Updated: getCurrentDate(),
+    };
+  }
+
   /**
    * Format issue file with frontmatter
-   * @param metadata - Issue metadata
+   * @param metadata - Issue metadata, or frontmatter as parsed when a file is rewritten with a key changed
    * @param content - Issue body content
+   * @param format - Frontmatter format the file was read with; YAML for new files and files without one
    * @returns Formatted file content
    */
-  private formatIssueFile(metadata: IssueMetadata, content: string): string {
-    const yamlStr = yaml.stringify(metadata);
-    return `---\n${yamlStr}---\n\n${content}`;
+  formatIssueFile(
+    metadata: IssueMetadata | Record<string, unknown>,
+    content: string,
+    format?: FrontmatterFormat | null
+  ): string {
+    return stringifyFrontmatter(metadata, content, format ?? 'yaml');
   }
 
   /**
    * Parse issue file
    * @param content - File content
-   * @returns Parsed metadata and body
+   * @returns Parsed metadata, body and frontmatter format, null when the file has no frontmatter
+   * @throws FrontmatterError when the frontmatter is malformed
    */
-  private parseIssueFile(content: string): { metadata: any; body: string } {
-    const match = content.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
-    if (!match) {
-      return { metadata: {}, body: content };
-    }
-
-    const metadata = yaml.parse(match[1]);
-    const body = match[2];
-
-    return { metadata, body };
+  parseIssueFile(content: string): {
+    metadata: Record<string, unknown>;
+    body: string;
+    format: FrontmatterFormat | null;
+  } {
+    return parseFrontmatter(content);
   }
 
   /**
@@ -0,0 +1,344 @@
+/**
+ * Filter Module
+ * Parses and evaluates list filters such as type:bug status:doing created:>2026-01-01 "crlf"
+ */
+
+import { IssueListItem, IssuePriority } from './types.js';
+import { normalizeDate, parseDate, parseDuration } from '../utils/date.js';
+import { validatePriority } from '../utils/validation.js';
+
+/**
+ * Error raised for a filter that cannot be parsed or names an unknown field
+ */
+export class FilterQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilterQueryError';
+  }
+}
+
+/**
+ * Comparison of a field with its values; : tests equality
+ */
+export type FilterOperator = ':' | '>' | '>=' | '<' | '<=';
+
+/**
+ * One field condition; a condition with several values matches any of them
+ */
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  values: string[];
+  negated: boolean;
+}
+
+/**
+ * Parsed filter: every condition and text term has to match
+ */
+export interface FilterQuery {
+  conditions: FilterCondition[];
+  text: string[];
+  excludedText: string[];
+}
+
+/**
+ * Issue as seen by a filter
+ */
+export interface FilterEntry {
+  item: IssueListItem;
+  metadata: Record<string, unknown>;
+  body: string;
+}
+
+/**
+ * How values of a field are compared
+ */
+type FieldKind = 'text' | 'list' | 'date' | 'number' | 'priority' | 'duration';
+
+interface FieldDefinition {
+  kind: FieldKind;
+  read: (entry: FilterEntry) => unknown;
+}
+
+/**
+ * Fields every issue has; other names are looked up in the frontmatter
+ */
+const FILTER_FIELDS: Record<string, FieldDefinition> = {
+  type: { kind: 'text', read: entry => entry.item.type },
+  status: { kind: 'text', read: entry => entry.item.status },
+  label: { kind: 'list', read: entry => entry.item.labels },
+  priority: { kind: 'priority', read: entry => entry.item.priority },
+  assignee: { kind: 'text', read: entry => entry.item.assignee },
+  created: { kind: 'date', read: entry => entry.metadata['Create Date'] },
+  updated: { kind: 'date', read: entry => entry.item.updated },
+  due: { kind: 'date', read: entry => entry.item.due },
+  estimate: { kind: 'duration', read: entry => entry.item.estimate },
+  id: { kind: 'text', read: entry => entry.item.id },
+  number: { kind: 'number', read: entry => entry.item.number },
+};
+
+/**
+ * Other names accepted for the built-in fields
+ */
+const FIELD_ALIASES: Record<string, string> = {
+  state: 'status',
+  labels: 'label',
+};
+
+const PRIORITY_ORDER: string[] = Object.values(IssuePriority);
+
+/**
+ * Value that matches any issue where the field is set
+ */
+const ANY_VALUE = '*';
+
+/**
+ * Remove the quotes around a value or text term
+ * @param value - Value as written
+ * @returns Value without surrounding quotes
+ */
+function unquote(value: string): string {
+  return value.startsWith('"') ? value.slice(1, value.endsWith('"') && value.length > 1 ? -1 : undefined) : value;
+}
+
+/**
+ * Check a condition's values against the kind of its field
+ * @param condition - Condition on a built-in field
+ * @param kind - Field kind
+ * @throws FilterQueryError naming the field and the bad value
+ */
+function validateCondition(condition: FilterCondition, kind: FieldKind): void {
+  const { field, operator, values } = condition;
+  if (operator !== ':' && (kind === 'text' || kind === 'list')) {
+    throw new FilterQueryError(`${field} cannot be compared with ${operator}; use ${field}:value`);
+  }
+  if (operator !== ':' && values.length > 1) {
+    throw new FilterQueryError(`${field}:${operator} takes a single value`);
+  }
+
+  for (const value of values) {
+    if (value === ANY_VALUE) {
+      continue;
+    }
+    if (kind === 'date' && !parseDate(value)) {
+      throw new FilterQueryError(`${field}: "${value}" is not a date in YYYY-MM-DD format`);
+    }
+    if (kind === 'number' && !/^\d+$/.test(value)) {
+      throw new FilterQueryError(`${field}: "${value}" is not a whole number`);
+    }
+    if (kind === 'priority' && !validatePriority(value)) {
+      throw new FilterQueryError(`${field}: "${value}" is not a priority (${PRIORITY_ORDER.join(', ')})`);
+    }
+    if (kind === 'duration' && parseDuration(value) === null) {
+      throw new FilterQueryError(`${field}: "${value}" is not a duration such as 30m, 2h or 1d`);
+    }
+  }
+}
+
+/**
+ * Parse a filter expression
+ * field:value tests a field, field:a,b matches either value, field:>value compares and a
+ * leading - negates; other words and "quoted phrases" have to appear in the title or body
+ * @param query - Filter as typed
+ * @returns Parsed filter
+ * @throws FilterQueryError for empty or malformed values of built-in fields
+ */
+export function parseFilterQuery(query: string): FilterQuery {
+  const parsed: FilterQuery = { conditions: [], text: [], excludedText: [] };
+
+  for (const match of query.matchAll(/(-?)(?:([A-Za-z][\w-]*):)?("[^"]*"?|\S+)?/g)) {
+    const [token, dash, name, rest = ''] = match;
+    if (!token) {
+      continue;
+    }
+    const negated = dash === '-';
+
+    if (!name) {
+      const text = unquote(rest).replace(/\s+/g, ' ').trim().toLowerCase();
+      if (text) {
+        (negated ? parsed.excludedText : parsed.text).push(text);
+      }
+      continue;
+    }
+
+    const field = FIELD_ALIASES[name.toLowerCase()] ?? name.toLowerCase();
+    const operator = (rest.match(/^(>=|<=|>|<)/)?.[1] ?? ':') as FilterOperator;
+    const values = unquote(rest.slice(operator === ':' ? 0 : operator.length))
+      .split(',')
+      .map(value => value.trim())
+      .filter(value => value.length > 0);
+    if (values.length === 0) {
+      throw new FilterQueryError(`Filter "${token.trim()}" needs a value, such as ${field}:value`);
+    }
+
+    const condition: FilterCondition = { field, operator, values, negated };
+    if (FILTER_FIELDS[field]) {
+      validateCondition(condition, FILTER_FIELDS[field].kind);
+    }
+    parsed.conditions.push(condition);
+  }
+
+  return parsed;
+}
+
+/**
+ * Check whether a filter asks for issues in particular states, archived ones included
+ * @param query - Parsed filter
+ * @returns true when there is a status condition that is not negated
+ */
+export function hasStatusCondition(query: FilterQuery): boolean {
+  return query.conditions.some(condition => condition.field === 'status' && !condition.negated);
+}
+
+/**
+ * Edit distance between two names, for suggesting the field that was meant
+ * @param a - First name
+ * @param b - Second name
+ * @returns Number of single-character edits
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Check the fields and statuses a filter names against the project
+ * @param query - Parsed filter
+ * @param context - Workflow states and the frontmatter keys found in the scanned issues
+ * @throws FilterQueryError for an unknown field or status, suggesting the closest match
+ */
+export function checkFilterQuery(
+  query: FilterQuery,
+  context: { statuses: string[]; frontmatterKeys: Iterable<string> }
+): void {
+  const custom = new Set([...context.frontmatterKeys].map(key => key.toLowerCase()));
+
+  for (const condition of query.conditions) {
+    if (!FILTER_FIELDS[condition.field] && !custom.has(condition.field)) {
+      const known = [...Object.keys(FILTER_FIELDS), ...Object.keys(FIELD_ALIASES)];
+      const closest = known
+        .map(name => ({ name: FIELD_ALIASES[name] ?? name, distance: editDistance(condition.field, name) }))
+        .sort((a, b) => a.distance - b.distance)[0];
+      const hint =
+        closest.distance <= 2
+          ? `Did you mean "${closest.name}"?`
+          : `Use one of ${Object.keys(FILTER_FIELDS).join(', ')} or a frontmatter key`;
+      throw new FilterQueryError(`Unknown filter field "${condition.field}". ${hint}`);
+    }
+
+    if (condition.field === 'status') {
+      const unknown = condition.values.find(
+        value => value !== ANY_VALUE && !context.statuses.includes(value.toLowerCase())
+      );
+      if (unknown) {
+        throw new FilterQueryError(`Unknown status "${unknown}". Statuses: ${context.statuses.join(', ')}`);
+      }
+    }
+  }
+}
+
+/**
+ * Read a field of an issue, built-in or from the frontmatter
+ * @param entry - Issue
+ * @param field - Field name, lowercase
+ * @returns Field value, or undefined when the issue does not set it
+ */
+function readField(entry: FilterEntry, field: string): unknown {
+  if (FILTER_FIELDS[field]) {
+    return FILTER_FIELDS[field].read(entry);
+  }
+  const key = Object.keys(entry.metadata).find(name => name.toLowerCase() === field);
+  return key !== undefined ? entry.metadata[key] : undefined;
+}
+
+/**
+ * Turn a field value into something comparable
+ * @param value - Field value or filter value
+ * @param kind - Field kind, or undefined for frontmatter keys
+ * @returns Number or lowercase text, or null when the value does not fit the kind
+ */
+function toComparable(value: unknown, kind: FieldKind | undefined): string | number | null {
+  switch (kind) {
+    case 'date':
+      return normalizeDate(value);
+    case 'number':
+      return typeof value === 'number' ? value : /^\d+$/.test(String(value)) ? Number(value) : null;
+    case 'priority': {
+      const index = PRIORITY_ORDER.indexOf(String(value).toLowerCase());
+      return index === -1 ? null : index;
+    }
+    case 'duration':
+      return parseDuration(String(value));
+    default: {
+      const text = value instanceof Date ? normalizeDate(value) ?? '' : String(value).trim();
+      return /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : text.toLowerCase();
+    }
+  }
+}
+
+/**
+ * Test one condition against an issue, ignoring negation
+ * @param entry - Issue
+ * @param condition - Condition to test
+ * @returns true when the field matches
+ */
+function matchesCondition(entry: FilterEntry, condition: FilterCondition): boolean {
+  const kind = FILTER_FIELDS[condition.field]?.kind;
+  const raw = readField(entry, condition.field);
+  const present = (Array.isArray(raw) ? raw : raw === undefined || raw === null || raw === '' ? [] : [raw]).map(
+    value => toComparable(value, kind)
+  );
+  if (present.length === 0) {
+    return false;
+  }
+
+  return condition.values.some(value => {
+    if (value === ANY_VALUE) {
+      return true;
+    }
+    const wanted = toComparable(value, kind);
+    return present.some(actual => {
+      if (actual === null || wanted === null || typeof actual !== typeof wanted) {
+        return false;
+      }
+      switch (condition.operator) {
+        case '>':
+          return actual > wanted;
+        case '>=':
+          return actual >= wanted;
+        case '<':
+          return actual < wanted;
+        case '<=':
+          return actual <= wanted;
+        default:
+          return actual === wanted;
+      }
+    });
+  });
+}
+
+/**
+ * Test an issue against a filter
+ * @param entry - Issue with its frontmatter and body
+ * @param query - Parsed filter
+ * @returns true when every condition and text term matches
+ */
+export function matchesFilter(entry: FilterEntry, query: FilterQuery): boolean {
+  const haystack = `${entry.item.title}\n${entry.body}`.replace(/\s+/g, ' ').toLowerCase();
+  return (
+    query.conditions.every(condition => matchesCondition(entry, condition) !== condition.negated) &&
+    query.text.every(text => haystack.includes(text)) &&
+    !query.excludedText.some(text => haystack.includes(text))
+  );
+}
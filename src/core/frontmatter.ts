@@ -0,0 +1,186 @@
+/**
+ * Frontmatter Module
+ * Splits issue files into metadata and body, accepting the variants editors produce:
+ * CRLF line endings, a UTF-8 byte order mark, a closing fence at the end of the file
+ * and TOML frontmatter between +++ fences. Rewrites keep the fence they were given and use LF line endings.
+ */
+
+import * as yaml from 'yaml';
+import { TomlDate, TomlError, parse as parseTomlDocument, stringify as stringifyToml } from 'smol-toml';
+
+export type FrontmatterFormat = 'yaml' | 'toml';
+
+/**
+ * Issue file split into frontmatter and body
+ */
+export interface ParsedFrontmatter {
+  metadata: Record<string, unknown>;
+  body: string;
+  format: FrontmatterFormat | null;
+}
+
+/**
+ * Error raised for frontmatter that cannot be parsed
+ * Line numbers count from 1 at the top of the file
+ */
+export class FrontmatterError extends Error {
+  readonly line: number;
+
+  constructor(line: number, message: string) {
+    super(`line ${line}: ${message}`);
+    this.name = 'FrontmatterError';
+    this.line = line;
+  }
+}
+
+const FENCES: Record<string, FrontmatterFormat> = {
+  '---': 'yaml',
+  '+++': 'toml',
+};
+
+/**
+ * Remove the byte order mark and convert line endings to LF
+ * @param content - Raw file content
+ * @returns Normalized content
+ */
+function normalizeContent(content: string): string {
+  return content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Get the format of the frontmatter fence opening the content
+ * @param lines - Normalized content split into lines
+ * @returns Format or null when the first line is not a fence
+ */
+function openingFence(lines: string[]): FrontmatterFormat | null {
+  return FENCES[lines[0].trimEnd()] ?? null;
+}
+
+/**
+ * Check whether file content starts with a frontmatter fence
+ * @param content - Raw file content
+ * @returns true if the content opens with --- or +++
+ */
+export function hasFrontmatter(content: string): boolean {
+  return openingFence(normalizeContent(content).split('\n')) !== null;
+}
+
+/**
+ * Split file content into frontmatter metadata and body
+ * @param content - Raw file content
+ * @returns Metadata, body and frontmatter format; empty metadata and a null format when there is none
+ * @throws FrontmatterError with the file line of the problem
+ */
+export function parseFrontmatter(content: string): ParsedFrontmatter {
+  const normalized = normalizeContent(content);
+  const lines = normalized.split('\n');
+  const format = openingFence(lines);
+  if (!format) {
+    return { metadata: {}, body: normalized, format: null };
+  }
+
+  const fence = lines[0].trimEnd();
+  const close = lines.findIndex((line, index) => index > 0 && line.trimEnd() === fence);
+  if (close === -1) {
+    throw new FrontmatterError(1, `frontmatter opened with ${fence} is never closed`);
+  }
+
+  const source = lines.slice(1, close).join('\n');
+  const metadata = format === 'yaml' ? parseYaml(source) : parseToml(source);
+  if (metadata === null || metadata === undefined) {
+    return { metadata: {}, body: readBody(lines, close), format };
+  }
+  if (typeof metadata !== 'object' || Array.isArray(metadata)) {
+    throw new FrontmatterError(2, 'frontmatter must be a mapping of keys to values');
+  }
+
+  return { metadata: metadata as Record<string, unknown>, body: readBody(lines, close), format };
+}
+
+/**
+ * Get the body after the closing fence
+ * @param lines - Normalized content split into lines
+ * @param close - Line index of the closing fence
+ * @returns Body without the blank line that separates it from the frontmatter
+ */
+function readBody(lines: string[], close: number): string {
+  const rest = lines.slice(close + 1);
+  if (rest.length > 0 && rest[0] === '') {
+    rest.shift();
+  }
+  return rest.join('\n');
+}
+
+/**
+ * Format metadata and body as an issue file
+ * Every key is written back, including ones issue-make does not know about
+ * @param metadata - Frontmatter metadata
+ * @param body - Issue body
+ * @param format - Frontmatter format; YAML unless the file was read with TOML frontmatter
+ * @returns File content
+ */
+export function stringifyFrontmatter(
+  metadata: object,
+  body: string,
+  format: FrontmatterFormat = 'yaml'
+): string {
+  if (format === 'toml') {
+    return `+++\n${stringifyToml(metadata).replace(/\n*$/, '\n')}+++\n\n${body}`;
+  }
+  return `---\n${yaml.stringify(metadata)}---\n\n${body}`;
+}
+
+/**
+ * Parse YAML frontmatter
+ * @param source - Text between the fences
+ * @returns Parsed value
+ * @throws FrontmatterError with the file line of the problem
+ */
+function parseYaml(source: string): unknown {
+  try {
+    return yaml.parse(source);
+  } catch (error) {
+    const line = (error as { linePos?: Array<{ line: number }> }).linePos?.[0]?.line ?? 1;
+    const message = error instanceof Error ? error.message : String(error);
+    // Drop the position and code excerpt yaml appends; the line is reported separately
+    throw new FrontmatterError(line + 1, message.replace(/ at line \d+, column \d+:[\s\S]*$/, ''));
+  }
+}
+
+/**
+ * Parse TOML frontmatter
+ * Dates and times are turned into ISO 8601 strings, the form YAML frontmatter keeps them in
+ * @param source - Text between the fences
+ * @returns Parsed table
+ * @throws FrontmatterError with the file line of the problem
+ */
+function parseToml(source: string): Record<string, unknown> {
+  try {
+    return withDateStrings(parseTomlDocument(source)) as Record<string, unknown>;
+  } catch (error) {
+    if (!(error instanceof TomlError)) {
+      throw error;
+    }
+    // Frontmatter starts on the second line of the file; keep only the message, not the excerpt
+    const message = error.message.split('\n')[0].replace(/^Invalid TOML document: /, '');
+    throw new FrontmatterError(error.line + 1, message);
+  }
+}
+
+/**
+ * Replace the TOML dates in a parsed value with their ISO 8601 text
+ * @param value - Parsed TOML value
+ * @returns Value with every date as a string
+ */
+function withDateStrings(value: unknown): unknown {
+  if (value instanceof TomlDate) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(withDateStrings);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, withDateStrings(item)]));
+  }
+  return value;
+}
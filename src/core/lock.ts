@@ -0,0 +1,96 @@
+/**
+ * Lock Module
+ * Serializes mutations of the .issues tree across processes
+ */
+
+import * as fs from 'fs/promises';
+import { getIssuesDir, getLockPath } from '../utils/path.js';
+
+/**
+ * Locks older than this are considered left behind by a crashed process
+ */
+const STALE_LOCK_MS = 30_000;
+const RETRY_DELAY_MS = 50;
+const DEFAULT_TIMEOUT_MS = 5_000;
+
+/**
+ * IssueLock class for cross-process locking of an issues directory
+ * Uses mkdir, which is atomic on every platform Node supports
+ */
+export class IssueLock {
+  private lockPath: string;
+  private issuesDir: string;
+
+  constructor(basePath: string) {
+    this.issuesDir = getIssuesDir(basePath);
+    this.lockPath = getLockPath(basePath);
+  }
+
+  /**
+   * Acquire the lock, waiting for other processes to release it
+   * @param timeoutMs - Maximum time to wait
+   * @throws Error if the lock cannot be acquired in time
+   */
+  async acquire(timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<void> {
+    await fs.mkdir(this.issuesDir, { recursive: true });
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      try {
+        await fs.mkdir(this.lockPath);
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (await this.isStale()) {
+        await fs.rm(this.lockPath, { recursive: true, force: true });
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Another issue-make process is modifying issues (lock: ${this.lockPath})`
+        );
+      }
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
+    }
+  }
+
+  /**
+   * Release the lock
+   */
+  async release(): Promise<void> {
+    await fs.rm(this.lockPath, { recursive: true, force: true });
+  }
+
+  /**
+   * Run a function while holding the lock
+   * @param fn - Function to run
+   * @returns Result of the function
+   */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      await this.release();
+    }
+  }
+
+  /**
+   * Check if the current lock was left behind by a crashed process
+   * @returns true if the lock is older than the stale threshold
+   */
+  private async isStale(): Promise<boolean> {
+    try {
+      const stats = await fs.stat(this.lockPath);
+      return Date.now() - stats.mtimeMs > STALE_LOCK_MS;
+    } catch (error) {
+      // Lock disappeared between mkdir and stat, retry immediately
+      return true;
+    }
+  }
+}
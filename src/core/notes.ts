@@ -0,0 +1,127 @@
+/**
+ * Notes Module
+ * Reads and appends the timestamped notes kept in a Notes section of the issue body
+ */
+
+import { IssueNote } from './types.js';
+
+/**
+ * Heading of the section that holds the notes
+ */
+const NOTES_HEADING = '## Notes';
+
+/**
+ * Heading of one note: ### <ISO timestamp> by <actor>
+ */
+const NOTE_HEADING_PATTERN = /^### (\S+) by (.+?)\s*$/;
+
+/**
+ * Separator in front of a solution merged into the archive, current or previous
+ */
+const SOLUTION_PATTERN = /\n\n---\n\n## (?:Previous )?Solution\b/;
+
+/**
+ * Issue body split into the description, its notes and any merged solutions
+ */
+export interface IssueBodyParts {
+  description: string;
+  notes: IssueNote[];
+  solution: string;
+}
+
+/**
+ * Find where the Notes section starts
+ * @param content - Issue body without merged solutions
+ * @returns Offset of the heading line, or -1 when there is no Notes section
+ */
+export function findNotesHeading(content: string): number {
+  const match = content.match(/(^|\n)## Notes[ \t]*(\n|$)/);
+  return match ? match.index! + match[1].length : -1;
+}
+
+/**
+ * Split off the solutions the archive appends after the body
+ * @param content - Issue body
+ * @returns Body before the first solution and the solutions, separator included
+ */
+export function splitSolution(content: string): { body: string; solution: string } {
+  const match = content.match(SOLUTION_PATTERN);
+  return match
+    ? { body: content.slice(0, match.index), solution: content.slice(match.index) }
+    : { body: content, solution: '' };
+}
+
+/**
+ * Split an issue body into its description, notes and merged solutions
+ * Text written under the Notes heading before the first note stays with the description,
+ * heading included, so hand-written sections are not lost
+ * @param content - Issue body
+ * @returns Body parts; notes are in the order they were added
+ */
+export function parseIssueBody(content: string): IssueBodyParts {
+  const { body, solution } = splitSolution(content);
+  const start = findNotesHeading(body);
+  if (start === -1) {
+    return { description: body, notes: [], solution };
+  }
+
+  const section = body.slice(start).split('\n');
+  const isNoteHeading = (line: string) => {
+    const heading = line.match(NOTE_HEADING_PATTERN);
+    return heading !== null && !isNaN(Date.parse(heading[1]));
+  };
+  const firstNote = section.findIndex((line, index) => index > 0 && isNoteHeading(line));
+  const preamble = section.slice(1, firstNote === -1 ? undefined : firstNote);
+  const description = preamble.some(line => line.trim())
+    ? body.slice(0, firstNote === -1 ? body.length : start + section.slice(0, firstNote).join('\n').length + 1)
+    : body.slice(0, start);
+
+  const notes: IssueNote[] = [];
+  let current: IssueNote | null = null;
+  const lines: string[] = [];
+  const finish = () => {
+    if (current) {
+      current.text = lines.join('\n').trim();
+      notes.push(current);
+    }
+    lines.length = 0;
+  };
+
+  for (const line of firstNote === -1 ? [] : section.slice(firstNote)) {
+    const heading = line.match(NOTE_HEADING_PATTERN);
+    if (heading && isNoteHeading(line)) {
+      finish();
+      current = { at: heading[1], by: heading[2], text: '' };
+    } else {
+      lines.push(line);
+    }
+  }
+  finish();
+
+  return { description, notes, solution };
+}
+
+/**
+ * Format one note as it is stored in the body
+ * @param note - Note to format
+ * @returns Markdown for the note
+ */
+export function formatNote(note: IssueNote): string {
+  return `### ${note.at} by ${note.by}\n\n${note.text.trim()}\n`;
+}
+
+/**
+ * Append a note to the Notes section of an issue body, creating the section if needed
+ * Notes stay in front of merged solutions so the description and its notes read together
+ * @param content - Issue body
+ * @param note - Note to append
+ * @returns Updated body
+ */
+export function appendNote(content: string, note: IssueNote): string {
+  const { body, solution } = splitSolution(content);
+  const section = findNotesHeading(body) === -1 ? `${NOTES_HEADING}\n\n` : '';
+  const trimmed = body.trimEnd();
+  const before = trimmed.length > 0 ? `${trimmed}\n\n` : '';
+  const updated = `${before}${section}${formatNote(note)}`;
+  return solution ? `${updated.trimEnd()}${solution}` : updated;
+}
@@ -0,0 +1,479 @@
+/**
+ * Project Configuration Module
+ * Loads per-project settings from .issues/config.yaml
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { IssueStatus, IssueType, IssueTypeDefinition, WorkflowState } from './types.js';
+
+const CONFIG_FILE = 'config.yaml';
+
+/**
+ * Colour names Ink understands, besides #rrggbb hex values
+ */
+const TYPE_COLORS = [
+  'black',
+  'red',
+  'green',
+  'yellow',
+  'blue',
+  'magenta',
+  'cyan',
+  'white',
+  'gray',
+  'grey',
+  'redBright',
+  'greenBright',
+  'yellowBright',
+  'blueBright',
+  'magentaBright',
+  'cyanBright',
+  'whiteBright',
+];
+
+/**
+ * Settings for how issue filenames are built from titles
+ */
+export interface FilenameScheme {
+  maxTitleLength: number;
+  wordSeparator: string;
+}
+
+/**
+ * Per-project configuration
+ */
+export interface ProjectConfig {
+  directories: {
+    stash: string;
+    doing: string;
+    achieved: string;
+  };
+  agentsFile: string;
+  filenames: FilenameScheme;
+  types: IssueTypeDefinition[];
+  workflow: {
+    // Active states first, then terminal ones
+    states: WorkflowState[];
+    // Allowed target states keyed by source state
+    transitions: Record<string, string[]>;
+  };
+  defaults: {
+    type: string;
+  };
+  checklist: {
+    // Refuse to close issues while required checklist items are unchecked
+    requireComplete: boolean;
+  };
+}
+
+const BUILT_IN_STATES: WorkflowState[] = [
+  { name: IssueStatus.STASH, directory: 'stash', terminal: false, description: 'Not started' },
+  { name: IssueStatus.DOING, directory: 'doing', terminal: false, description: 'In progress' },
+  { name: IssueStatus.ACHIEVED, directory: 'achieved', terminal: true, description: 'Done' },
+];
+
+/**
+ * Names under .issues that issue-make uses itself, so no state may take them as its directory
+ * Files starting with a dot (.lock, .journal.json, .id-counter) are already ruled out
+ */
+const RESERVED_DIRECTORY_PATTERN = /^(templates|attachments|config\.ya?ml|solution(\.\d+)?\.md)$/i;
+
+/**
+ * Allow every move between different states
+ * @param states - Workflow states
+ * @returns Transitions map
+ */
+function allTransitions(states: WorkflowState[]): Record<string, string[]> {
+  return Object.fromEntries(
+    states.map(state => [
+      state.name,
+      states.filter(other => other.name !== state.name).map(other => other.name),
+    ])
+  );
+}
+
+export const DEFAULT_PROJECT_CONFIG: ProjectConfig = {
+  directories: {
+    stash: 'stash',
+    doing: 'doing',
+    achieved: 'achieved',
+  },
+  agentsFile: 'AGENTS.md',
+  filenames: {
+    maxTitleLength: 80,
+    wordSeparator: '-',
+  },
+  types: [
+    { name: IssueType.FEAT, color: 'green', description: 'New feature' },
+    { name: IssueType.TODO, color: 'green', description: 'Task to do' },
+    { name: IssueType.BUG, color: 'green', description: 'Bug report' },
+    { name: IssueType.REFACT, color: 'green', description: 'Refactoring' },
+  ],
+  workflow: {
+    states: BUILT_IN_STATES,
+    transitions: allTransitions(BUILT_IN_STATES),
+  },
+  defaults: {
+    type: IssueType.FEAT,
+  },
+  checklist: {
+    requireComplete: false,
+  },
+};
+
+/**
+ * Error raised for an invalid project configuration
+ */
+export class ProjectConfigError extends Error {
+  readonly filePath: string;
+  readonly key?: string;
+
+  constructor(filePath: string, message: string, key?: string) {
+    super(`${filePath}: ${key ? `${key}: ` : ''}${message}`);
+    this.name = 'ProjectConfigError';
+    this.filePath = filePath;
+    this.key = key;
+  }
+}
+
+const cache = new Map<string, { mtimeMs: number; config: ProjectConfig }>();
+
+/**
+ * Get the project configuration file path
+ * @param basePath - Base project path
+ * @returns Path to .issues/config.yaml
+ */
+export function getProjectConfigPath(basePath: string): string {
+  return path.join(basePath, '.issues', CONFIG_FILE);
+}
+
+/**
+ * Load the project configuration, falling back to defaults when there is no config file
+ * Reads synchronously so path helpers can consult it; results are cached until the file changes
+ * @param basePath - Base project path
+ * @returns Project configuration with defaults filled in
+ * @throws ProjectConfigError if the file cannot be parsed or a key is invalid
+ */
+export function loadProjectConfig(basePath: string): ProjectConfig {
+  const configPath = getProjectConfigPath(basePath);
+  const stats = fs.statSync(configPath, { throwIfNoEntry: false });
+  if (!stats) {
+    cache.delete(configPath);
+    return DEFAULT_PROJECT_CONFIG;
+  }
+
+  const cached = cache.get(configPath);
+  if (cached && cached.mtimeMs === stats.mtimeMs) {
+    return cached.config;
+  }
+
+  const document = yaml.parseDocument(fs.readFileSync(configPath, 'utf-8'));
+  if (document.errors.length > 0) {
+    throw new ProjectConfigError(configPath, document.errors[0].message);
+  }
+
+  const config = validateProjectConfig(document.toJS() ?? {}, configPath);
+  cache.set(configPath, { mtimeMs: stats.mtimeMs, config });
+  return config;
+}
+
+/**
+ * Validate raw configuration and merge it with the defaults
+ * @param raw - Parsed YAML content
+ * @param configPath - Config file path used in error messages
+ * @returns Validated configuration
+ * @throws ProjectConfigError naming the offending key
+ */
+export function validateProjectConfig(raw: unknown, configPath: string): ProjectConfig {
+  const fail = (key: string, message: string): never => {
+    throw new ProjectConfigError(configPath, message, key);
+  };
+
+  const section = (value: unknown, key: string, allowed: string[]): Record<string, unknown> => {
+    if (value === undefined || value === null) {
+      return {};
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      return fail(key, 'must be a mapping');
+    }
+    for (const name of Object.keys(value)) {
+      if (!allowed.includes(name)) {
+        fail(key ? `${key}.${name}` : name, `unknown key (expected one of: ${allowed.join(', ')})`);
+      }
+    }
+    return value as Record<string, unknown>;
+  };
+
+  const root = section(raw, '', [
+    'directories',
+    'agentsFile',
+    'filenames',
+    'types',
+    'workflow',
+    'defaults',
+    'checklist',
+  ]);
+  const defaults = DEFAULT_PROJECT_CONFIG;
+
+  const directories = section(root.directories, 'directories', ['stash', 'doing', 'achieved']);
+  const directoryName = (value: unknown, key: string): string => {
+    if (typeof value !== 'string' || !/^[^/\\.][^/\\]*$/.test(value.trim())) {
+      fail(key, 'must be a plain directory name (no slashes, not starting with a dot)');
+    }
+    const name = (value as string).trim();
+    if (RESERVED_DIRECTORY_PATTERN.test(name)) {
+      fail(key, `"${name}" is reserved for issue-make's own files under .issues`);
+    }
+    return name;
+  };
+  const resolvedDirectories = {
+    stash: directoryName(directories.stash ?? defaults.directories.stash, 'directories.stash'),
+    doing: directoryName(directories.doing ?? defaults.directories.doing, 'directories.doing'),
+    achieved: directoryName(
+      directories.achieved ?? defaults.directories.achieved,
+      'directories.achieved'
+    ),
+  };
+  const names = Object.values(resolvedDirectories).map(name => name.toLowerCase());
+  if (new Set(names).size !== names.length) {
+    fail('directories', 'stash, doing and achieved must use different directory names');
+  }
+
+  const agentsFile = root.agentsFile ?? defaults.agentsFile;
+  if (
+    typeof agentsFile !== 'string' ||
+    agentsFile.trim().length === 0 ||
+    path.isAbsolute(agentsFile) ||
+    agentsFile.split(/[/\\]/).includes('..')
+  ) {
+    fail('agentsFile', 'must be a file path inside the project');
+  }
+
+  const filenames = section(root.filenames, 'filenames', ['maxTitleLength', 'wordSeparator']);
+  const maxTitleLength = filenames.maxTitleLength ?? defaults.filenames.maxTitleLength;
+  if (
+    !Number.isInteger(maxTitleLength) ||
+    (maxTitleLength as number) < 10 ||
+    (maxTitleLength as number) > 200
+  ) {
+    fail('filenames.maxTitleLength', 'must be a whole number between 10 and 200');
+  }
+  const wordSeparator = filenames.wordSeparator ?? defaults.filenames.wordSeparator;
+  if (wordSeparator !== '-' && wordSeparator !== '_') {
+    fail('filenames.wordSeparator', 'must be "-" or "_"');
+  }
+
+  // A types section replaces the built-in list so teams can drop types they do not use
+  let types = defaults.types;
+  if (root.types !== undefined && root.types !== null) {
+    const typeSection = section(root.types, 'types', Object.keys(root.types as object));
+    types = Object.entries(typeSection).map(([name, value]) => {
+      const key = `types.${name}`;
+      if (!/^[a-z][a-z0-9_]*$/.test(name)) {
+        fail(key, 'type names must be lowercase letters, digits or underscores');
+      }
+      const definition = section(value, key, ['color', 'description', 'template']);
+      const color = definition.color ?? 'white';
+      const knownColor = typeof color === 'string' && TYPE_COLORS.includes(color);
+      if (!knownColor && !(typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color))) {
+        fail(`${key}.color`, `must be #rrggbb or one of: ${TYPE_COLORS.join(', ')}`);
+      }
+      const description = definition.description ?? name;
+      if (typeof description !== 'string') {
+        fail(`${key}.description`, 'must be a string');
+      }
+      const template = definition.template;
+      if (template !== undefined && typeof template !== 'string') {
+        fail(`${key}.template`, 'must be a string');
+      }
+      return {
+        name,
+        color: color as string,
+        description: description as string,
+        ...(template !== undefined ? { template: template as string } : {}),
+      };
+    });
+    if (types.length === 0) {
+      fail('types', 'must define at least one issue type');
+    }
+  }
+  const typeNames = types.map(definition => definition.name);
+
+  // Built-in states keep their directories section; custom states live in their own directory
+  const workflow = section(root.workflow, 'workflow', ['states', 'transitions']);
+  const builtInStates = BUILT_IN_STATES.map(state => ({
+    ...state,
+    directory: resolvedDirectories[state.name as keyof ProjectConfig['directories']],
+  }));
+  const customStates: WorkflowState[] = [];
+  const stateSection = section(
+    workflow.states,
+    'workflow.states',
+    Object.keys((workflow.states as object) ?? {})
+  );
+  for (const [name, value] of Object.entries(stateSection)) {
+    const key = `workflow.states.${name}`;
+    const builtIn = builtInStates.find(state => state.name === name);
+    if (builtIn) {
+      const definition = section(value, key, ['description']);
+      if (definition.description !== undefined && typeof definition.description !== 'string') {
+        fail(`${key}.description`, 'must be a string');
+      }
+      builtIn.description = (definition.description as string | undefined) ?? builtIn.description;
+      continue;
+    }
+    if (!/^[a-z][a-z0-9_-]*$/.test(name)) {
+      fail(key, 'state names must be lowercase letters, digits, hyphens or underscores');
+    }
+    const definition = section(value, key, ['directory', 'terminal', 'description']);
+    const terminal = definition.terminal ?? false;
+    if (typeof terminal !== 'boolean') {
+      fail(`${key}.terminal`, 'must be true or false');
+    }
+    const description = definition.description ?? name;
+    if (typeof description !== 'string') {
+      fail(`${key}.description`, 'must be a string');
+    }
+    customStates.push({
+      name,
+      directory: directoryName(definition.directory ?? name, `${key}.directory`),
+      terminal: terminal as boolean,
+      description: description as string,
+    });
+  }
+  const allStates = [...builtInStates, ...customStates];
+  const states = [
+    ...allStates.filter(state => !state.terminal),
+    ...allStates.filter(state => state.terminal),
+  ];
+  const stateDirectories = states.map(state => state.directory.toLowerCase());
+  if (new Set(stateDirectories).size !== stateDirectories.length) {
+    fail('workflow.states', 'every state must use a different directory');
+  }
+  const stateNames = states.map(state => state.name);
+
+  // Without a transitions section any move is allowed; with one, unlisted states have no way out
+  let transitions = allTransitions(states);
+  if (workflow.transitions !== undefined && workflow.transitions !== null) {
+    const transitionSection = section(workflow.transitions, 'workflow.transitions', stateNames);
+    transitions = Object.fromEntries(stateNames.map(name => [name, [] as string[]]));
+    for (const [from, targets] of Object.entries(transitionSection)) {
+      const key = `workflow.transitions.${from}`;
+      const list = targets === null ? [] : targets;
+      if (!Array.isArray(list)) {
+        fail(key, 'must be a list of states');
+      }
+      for (const to of list as unknown[]) {
+        if (typeof to !== 'string' || !stateNames.includes(to)) {
+          fail(key, `unknown state "${String(to)}" (expected one of: ${stateNames.join(', ')})`);
+        }
+        if (to === from) {
+          fail(key, 'a state cannot transition to itself');
+        }
+      }
+      transitions[from] = [...new Set(list as string[])];
+    }
+  }
+
+  const defaultsSection = section(root.defaults, 'defaults', ['type']);
+  const fallbackType = typeNames.includes(defaults.defaults.type)
+    ? defaults.defaults.type
+    : typeNames[0];
+  const type = defaultsSection.type ?? fallbackType;
+  if (typeof type !== 'string' || !typeNames.includes(type)) {
+    fail('defaults.type', `must be one of: ${typeNames.join(', ')}`);
+  }
+
+  const checklist = section(root.checklist, 'checklist', ['requireComplete']);
+  const requireComplete = checklist.requireComplete ?? defaults.checklist.requireComplete;
+  if (typeof requireComplete !== 'boolean') {
+    fail('checklist.requireComplete', 'must be true or false');
+  }
+
+  return {
+    directories: resolvedDirectories,
+    agentsFile: (agentsFile as string).trim(),
+    filenames: {
+      maxTitleLength: maxTitleLength as number,
+      wordSeparator: wordSeparator as string,
+    },
+    types,
+    workflow: {
+      states,
+      transitions,
+    },
+    defaults: {
+      type: type as string,
+    },
+    checklist: {
+      requireComplete: requireComplete as boolean,
+    },
+  };
+}
+
+/**
+ * Get the names of the configured issue types
+ * @param config - Project configuration
+ * @returns Type names in configured order
+ */
+export function getIssueTypeNames(config: ProjectConfig): string[] {
+  return config.types.map(definition => definition.name);
+}
+
+/**
+ * Find a configured issue type
+ * @param config - Project configuration
+ * @param name - Type name
+ * @returns Type definition or undefined when the type is not configured
+ */
+export function findIssueType(
+  config: ProjectConfig,
+  name: string
+): IssueTypeDefinition | undefined {
+  return config.types.find(definition => definition.name === name);
+}
+
+/**
+ * Get the names of the workflow states
+ * @param config - Project configuration
+ * @returns State names, active states first
+ */
+export function getWorkflowStateNames(config: ProjectConfig): string[] {
+  return config.workflow.states.map(state => state.name);
+}
+
+/**
+ * Find a workflow state
+ * @param config - Project configuration
+ * @param name - State name
+ * @returns State definition or undefined when the state is not configured
+ */
+export function findWorkflowState(
+  config: ProjectConfig,
+  name: string
+): WorkflowState | undefined {
+  return config.workflow.states.find(state => state.name === name);
+}
+
+/**
+ * Check whether issues in a state are archived
+ * @param config - Project configuration
+ * @param name - State name
+ * @returns true for terminal states
+ */
+export function isTerminalState(config: ProjectConfig, name: string): boolean {
+  return findWorkflowState(config, name)?.terminal ?? false;
+}
+
+/**
+ * Check whether the workflow allows moving an issue between two states
+ * @param config - Project configuration
+ * @param from - Current state
+ * @param to - Target state
+ * @returns true if the transition is allowed
+ */
+export function isTransitionAllowed(config: ProjectConfig, from: string, to: string): boolean {
+  return (config.workflow.transitions[from] ?? []).includes(to);
+}
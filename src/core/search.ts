@@ -0,0 +1,281 @@
+/**
+ * Search Module
+ * Parses search queries and ranks issues with BM25 over their titles, descriptions, notes and solutions
+ */
+
+import chalk from 'chalk';
+import { SearchField, SearchHit, SearchSnippet } from './types.js';
+
+/**
+ * Parsed search query
+ * Phrases are token sequences that have to appear in one field, in order
+ */
+export interface SearchQuery {
+  terms: string[];
+  phrases: string[][];
+  excludedTerms: string[];
+  excludedPhrases: string[][];
+}
+
+/**
+ * Text of each searchable field of one issue
+ */
+export type SearchDocument = Record<SearchField, string>;
+
+/**
+ * Ranked match of one document
+ */
+export interface SearchRanking {
+  index: number;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+/**
+ * Words are runs of letters and digits in any script
+ */
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * A term in the title counts as much as three in the body
+ */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  description: 1,
+  notes: 1,
+  solution: 1,
+};
+
+/**
+ * Fields that get a snippet; the title is always shown in full
+ */
+const SNIPPET_FIELDS: SearchField[] = ['description', 'notes', 'solution'];
+
+/**
+ * BM25 term frequency saturation and length normalisation
+ */
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Characters of context kept before and after the first match, within its line
+ */
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 100;
+
+/**
+ * Split text into lowercase words
+ * @param text - Text to split
+ * @returns Words in order
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(TOKEN_PATTERN) ?? []) as string[];
+}
+
+/**
+ * Parse a search query
+ * Words are terms, "quoted text" is a phrase and a leading - excludes a term or phrase;
+ * a word that splits into several tokens, such as file-manager, is searched as a phrase
+ * @param query - Query as typed
+ * @returns Parsed query
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const parsed: SearchQuery = { terms: [], phrases: [], excludedTerms: [], excludedPhrases: [] };
+
+  for (const match of query.matchAll(/(-?)"([^"]*)"?|(-?)(\S+)/g)) {
+    const excluded = (match[1] ?? match[3]) === '-';
+    const tokens = tokenize(match[2] ?? match[4]);
+    if (tokens.length === 1) {
+      (excluded ? parsed.excludedTerms : parsed.terms).push(tokens[0]);
+    } else if (tokens.length > 1) {
+      (excluded ? parsed.excludedPhrases : parsed.phrases).push(tokens);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Check whether a query has anything to look for
+ * @param query - Parsed query
+ * @returns true when there is at least one term or phrase that is not excluded
+ */
+export function hasSearchTerms(query: SearchQuery): boolean {
+  return query.terms.length > 0 || query.phrases.length > 0;
+}
+
+/**
+ * Get the words that score and get highlighted: the terms and the words of the phrases
+ * @param query - Parsed query
+ * @returns Distinct words
+ */
+export function getQueryTokens(query: SearchQuery): string[] {
+  return [...new Set([...query.terms, ...query.phrases.flat()])];
+}
+
+/**
+ * Check whether a phrase appears in a list of words
+ * @param tokens - Words of a field
+ * @param phrase - Words of the phrase
+ * @returns true when the phrase appears in order
+ */
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  for (let start = 0; start + phrase.length <= tokens.length; start++) {
+    if (phrase.every((word, offset) => tokens[start + offset] === word)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Cut an excerpt around a match from its line, on word boundaries and with whitespace collapsed
+ * @param text - Field text
+ * @param start - Offset of the match
+ * @param end - Offset just after the match
+ * @returns Excerpt with … where the line was cut
+ */
+function makeSnippet(text: string, start: number, end: number): string {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = text.indexOf('\n', end) === -1 ? text.length : text.indexOf('\n', end);
+  let from = Math.max(lineStart, start - SNIPPET_BEFORE);
+  let to = Math.min(lineEnd, end + SNIPPET_AFTER);
+
+  if (from > lineStart) {
+    const space = text.slice(from, start).search(/\s/);
+    from = space === -1 ? start : from + space;
+  }
+  if (to < lineEnd) {
+    const space = text.slice(end, to).search(/\s\S*$/);
+    to = space === -1 ? to : end + space;
+  }
+
+  const excerpt = text.slice(from, to).replace(/\s+/g, ' ').trim();
+  return `${from > lineStart ? '…' : ''}${excerpt}${to < lineEnd ? '…' : ''}`;
+}
+
+/**
+ * Find the first match of any query word in a field and cut a snippet around it
+ * @param field - Field name
+ * @param text - Field text
+ * @param words - Query words
+ * @returns Snippet, or null when nothing in the field matches
+ */
+function findSnippet(field: SearchField, text: string, words: Set<string>): SearchSnippet | null {
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    if (words.has(match[0].toLowerCase())) {
+      return { field, text: makeSnippet(text, match.index!, match.index! + match[0].length) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Rank documents against a query with BM25
+ * Every phrase has to match and no excluded term or phrase may; the other documents need at
+ * least one term and are ordered by score, best first
+ * @param documents - Searchable fields of each document
+ * @param query - Parsed query
+ * @returns Matching documents by their position in the input
+ */
+export function rankDocuments(documents: SearchDocument[], query: SearchQuery): SearchRanking[] {
+  const fields = Object.keys(FIELD_WEIGHTS) as SearchField[];
+  const tokenized = documents.map(document => {
+    const tokens = {} as Record<SearchField, string[]>;
+    for (const field of fields) {
+      tokens[field] = tokenize(document[field] ?? '');
+    }
+    return tokens;
+  });
+
+  const queryTokens = getQueryTokens(query);
+  const lengths = tokenized.map(tokens =>
+    fields.reduce((sum, field) => sum + FIELD_WEIGHTS[field] * tokens[field].length, 0)
+  );
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / (documents.length || 1) || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of tokenized) {
+    const present = new Set(fields.flatMap(field => tokens[field]));
+    for (const word of queryTokens) {
+      if (present.has(word)) {
+        documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1);
+      }
+    }
+  }
+
+  const words = new Set(queryTokens);
+  const rankings: SearchRanking[] = [];
+
+  tokenized.forEach((tokens, index) => {
+    const all = fields.map(field => tokens[field]);
+    if (
+      query.excludedTerms.some(word => all.some(list => list.includes(word))) ||
+      query.excludedPhrases.some(phrase => all.some(list => containsPhrase(list, phrase))) ||
+      !query.phrases.every(phrase => all.some(list => containsPhrase(list, phrase)))
+    ) {
+      return;
+    }
+
+    let score = 0;
+    for (const word of queryTokens) {
+      const frequency = fields.reduce(
+        (sum, field) => sum + FIELD_WEIGHTS[field] * tokens[field].filter(token => token === word).length,
+        0
+      );
+      if (frequency === 0) {
+        continue;
+      }
+      const matching = documentFrequency.get(word) ?? 0;
+      const idf = Math.log(1 + (documents.length - matching + 0.5) / (matching + 0.5));
+      score +=
+        (idf * frequency * (K1 + 1)) /
+        (frequency + K1 * (1 - B + (B * lengths[index]) / averageLength));
+    }
+    if (score <= 0) {
+      return;
+    }
+
+    const snippets = SNIPPET_FIELDS.map(field => findSnippet(field, documents[index][field] ?? '', words)).filter(
+      (snippet): snippet is SearchSnippet => snippet !== null
+    );
+    rankings.push({ index, score, snippets });
+  });
+
+  return rankings.sort((a, b) => b.score - a.score || a.index - b.index);
+}
+
+/**
+ * Highlight the query words in a piece of text
+ * @param text - Text to highlight
+ * @param query - Parsed query
+ * @param mark - Styling applied to each matching word
+ * @returns Text with matching words styled
+ */
+export function highlightMatches(
+  text: string,
+  query: SearchQuery,
+  mark: (word: string) => string = chalk.bold.yellow
+): string {
+  const words = new Set(getQueryTokens(query));
+  return text.replace(TOKEN_PATTERN, word => (words.has(word.toLowerCase()) ? mark(word) : word));
+}
+
+/**
+ * Format search hits for the terminal, one block per issue
+ * @param hits - Ranked hits
+ * @param query - Parsed query, used for highlighting
+ * @returns Lines of output
+ */
+export function formatSearchHits(hits: SearchHit[], query: SearchQuery): string {
+  return hits
+    .map(({ issue, snippets }) => {
+      const id = issue.id ? ` ${issue.id}` : '';
+      const lines = [
+        `#${issue.number}${id} ${highlightMatches(issue.title, query)} (${issue.status}, ${issue.type})`,
+        ...snippets.map(snippet => `  ${snippet.field}: ${highlightMatches(snippet.text, query)}`),
+      ];
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,107 @@
+/**
+ * Templates Module
+ * Loads the body template of an issue type and fills in its placeholders
+ */
+
+import * as fs from 'fs/promises';
+import { loadProjectConfig, findIssueType } from './project-config.js';
+import { getTemplatePath } from '../utils/path.js';
+import { getGitBranch } from '../utils/git.js';
+
+/**
+ * Templates used when neither .issues/templates nor the project config has one for the type
+ */
+export const BUILTIN_TEMPLATES: Record<string, string> = {
+  bug: [
+    '{{description}}',
+    '',
+    '## Steps to reproduce',
+    '',
+    '1.',
+    '',
+    '## Expected',
+    '',
+    '## Actual',
+    '',
+    '## Environment',
+    '',
+    '- Branch: {{git.branch}}',
+    '',
+  ].join('\n'),
+  feat: ['## Motivation', '', '{{description}}', '', '## Acceptance criteria', ''].join('\n'),
+};
+
+/**
+ * Placeholder such as {{description}} or {{ git.branch }}
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Values available to template placeholders
+ */
+export interface TemplateValues {
+  description: string;
+  title: string;
+  type: string;
+  id: string;
+  date: string;
+}
+
+/**
+ * Find the body template of an issue type
+ * .issues/templates/<type>.md wins over the type's template in config.yaml, which wins over the
+ * built-in default; an empty template file turns templating off for the type
+ * @param basePath - Base project path
+ * @param type - Issue type name
+ * @returns Template text, or undefined when the type has none
+ */
+export async function loadIssueTemplate(basePath: string, type: string): Promise<string | undefined> {
+  try {
+    const template = await fs.readFile(getTemplatePath(basePath, type), 'utf-8');
+    if (typeof template === 'string') {
+      return template.replace(/\r\n/g, '\n');
+    }
+  } catch (error) {
+    // No template file for this type
+  }
+
+  return findIssueType(loadProjectConfig(basePath), type)?.template ?? BUILTIN_TEMPLATES[type];
+}
+
+/**
+ * Fill a template with the description and issue details
+ * Without a {{description}} placeholder the description goes above the template;
+ * unknown placeholders are left as written, and lines using {{git.branch}} are dropped without a branch
+ * @param template - Template text
+ * @param values - Placeholder values
+ * @param basePath - Base project path, used for {{git.branch}}
+ * @returns Issue body
+ */
+export async function renderIssueTemplate(
+  template: string | undefined,
+  values: TemplateValues,
+  basePath: string
+): Promise<string> {
+  if (!template || !template.trim()) {
+    return values.description;
+  }
+
+  const resolved: Record<string, string> = {
+    ...values,
+    description: values.description.trim(),
+  };
+  let filled = template;
+  if (/\{\{\s*git\.branch\s*\}\}/.test(template)) {
+    resolved['git.branch'] = await getGitBranch(basePath);
+    if (!resolved['git.branch']) {
+      filled = template.replace(/^.*\{\{\s*git\.branch\s*\}\}.*(?:\n|$)/gm, '');
+    }
+  }
+
+  const body = filled.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    name in resolved ? resolved[name] : placeholder
+  );
+  return /\{\{\s*description\s*\}\}/.test(template)
+    ? body
+    : `${values.description.trimEnd()}\n\n${body.trim()}\n`;
+}
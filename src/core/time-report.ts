@@ -0,0 +1,99 @@
+/**
+ * Time Report Module
+ * Totals tracked work sessions per issue type or label
+ */
+
+import { IssueListItem, TimeReport, TimeReportRow, WorkSession } from './types.js';
+import { getDaysBetween, getMinutesBetween, parseDate } from '../utils/date.js';
+
+export const TIME_REPORT_GROUPS = ['type', 'label'];
+
+/**
+ * Get the minutes of a session that fall inside a time range
+ * @param session - Work session; a running session counts until now
+ * @param start - Start of the range, or null for no lower bound
+ * @param end - End of the range
+ * @param now - Current time
+ * @returns Minutes inside the range
+ */
+export function getSessionMinutes(
+  session: WorkSession,
+  start: Date | null,
+  end: Date,
+  now: Date = new Date()
+): number {
+  const sessionStart = new Date(session.Start);
+  const sessionEnd = session.End ? new Date(session.End) : now;
+  const from = start && start > sessionStart ? start : sessionStart;
+  const to = end < sessionEnd ? end : sessionEnd;
+  return getMinutesBetween(from, to);
+}
+
+/**
+ * Total the time tracked on issues between two dates
+ * @param issues - Issues with their work sessions, including archived ones
+ * @param options - Inclusive YYYY-MM-DD range and whether to group by type or label
+ * @param now - Current time, used for running sessions and as the default end of the range
+ * @returns TimeReport with one row per type or label; issues with several labels count for each
+ */
+export function buildTimeReport(
+  issues: IssueListItem[],
+  options: { since?: string; until?: string; by?: string } = {},
+  now: Date = new Date()
+): TimeReport {
+  const by = options.by ?? 'type';
+  if (!TIME_REPORT_GROUPS.includes(by)) {
+    return {
+      success: false,
+      error: `Invalid grouping "${by}" (expected one of: ${TIME_REPORT_GROUPS.join(', ')})`,
+    };
+  }
+
+  const since = options.since !== undefined ? parseDate(options.since) : null;
+  const until = options.until !== undefined ? parseDate(options.until) : null;
+  if (options.since !== undefined && !since) {
+    return { success: false, error: `Invalid --since date "${options.since}" (expected YYYY-MM-DD)` };
+  }
+  if (options.until !== undefined && !until) {
+    return { success: false, error: `Invalid --until date "${options.until}" (expected YYYY-MM-DD)` };
+  }
+  if (since && until && getDaysBetween(since, until) < 0) {
+    return { success: false, error: `--since ${options.since} is after --until ${options.until}` };
+  }
+
+  // The range includes the whole of the until day
+  const end = until
+    ? new Date(until.getFullYear(), until.getMonth(), until.getDate() + 1)
+    : now;
+
+  const rows = new Map<string, TimeReportRow>();
+  let totalMinutes = 0;
+  for (const issue of issues) {
+    const minutes = (issue.sessions ?? []).reduce(
+      (sum, session) => sum + getSessionMinutes(session, since, end, now),
+      0
+    );
+    if (minutes === 0) {
+      continue;
+    }
+
+    totalMinutes += minutes;
+    const keys =
+      by === 'type' ? [issue.type] : issue.labels && issue.labels.length > 0 ? issue.labels : ['(none)'];
+    for (const key of keys) {
+      const row = rows.get(key) ?? { key, issues: 0, minutes: 0 };
+      row.issues += 1;
+      row.minutes += minutes;
+      rows.set(key, row);
+    }
+  }
+
+  return {
+    success: true,
+    since: options.since,
+    until: options.until,
+    days: since && until ? getDaysBetween(since, until) + 1 : undefined,
+    rows: [...rows.values()].sort((a, b) => b.minutes - a.minutes || a.key.localeCompare(b.key)),
+    totalMinutes,
+  };
+}
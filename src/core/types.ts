@@ -4,7 +4,7 @@
  */
 
 /**
- * Issue type enumeration
+ * Built-in issue types, used when a project does not configure its own
  */
 export enum IssueType {
   FEAT = 'feat',
@@ -14,7 +14,28 @@ export enum IssueType {
 }
 
 /**
- * Issue status enumeration
+ * Issue type as configured in .issues/config.yaml
+ */
+export interface IssueTypeDefinition {
+  name: string;
+  color: string;
+  description: string;
+  template?: string;
+}
+
+/**
+ * Issue priority levels, lowest first
+ */
+export enum IssuePriority {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  CRITICAL = 'critical',
+}
+
+/**
+ * Built-in workflow states
+ * Projects can add their own states in .issues/config.yaml, so statuses are plain strings elsewhere
  */
 export enum IssueStatus {
   STASH = 'stash',
@@ -22,6 +43,17 @@ export enum IssueStatus {
   ACHIEVED = 'achieved',
 }
 
+/**
+ * Workflow state as configured in .issues/config.yaml
+ * Every state is a directory under .issues; issues in terminal states are archived
+ */
+export interface WorkflowState {
+  name: string;
+  directory: string;
+  terminal: boolean;
+  description: string;
+}
+
 /**
  * Global AI configuration settings
  */
@@ -31,25 +63,112 @@ export interface Settings {
   model: string;
 }
 
+/**
+ * Optional planning fields, read from the schema v2 frontmatter
+ */
+export interface IssueFields {
+  priority?: string;
+  labels?: string[];
+  assignee?: string;
+  due?: string;
+  estimate?: string;
+  updated?: string;
+}
+
 /**
  * Issue file structure
  */
-export interface IssueFile {
+export interface IssueFile extends IssueFields {
   title: string;
   number: number;
-  type: IssueType;
+  id?: string;
+  type: string;
   content: string;
   createDate: Date;
-  status: IssueStatus;
+  status: string;
+  metadata?: IssueMetadata;
+  filePath?: string;
+  frontmatterFormat?: 'yaml' | 'toml';
 }
 
+/**
+ * State change recorded in the History list of the frontmatter
+ */
+export interface IssueHistoryEntry {
+  At: string;
+  From: string;
+  To: string;
+  By: string;
+}
+
+/**
+ * Work session recorded in the Sessions list of the frontmatter
+ * A session without an End is still running
+ */
+export interface WorkSession {
+  Start: string;
+  End?: string;
+  By: string;
+}
+
+/**
+ * Timestamped note in the Notes section of an issue body
+ */
+export interface IssueNote {
+  at: string;
+  by: string;
+  text: string;
+}
+
+/**
+ * Task list item found in an issue body
+ */
+export interface ChecklistItem {
+  number: number;
+  text: string;
+  checked: boolean;
+  optional: boolean;
+  line: number;
+}
+
+/**
+ * Checked items out of all checklist items of an issue
+ */
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Current version of the issue frontmatter schema
+ * Files without a Schema field predate versioning and count as version 1
+ */
+export const ISSUE_SCHEMA_VERSION = 2;
+
 /**
  * Issue frontmatter metadata
+ * Lifecycle fields are added as the issue moves through doing and achieved;
+ * planning fields (schema v2) are optional so older files load unchanged
  */
 export interface IssueMetadata {
+  Schema?: number;
   'Create Date': string;
-  Type: IssueType;
+  Type: string;
   Index: number;
+  ID?: string;
+  Priority?: string;
+  Labels?: string[];
+  Assignee?: string;
+  Due?: string;
+  Estimate?: string;
+  Updated?: string;
+  'Opened Date'?: string;
+  'Close Date'?: string;
+  'Days In Doing'?: number;
+  History?: IssueHistoryEntry[];
+  Sessions?: WorkSession[];
+  Blocks?: string[];
+  BlockedBy?: string[];
 }
 
 /**
@@ -57,7 +176,7 @@ export interface IssueMetadata {
  */
 export interface SlashCommand {
   command: string;
-  type: IssueType;
+  type: string;
   description: string;
 }
 
@@ -95,9 +214,24 @@ export interface ConfigValidationResult {
 export interface IssueSearchResult {
   found: boolean;
   issue?: IssueFile;
+  ambiguous?: boolean;
+  candidates?: IssueCandidate[];
   error?: string;
 }
 
+/**
+ * Issue a title could refer to when it matches more than one
+ * score is higher for closer matches: exact, then prefix, whole words, substring and contained
+ */
+export interface IssueCandidate {
+  number: number;
+  id?: string;
+  title: string;
+  type?: string;
+  status: string;
+  score: number;
+}
+
 /**
  * AGENTS.md update result
  */
@@ -134,6 +268,9 @@ export interface IssueOpenResult {
   success: boolean;
   issue?: IssueFile;
   solutionPath?: string;
+  reopened?: boolean;
+  blockers?: IssueListItem[];
+  candidates?: IssueCandidate[];
   error?: string;
 }
 
@@ -142,19 +279,176 @@ export interface IssueOpenResult {
  */
 export interface IssueCloseResult {
   success: boolean;
+  issue?: IssueFile;
   archivedPath?: string;
+  unchecked?: ChecklistItem[];
+  candidates?: IssueCandidate[];
+  error?: string;
+}
+
+/**
+ * Issue move result
+ */
+export interface IssueMoveResult {
+  success: boolean;
+  issue?: IssueFile;
+  from?: string;
+  to?: string;
+  solutionPath?: string;
+  blockers?: IssueListItem[];
+  unchecked?: ChecklistItem[];
+  candidates?: IssueCandidate[];
   error?: string;
 }
 
 /**
  * Issue list item
  */
-export interface IssueListItem {
+export interface IssueListItem extends IssueFields {
   title: string;
   number: number;
   index: number;
-  type: IssueType | 'unknown';
-  status: IssueStatus;
+  id?: string;
+  type: string;
+  status: string;
+  sessions?: WorkSession[];
+  blocks?: string[];
+  blockedBy?: string[];
+  checklist?: ChecklistProgress;
+}
+
+/**
+ * Issue link result
+ * The blocker lists the blocked issue in Blocks and the blocked issue lists the blocker in BlockedBy
+ */
+export interface IssueLinkResult {
+  success: boolean;
+  blocker?: IssueFile;
+  blocked?: IssueFile;
+  changed?: boolean;
+  candidates?: IssueCandidate[];
+  error?: string;
+}
+
+/**
+ * Checklist update result
+ */
+export interface ChecklistUpdateResult {
+  success: boolean;
+  issue?: IssueFile;
+  item?: ChecklistItem;
+  progress?: ChecklistProgress;
+  changed?: boolean;
+  candidates?: IssueCandidate[];
+  error?: string;
+}
+
+/**
+ * Note added to an issue
+ */
+export interface IssueNoteResult {
+  success: boolean;
+  issue?: IssueFile;
+  note?: IssueNote;
+  candidates?: IssueCandidate[];
+  error?: string;
+}
+
+/**
+ * Files attached to an issue
+ */
+export interface IssueAttachResult {
+  success: boolean;
+  issue?: IssueFile;
+  attached?: string[];
+  candidates?: IssueCandidate[];
+  error?: string;
+}
+
+/**
+ * Part of an issue that full-text search looks at
+ */
+export type SearchField = 'title' | 'description' | 'notes' | 'solution';
+
+/**
+ * Excerpt of a field around its first match
+ */
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+}
+
+/**
+ * Issue matching a full-text search
+ */
+export interface SearchHit {
+  issue: IssueListItem;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+/**
+ * Full-text search result
+ * total counts every matching issue, hits may be cut to the requested limit
+ */
+export interface IssueTextSearchResult {
+  success: boolean;
+  hits?: SearchHit[];
+  total?: number;
+  error?: string;
+}
+
+/**
+ * Issue as printed by --format json and yaml
+ * The shape is stable: every key is always present, unset values are null and unset lists are empty
+ */
+export interface IssueRecord {
+  number: number;
+  id: string | null;
+  title: string;
+  type: string;
+  status: string;
+  priority: string | null;
+  labels: string[];
+  assignee: string | null;
+  due: string | null;
+  estimate: string | null;
+  updated: string | null;
+  checklist: ChecklistProgress | null;
+  blocks: string[];
+  blockedBy: string[];
+}
+
+/**
+ * State change in an IssueDetailRecord
+ */
+export interface IssueHistoryRecord {
+  at: string;
+  from: string;
+  to: string;
+  by: string;
+}
+
+/**
+ * Issue as printed by show --format json and yaml
+ * timeTracked is in minutes; file is relative to the project
+ */
+export interface IssueDetailRecord extends IssueRecord {
+  created: string | null;
+  file: string | null;
+  timeTracked: number;
+  description: string;
+  notes: IssueNote[];
+  solution: string | null;
+  history: IssueHistoryRecord[];
+}
+
+/**
+ * Search hit as printed by search --format json and yaml
+ */
+export interface SearchRecord extends IssueRecord {
+  score: number;
+  snippets: SearchSnippet[];
 }
 
 /**
@@ -165,3 +459,155 @@ export interface IssueListResult {
   issues?: IssueListItem[];
   error?: string;
 }
+
+/**
+ * Time tracking action
+ */
+export type TimeTrackingAction = 'start' | 'pause' | 'resume';
+
+/**
+ * Time tracking result
+ */
+export interface TimeTrackingResult {
+  success: boolean;
+  issue?: IssueFile;
+  session?: WorkSession;
+  totalMinutes?: number;
+  candidates?: IssueCandidate[];
+  error?: string;
+}
+
+/**
+ * Tracked time for one type or label
+ */
+export interface TimeReportRow {
+  key: string;
+  issues: number;
+  minutes: number;
+}
+
+/**
+ * Time report result
+ */
+export interface TimeReport {
+  success: boolean;
+  since?: string;
+  until?: string;
+  days?: number;
+  rows?: TimeReportRow[];
+  totalMinutes?: number;
+  error?: string;
+}
+
+/**
+ * Archive rename performed by the archive migration
+ */
+export interface ArchiveRename {
+  from: string;
+  to: string;
+  collision: boolean;
+}
+
+/**
+ * Stable ID assigned by a migration
+ */
+export interface UidAssignment {
+  filePath: string;
+  id: string;
+}
+
+/**
+ * Archive migration result
+ */
+export interface ArchiveMigrationResult {
+  success: boolean;
+  renames?: ArchiveRename[];
+  error?: string;
+}
+
+/**
+ * Stable ID migration result
+ */
+export interface UidMigrationResult {
+  success: boolean;
+  assigned?: UidAssignment[];
+  error?: string;
+}
+
+/**
+ * Frontmatter upgrade planned or performed by the schema migration
+ */
+export interface SchemaUpgrade {
+  filePath: string;
+  from: number;
+  changes: string[];
+  before: string;
+  after: string;
+}
+
+/**
+ * Issue file the schema migration could not upgrade
+ */
+export interface SchemaSkip {
+  filePath: string;
+  reason: string;
+}
+
+/**
+ * Schema migration result
+ */
+export interface SchemaMigrationResult {
+  success: boolean;
+  upgrades?: SchemaUpgrade[];
+  skipped?: SchemaSkip[];
+  error?: string;
+}
+
+/**
+ * Journal entry for a move that writes a new file and then deletes the old ones
+ * Paths are relative to the project root
+ */
+export interface MoveJournal {
+  operation: 'close' | 'reopen';
+  target: string;
+  remove: string[];
+}
+
+/**
+ * Result of finishing or discarding interrupted operations
+ */
+export interface RecoveryResult {
+  success: boolean;
+  actions?: string[];
+  error?: string;
+}
+
+/**
+ * Severity of a problem reported by doctor
+ */
+export enum DoctorSeverity {
+  ERROR = 'error',
+  WARNING = 'warning',
+  INFO = 'info',
+}
+
+/**
+ * Inconsistency found in the .issues tree or AGENTS.md
+ */
+export interface DoctorFinding {
+  severity: DoctorSeverity;
+  code: string;
+  message: string;
+  filePath?: string;
+  fixable: boolean;
+}
+
+/**
+ * Doctor run result
+ */
+export interface DoctorReport {
+  success: boolean;
+  findings?: DoctorFinding[];
+  fixed?: string[];
+  error?: string;
+}
@@ -5,6 +5,29 @@
 
 import { runCLI } from './cli/index.js';
 import { TUIApp } from './tui/app.js';
+import { FileManager } from './core/file-manager.js';
+import { loadProjectConfig } from './core/project-config.js';
+
+/**
+ * Finish moves interrupted by a crash before anything reads the issue tree
+ */
+async function recoverInterruptedOperations(): Promise<void> {
+  try {
+    loadProjectConfig(process.cwd());
+  } catch (error) {
+    // The CLI and TUI report configuration errors themselves
+    return;
+  }
+
+  const recovery = await new FileManager(process.cwd()).recover();
+  if (!recovery.success) {
+    console.error(`✗ ${recovery.error}`);
+  }
+  // stderr, so the notice never ends up inside --format json, csv or yaml output
+  for (const action of recovery.actions ?? []) {
+    console.error(`⚠ Recovered: ${action}`);
+  }
+}
 
 /**
  * Main function
@@ -12,6 +35,8 @@ import { TUIApp } from './tui/app.js';
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
+  await recoverInterruptedOperations();
+
   // If no arguments, start TUI
   if (args.length === 0) {
     const tuiApp = new TUIApp();
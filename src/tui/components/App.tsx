@@ -8,19 +8,40 @@ import { Box, render } from 'ink';
 import { Welcome } from './Welcome.js';
 import { CommandPrompt } from './CommandPrompt.js';
 import { Input } from './Input.js';
+import { IssuePicker } from './IssuePicker.js';
+import { buildAvailableCommands, getCandidateIdentifier } from './input-logic.js';
 import { Messages } from './Messages.js';
 import { FileManager } from '../../core/file-manager.js';
 import { AIService } from '../../core/ai.js';
 import { ConfigManager } from '../../core/config.js';
-import { IssueType } from '../../core/types.js';
-import { validateIssueType, parseSlashCommand } from '../../utils/validation.js';
-import { getTimestamp } from '../../utils/date.js';
+import {
+  ProjectConfig,
+  DEFAULT_PROJECT_CONFIG,
+  loadProjectConfig,
+  getIssueTypeNames,
+  getWorkflowStateNames,
+} from '../../core/project-config.js';
+import {
+  validateIssueType,
+  parseSlashCommand,
+  extractFieldTokens,
+} from '../../utils/validation.js';
+import { getTimestamp, formatDuration } from '../../utils/date.js';
+import { IssueCandidate, TimeTrackingAction } from '../../core/types.js';
 import {
   initCommandHandler,
   addCommandHandler,
   openCommandHandler,
   closeCommandHandler,
+  reopenCommandHandler,
+  moveCommandHandler,
+  trackCommandHandler,
+  checkCommandHandler,
+  noteCommandHandler,
   listCommandHandler,
+  searchCommandHandler,
+  showCommandHandler,
+  doctorCommandHandler,
 } from '../handlers/index.js';
 
 interface Message {
@@ -28,13 +49,49 @@ interface Message {
   content: string;
 }
 
+/**
+ * Issues an ambiguous title matched and the command to re-run on the one picked
+ */
+interface PendingPick {
+  candidates: IssueCandidate[];
+  retry: (identifier: string) => Promise<void>;
+}
+
 export const App: React.FC = () => {
   const [messages, setMessages] = useState<Message[]>([]);
 
+  const [projectConfig, setProjectConfig] = useState<ProjectConfig>(DEFAULT_PROJECT_CONFIG);
+
+  const [pendingPick, setPendingPick] = useState<PendingPick | null>(null);
+
   const addMessage = (type: Message['type'], content: string) => {
     setMessages((prev) => [...prev, { type, content }]);
   };
 
+  const askWhichIssue = (candidates: IssueCandidate[] | undefined, retry: PendingPick['retry']) => {
+    if (candidates && candidates.length > 0) {
+      setPendingPick({ candidates, retry });
+    }
+  };
+
+  const readProjectConfig = (): ProjectConfig | null => {
+    try {
+      return loadProjectConfig(process.cwd());
+    } catch (error) {
+      addMessage('error', `Invalid project configuration: ${(error as Error).message}`);
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    const config = readProjectConfig();
+    if (config) {
+      setProjectConfig(config);
+    }
+  }, []);
+
+  const typeNames = getIssueTypeNames(projectConfig);
+
   const handleCommand = async (input: string) => {
     if (!input.trim()) {
       return;
@@ -67,8 +124,94 @@ export const App: React.FC = () => {
         return;
       }
 
-      if (command === '/list') {
-        await handleListCommand();
+      if (command === '/list' || command.startsWith('/list ')) {
+        // Options are whole words; everything else, -label:wip included, is the filter
+        const words = command.slice(5).trim().split(/\s+/).filter(Boolean);
+        let format: string | undefined;
+        const formatAt = words.findIndex(word => word === '--format' || word.startsWith('--format='));
+        if (formatAt !== -1) {
+          const [option, value] = words.splice(formatAt, words[formatAt] === '--format' ? 2 : 1);
+          format = option === '--format' ? value ?? '' : option.slice('--format='.length);
+        }
+        const flags = words.filter(word => ['--all', '-a', '--group', '-g'].includes(word));
+        const unknown = words.find(word => word.startsWith('--') && !flags.includes(word));
+        if (unknown) {
+          addMessage('error', `Unknown option ${unknown}. Use /list [--all] [--group] [--format FORMAT] [filter]`);
+          return;
+        }
+        await handleListCommand(
+          flags.some(flag => flag === '--all' || flag === '-a'),
+          flags.some(flag => flag === '--group' || flag === '-g'),
+          words.filter(word => !flags.includes(word)).join(' '),
+          format
+        );
+        return;
+      }
+
+      const search = command.match(/^\/search(?:\s+([\s\S]*))?$/);
+      if (search) {
+        await handleSearchCommand(search[1] ?? '');
+        return;
+      }
+
+      const show = command.match(/^\/show(?:\s+(.*))?$/);
+      if (show) {
+        const args = (show[1] ?? '').trim();
+        const history = /(^|\s)--history$/.test(args);
+        await handleShowCommand(history ? args.replace(/(^|\s)--history$/, '').trim() : args, history);
+        return;
+      }
+
+      if (command.startsWith('/add ')) {
+        await handleDefaultTypeAddCommand(command.slice(5).trim());
+        return;
+      }
+
+      if (command === '/doctor' || command === '/doctor --fix') {
+        await handleDoctorCommand(command === '/doctor --fix');
+        return;
+      }
+
+      if (command.startsWith('/reopen')) {
+        const identifier = command.slice(8).trim();
+        await handleReopenCommand(identifier);
+        return;
+      }
+
+      if (command.startsWith('/move')) {
+        // The state is the last word so titles with spaces still work
+        const args = command.slice(6).trim();
+        const split = args.lastIndexOf(' ');
+        await handleMoveCommand(
+          split === -1 ? args : args.slice(0, split).trim(),
+          split === -1 ? '' : args.slice(split + 1)
+        );
+        return;
+      }
+
+      const track = command.match(/^\/(start|pause|resume)(?:\s+(.*))?$/);
+      if (track) {
+        await handleTrackCommand(track[1] as TimeTrackingAction, track[2] ?? '');
+        return;
+      }
+
+      const note = command.match(/^\/note(?:\s+(\S+))?(?:\s+([\s\S]*))?$/);
+      if (note) {
+        // The identifier is the first word, everything after it is the note
+        await handleNoteCommand(note[1] ?? '', note[2] ?? '');
+        return;
+      }
+
+      const check = command.match(/^\/(check|uncheck)(?:\s+(.*))?$/);
+      if (check) {
+        // The item number is the last word so titles with spaces still work
+        const args = (check[2] ?? '').trim();
+        const split = args.lastIndexOf(' ');
+        await handleCheckCommand(
+          split === -1 ? '' : args.slice(0, split).trim(),
+          split === -1 ? args : args.slice(split + 1),
+          check[1] === 'uncheck'
+        );
         return;
       }
 
@@ -79,22 +222,27 @@ export const App: React.FC = () => {
       }
 
       if (command.startsWith('/close')) {
-        const identifier = command.slice(7).trim();
-        await handleCloseCommand(identifier);
+        const args = command.slice(7).trim();
+        const force = /(^|\s)--force$/.test(args);
+        await handleCloseCommand(force ? args.replace(/(^|\s)--force$/, '').trim() : args, force);
         return;
       }
 
-      addMessage('error', 'Invalid command format. Use /add:TYPE, /init, /open, /close, or /list');
-      addMessage('info', 'Valid types: feat, todo, bug, refact');
+      addMessage('error', 'Invalid command format. Use /add:TYPE, /init, /open, /close, /reopen, /move, /start, /pause, /resume, /note, /check, /uncheck, /list, /search, /show, or /doctor');
+      addMessage('info', `Valid types: ${typeNames.join(', ')}`);
       return;
     }
 
     // Handle /add:TYPE command
     if (parsed.action === 'add') {
-      const type = validateIssueType(parsed.type);
+      const config = readProjectConfig();
+      if (!config) {
+        return;
+      }
+      const type = validateIssueType(parsed.type, getIssueTypeNames(config));
       if (!type) {
         addMessage('error', `Invalid issue type: ${parsed.type}`);
-        addMessage('info', 'Valid types: feat, todo, bug, refact');
+        addMessage('info', `Valid types: ${getIssueTypeNames(config).join(', ')}`);
         return;
       }
 
@@ -107,7 +255,7 @@ export const App: React.FC = () => {
       await handleAddCommand(type, parsed.description);
     } else {
       addMessage('error', `Unsupported command: ${parsed.action}`);
-      addMessage('info', 'Supported commands: /add:TYPE, /init, /open, /close, /list');
+      addMessage('info', 'Supported commands: /add:TYPE, /init, /open, /close, /reopen, /move, /start, /pause, /resume, /note, /check, /uncheck, /list, /search, /show, /doctor');
     }
   };
 
@@ -123,24 +271,60 @@ export const App: React.FC = () => {
     }
   };
 
-  const handleAddCommand = async (type: IssueType, description: string) => {
-    const result = await addCommandHandler(type, description, process.cwd());
+  const handleAddCommand = async (type: string, text: string) => {
+    // #label @assignee !priority due:YYYY-MM-DD est:2h at the end of the text set planning fields
+    const { description, fields, error } = extractFieldTokens(text);
+    if (error) {
+      addMessage('error', error);
+      return;
+    }
+    if (!description) {
+      addMessage('error', 'Description is required besides #labels, @assignee, !priority, due: and est:');
+      return;
+    }
+
+    const result = await addCommandHandler(type, description, process.cwd(), fields);
 
     if (result.success) {
       if (result.warning) {
         addMessage('warning', result.warning);
       }
-      addMessage('success', `Issue #${result.issue?.number} created: ${result.issue?.title}`);
+      const stableId = result.issue?.id ? ` (${result.issue.id})` : '';
+      addMessage('success', `Issue #${result.issue?.number}${stableId} created: ${result.issue?.title}`);
       addMessage('info', `Type: ${result.issue?.type}`);
+      const planning = [
+        result.issue?.priority && `Priority: ${result.issue.priority}`,
+        result.issue?.assignee && `Assignee: ${result.issue.assignee}`,
+        result.issue?.due && `Due: ${result.issue.due}`,
+        result.issue?.estimate && `Estimate: ${result.issue.estimate}`,
+        result.issue?.labels && `Labels: ${result.issue.labels.join(', ')}`,
+      ].filter(Boolean);
+      if (planning.length > 0) {
+        addMessage('info', planning.join('  '));
+      }
       addMessage('info', `File: ${result.filePath}`);
     } else {
       addMessage('error', `Failed to create issue: ${result.error}`);
     }
   };
 
+  const handleDefaultTypeAddCommand = async (description: string) => {
+    const config = readProjectConfig();
+    if (!config) {
+      return;
+    }
+
+    if (!description) {
+      addMessage('error', 'Description is required. Use /add description or /add:TYPE description');
+      return;
+    }
+
+    await handleAddCommand(config.defaults.type, description);
+  };
+
   const handleOpenCommand = async (identifier: string) => {
     if (!identifier) {
-      addMessage('error', 'Please provide an issue identifier. Use /open <number|title>');
+      addMessage('error', 'Please provide an issue identifier. Use /open <number|id|title>');
       return;
     }
 
@@ -148,24 +332,28 @@ export const App: React.FC = () => {
     const result = await openCommandHandler(identifier, process.cwd());
 
     if (result.success) {
-      addMessage('success', `Issue #${result.issue?.number} opened successfully`);
+      addMessage(
+        'success',
+        `Issue #${result.issue?.number} ${result.reopened ? 'reopened' : 'opened'} successfully`
+      );
       addMessage('info', `Title: ${result.issue?.title}`);
       addMessage('info', `Type: ${result.issue?.type}`);
       addMessage('info', `Solution file: ${result.solutionPath}`);
       addMessage('info', `AGENTS.md: ${result.agentsPath}`);
     } else {
       addMessage('error', `Failed to open issue: ${result.error}`);
+      askWhichIssue(result.candidates, picked => handleOpenCommand(picked));
     }
   };
 
-  const handleCloseCommand = async (identifier: string) => {
+  const handleCloseCommand = async (identifier: string, force = false) => {
     if (!identifier) {
-      addMessage('error', 'Please provide an issue identifier. Use /close <number|title>');
+      addMessage('error', 'Please provide an issue identifier. Use /close <number|id|title> [--force]');
       return;
     }
 
     addMessage('info', `Closing issue: ${identifier}...`);
-    const result = await closeCommandHandler(identifier, process.cwd());
+    const result = await closeCommandHandler(identifier, process.cwd(), { force });
 
     if (result.success) {
       addMessage('success', 'Issue closed successfully');
@@ -173,14 +361,118 @@ export const App: React.FC = () => {
       addMessage('info', `AGENTS.md cleaned: ${result.agentsPath}`);
     } else {
       addMessage('error', `Failed to close issue: ${result.error}`);
+      askWhichIssue(result.candidates, picked => handleCloseCommand(picked, force));
       if (result.error?.includes('Solution file not found')) {
-        addMessage('warning', 'Hint: Please create solution.md first or ask your agent to create it');
+        addMessage('warning', 'Hint: Please write the solution draft for this issue first or ask your agent to create it');
+      }
+      if (result.error?.includes('unchecked checklist item')) {
+        addMessage('warning', 'Hint: Tick them with /check <number|id|title> <item> or use /close <number|id|title> --force');
       }
     }
   };
 
-  const handleListCommand = async () => {
-    const result = await listCommandHandler(process.cwd());
+  const handleReopenCommand = async (identifier: string) => {
+    if (!identifier) {
+      addMessage('error', 'Please provide an issue identifier. Use /reopen <number|id|title>');
+      return;
+    }
+
+    addMessage('info', `Reopening issue: ${identifier}...`);
+    const result = await reopenCommandHandler(identifier, process.cwd());
+
+    if (result.success) {
+      addMessage('success', `Issue #${result.issue?.number} reopened successfully`);
+      addMessage('info', `Title: ${result.issue?.title}`);
+      addMessage('info', `Type: ${result.issue?.type}`);
+      addMessage('info', `Solution file: ${result.solutionPath}`);
+      addMessage('info', `AGENTS.md: ${result.agentsPath}`);
+    } else {
+      addMessage('error', `Failed to reopen issue: ${result.error}`);
+      askWhichIssue(result.candidates, picked => handleReopenCommand(picked));
+    }
+  };
+
+  const handleMoveCommand = async (identifier: string, state: string) => {
+    if (!identifier || !state) {
+      addMessage('error', 'Please provide an issue identifier and a state. Use /move <number|id|title> <state>');
+      addMessage('info', `Valid states: ${getWorkflowStateNames(projectConfig).join(', ')}`);
+      return;
+    }
+
+    addMessage('info', `Moving issue ${identifier} to ${state}...`);
+    const result = await moveCommandHandler(identifier, state, process.cwd());
+
+    if (result.success) {
+      addMessage('success', `Issue #${result.issue?.number} moved from ${result.from} to ${result.to}`);
+      addMessage('info', `Title: ${result.issue?.title}`);
+      addMessage('info', `File: ${result.filePath}`);
+      if (result.solutionPath) {
+        addMessage('info', `Solution file: ${result.solutionPath}`);
+      }
+      if (result.agentsPath) {
+        addMessage('info', `AGENTS.md: ${result.agentsPath}`);
+      }
+    } else {
+      addMessage('error', `Failed to move issue: ${result.error}`);
+      askWhichIssue(result.candidates, picked => handleMoveCommand(picked, state));
+    }
+  };
+
+  const handleTrackCommand = async (action: TimeTrackingAction, identifier: string) => {
+    const result = await trackCommandHandler(action, identifier, process.cwd());
+
+    if (result.success) {
+      const done = { start: 'Started', pause: 'Paused', resume: 'Resumed' }[action];
+      addMessage('success', `${done} time tracking on issue #${result.issue?.number}: ${result.issue?.title}`);
+      addMessage('info', `Tracked so far: ${formatDuration(result.totalMinutes ?? 0)}`);
+    } else {
+      addMessage('error', `Failed to ${action} time tracking: ${result.error}`);
+      askWhichIssue(result.candidates, picked => handleTrackCommand(action, picked));
+    }
+  };
+
+  const handleNoteCommand = async (identifier: string, text: string) => {
+    if (!identifier || !text.trim()) {
+      addMessage('error', 'Please provide an issue identifier and the note text. Use /note <number|id> <text>');
+      return;
+    }
+
+    const result = await noteCommandHandler(identifier, text, process.cwd());
+
+    if (result.success) {
+      addMessage('success', `Note added to issue #${result.issue?.number}: ${result.issue?.title}`);
+      addMessage('info', `By: ${result.note?.by}`);
+    } else {
+      addMessage('error', `Failed to add note: ${result.error}`);
+      askWhichIssue(result.candidates, picked => handleNoteCommand(picked, text));
+    }
+  };
+
+  const handleCheckCommand = async (identifier: string, item: string, uncheck: boolean) => {
+    const verb = uncheck ? 'uncheck' : 'check';
+    if (!identifier || !item) {
+      addMessage('error', `Please provide an issue identifier and an item number. Use /${verb} <number|id|title> <item>`);
+      return;
+    }
+
+    const result = await checkCommandHandler(identifier, item, process.cwd(), { uncheck });
+
+    if (result.success) {
+      const entry = `${result.item?.number}. ${result.item?.text}`;
+      if (result.changed) {
+        addMessage('success', `${uncheck ? 'Unchecked' : 'Checked'} item ${entry} on issue #${result.issue?.number}`);
+      } else {
+        addMessage('warning', `Item ${entry} is already ${uncheck ? 'unchecked' : 'checked'}`);
+      }
+      addMessage('info', `Progress: ${result.progress}`);
+    } else {
+      addMessage('error', `Failed to ${verb} checklist item: ${result.error}`);
+      askWhichIssue(result.candidates, picked => handleCheckCommand(picked, item, uncheck));
+    }
+  };
+
+  const handleListCommand = async (all = false, group = false, query = '', format?: string) => {
+    const result = await listCommandHandler(process.cwd(), { all, group, query, format });
 
     if (result.success) {
       if (result.output) {
@@ -193,16 +485,93 @@ export const App: React.FC = () => {
     }
   };
 
+  const handleSearchCommand = async (query: string) => {
+    if (!query.trim()) {
+      addMessage('error', 'Please provide something to search for. Use /search <query>');
+      return;
+    }
+
+    const result = await searchCommandHandler(query, process.cwd());
+
+    if (result.success) {
+      addMessage('info', result.output!);
+    } else {
+      addMessage('error', `Search failed: ${result.error}`);
+    }
+  };
+
+  const handleShowCommand = async (identifier: string, history = false) => {
+    if (!identifier) {
+      addMessage('error', 'Please provide an issue identifier. Use /show <number|id|title> [--history]');
+      return;
+    }
+
+    const result = await showCommandHandler(identifier, process.cwd(), { history });
+
+    if (result.success) {
+      addMessage('info', result.output!);
+    } else {
+      addMessage('error', `Failed to show issue: ${result.error}`);
+      askWhichIssue(result.candidates, picked => handleShowCommand(picked, history));
+    }
+  };
+
+  const handleDoctorCommand = async (fix = false) => {
+    const result = await doctorCommandHandler(process.cwd(), { fix });
+
+    if (!result.success) {
+      addMessage('error', `Failed to check issues: ${result.error}`);
+      return;
+    }
+
+    for (const description of result.fixed || []) {
+      addMessage('success', `Fixed: ${description}`);
+    }
+
+    const findings = result.findings || [];
+    if (findings.length === 0) {
+      addMessage('success', 'No problems found');
+      return;
+    }
+
+    for (const finding of findings) {
+      const location = finding.location ? `${finding.location}: ` : '';
+      const hint = finding.fixable && !fix ? ' (fixable with /doctor --fix)' : '';
+      addMessage(
+        finding.severity === 'error' ? 'error' : finding.severity === 'warning' ? 'warning' : 'info',
+        `${location}${finding.message}${hint}`
+      );
+    }
+  };
+
   
 
   return (
     <Box flexDirection="column">
       <Welcome />
-      <CommandPrompt />
+      <CommandPrompt types={projectConfig.types} states={projectConfig.workflow.states} />
       <Box borderStyle="single" borderColor="gray" paddingX={1}>
         <Messages messages={messages} />
       </Box>
-      <Input onSubmit={handleCommand} placeholder="> " />
+      {pendingPick && (
+        <IssuePicker
+          candidates={pendingPick.candidates}
+          onPick={candidate => {
+            setPendingPick(null);
+            void pendingPick.retry(getCandidateIdentifier(candidate));
+          }}
+          onCancel={() => {
+            setPendingPick(null);
+            addMessage('info', 'Cancelled');
+          }}
+        />
+      )}
+      <Input
+        onSubmit={handleCommand}
+        placeholder="> "
+        commands={buildAvailableCommands(typeNames)}
+        isActive={!pendingPick}
+      />
     </Box>
   );
 };
@@ -5,28 +5,57 @@
 
 import React from 'react';
 import { Box, Text } from 'ink';
+import { IssueTypeDefinition, WorkflowState } from '../../core/types.js';
+import { DEFAULT_PROJECT_CONFIG } from '../../core/project-config.js';
 
-export const CommandPrompt: React.FC = () => {
+interface CommandPromptProps {
+  types?: IssueTypeDefinition[];
+  states?: WorkflowState[];
+}
+
+export const CommandPrompt: React.FC<CommandPromptProps> = ({
+  types = DEFAULT_PROJECT_CONFIG.types,
+  states = DEFAULT_PROJECT_CONFIG.workflow.states,
+}) => {
   return (
     <Box flexDirection="column" paddingY={1}>
       <Text bold color="yellow">Available commands:</Text>
       <Box flexDirection="column" paddingLeft={2}>
         <Text color="cyan">/init</Text>
         <Text> - Initialize configuration</Text>
-        <Text color="green">/add:feat</Text>
-        <Text> - Add a new feature issue</Text>
-        <Text color="green">/add:todo</Text>
-        <Text> - Add a new todo issue</Text>
-        <Text color="green">/add:bug</Text>
-        <Text> - Add a new bug issue</Text>
-        <Text color="green">/add:refact</Text>
-        <Text> - Add a new refactor issue</Text>
+        <Text color="green">/add &lt;description&gt;</Text>
+        <Text> - Add an issue of the project's default type</Text>
+        {types.map(type => (
+          <React.Fragment key={type.name}>
+            <Text color={type.color}>/add:{type.name}</Text>
+            <Text> - {type.description}</Text>
+          </React.Fragment>
+        ))}
+        <Text dimColor>
+          {'  '}End a description with #label @assignee !priority due:YYYY-MM-DD est:2h to set them
+        </Text>
         <Text color="blue">/open &lt;number|title&gt;</Text>
         <Text> - Open an issue to work on</Text>
-        <Text color="magenta">/close &lt;number|title&gt;</Text>
-        <Text> - Close and archive an issue</Text>
-        <Text color="cyan">/list</Text>
-        <Text> - List current issues</Text>
+        <Text color="magenta">/close &lt;number|title&gt; [--force]</Text>
+        <Text> - Close and archive an issue (--force skips the checklist check)</Text>
+        <Text color="blue">/reopen &lt;number|title&gt;</Text>
+        <Text> - Reopen an archived issue</Text>
+        <Text color="blue">/move &lt;number|title&gt; &lt;state&gt;</Text>
+        <Text> - Move an issue to another state ({states.map(state => state.name).join(', ')})</Text>
+        <Text color="green">/start | /pause | /resume [number|title]</Text>
+        <Text> - Track time on the issue in doing</Text>
+        <Text color="blue">/note &lt;number|id&gt; &lt;text&gt;</Text>
+        <Text> - Append a timestamped note to an issue</Text>
+        <Text color="green">/check | /uncheck &lt;number|title&gt; &lt;item&gt;</Text>
+        <Text> - Tick or clear a checklist item</Text>
+        <Text color="cyan">/list [--all] [--group] [--format FORMAT] [filter]</Text>
+        <Text> - List current issues (--all includes archived, --group groups by state, filter such as type:bug label:ui)</Text>
+        <Text color="cyan">/search &lt;query&gt;</Text>
+        <Text> - Search all issues, archive included ("phrase" matches exactly, -term excludes)</Text>
+        <Text color="cyan">/show &lt;number|id|title&gt; [--history]</Text>
+        <Text> - Show an issue without opening it (--history shows its state changes)</Text>
+        <Text color="yellow">/doctor [--fix]</Text>
+        <Text> - Check issue files for problems (--fix repairs them)</Text>
         <Text color="red">/exit</Text>
         <Text> - Exit TUI</Text>
         <Text color="red">/quit</Text>
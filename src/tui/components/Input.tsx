@@ -13,9 +13,11 @@ import {
 interface InputProps {
   onSubmit: (value: string) => void;
   placeholder?: string;
+  commands?: string[];
+  isActive?: boolean;
 }
 
-export const Input: React.FC<InputProps> = ({ onSubmit, placeholder = '> ' }) => {
+export const Input: React.FC<InputProps> = ({ onSubmit, placeholder = '> ', commands, isActive = true }) => {
   const [value, setValue] = useState('');
   const [showCompletion, setShowCompletion] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(0);
@@ -25,7 +27,10 @@ export const Input: React.FC<InputProps> = ({ onSubmit, placeholder = '> ' }) =>
   const [cursorIndex, setCursorIndex] = useState(0);
 
   // Filter and sort commands based on input
-  const filteredCommands = useMemo(() => getMatchingCommands(value), [value]);
+  const filteredCommands = useMemo(
+    () => getMatchingCommands(value, commands),
+    [value, commands]
+  );
 
   useInput((input: string, key: any) => {
     const clearHistoryNavigation = () => {
@@ -211,7 +216,7 @@ export const Input: React.FC<InputProps> = ({ onSubmit, placeholder = '> ' }) =>
       setShowCompletion(newValue.startsWith('/'));
       setSelectedIndex(0);
     }
-  });
+  }, { isActive });
 
   // Hide completion if no matches
   if (showCompletion && filteredCommands.length === 0) {
@@ -0,0 +1,50 @@
+/**
+ * IssuePicker Component
+ * Lets the user pick one of the issues an ambiguous title matched
+ */
+
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { Key } from 'ink';
+import { IssueCandidate } from '../../core/types.js';
+import { formatIssueCandidate, getNextSelectedIndex } from './input-logic.js';
+
+interface IssuePickerProps {
+  candidates: IssueCandidate[];
+  onPick: (candidate: IssueCandidate) => void;
+  onCancel: () => void;
+}
+
+export const IssuePicker: React.FC<IssuePickerProps> = ({ candidates, onPick, onCancel }) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useInput((_input: string, key: Key) => {
+    if (key.upArrow) {
+      setSelectedIndex(prev => getNextSelectedIndex(prev, 'up', candidates.length));
+      return;
+    }
+    if (key.downArrow) {
+      setSelectedIndex(prev => getNextSelectedIndex(prev, 'down', candidates.length));
+      return;
+    }
+    if (key.return && candidates[selectedIndex]) {
+      onPick(candidates[selectedIndex]);
+      return;
+    }
+    if (key.escape) {
+      onCancel();
+    }
+  });
+
+  return (
+    <Box flexDirection="column" borderStyle="single" borderColor="yellow" paddingX={1}>
+      <Text color="yellow">Which issue did you mean? (↑/↓ to choose, Enter to pick, Esc to cancel)</Text>
+      {candidates.map((candidate, index) => (
+        <Text key={`${candidate.status}-${candidate.number}`} color={index === selectedIndex ? 'cyan' : undefined}>
+          {index === selectedIndex ? '› ' : '  '}
+          {formatIssueCandidate(candidate)}
+        </Text>
+      ))}
+    </Box>
+  );
+};
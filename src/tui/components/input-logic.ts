@@ -1,24 +1,46 @@
 // Command completion logic extracted for testability
 
-export const AVAILABLE_COMMANDS = [
-  '/init',
-  '/add:feat',
-  '/add:todo',
-  '/add:bug',
-  '/add:refact',
-  '/open',
-  '/close',
-  '/list',
-  '/exit',
-  '/quit',
-];
-
-export function getMatchingCommands(value: string): string[] {
+import { IssueCandidate, IssueType } from '../../core/types.js';
+
+/**
+ * Build the slash commands offered for completion
+ * @param typeNames - Issue types configured for the project, one /add:TYPE command each
+ * @returns Slash commands in display order
+ */
+export function buildAvailableCommands(typeNames: string[]): string[] {
+  return [
+    '/init',
+    ...typeNames.map(name => `/add:${name}`),
+    '/open',
+    '/close',
+    '/reopen',
+    '/move',
+    '/start',
+    '/pause',
+    '/resume',
+    '/note',
+    '/check',
+    '/uncheck',
+    '/list',
+    '/search',
+    '/show',
+    '/doctor',
+    '/exit',
+    '/quit',
+  ];
+}
+
+export const AVAILABLE_COMMANDS = buildAvailableCommands(Object.values(IssueType));
+
+export function getMatchingCommands(
+  value: string,
+  commands: string[] = AVAILABLE_COMMANDS
+): string[] {
   if (!value.startsWith('/')) {
     return [];
   }
 
-  const matches = AVAILABLE_COMMANDS.filter(cmd =>
+  const matches = commands.filter(cmd =>
     cmd.toLowerCase().startsWith(value.toLowerCase())
   );
 
@@ -53,3 +75,22 @@ export function getNextSelectedIndex(
   }
   return Math.min(total - 1, currentIndex + 1);
 }
+
+/**
+ * Label a candidate of an ambiguous title in the issue picker
+ * @param candidate - Issue the title matched
+ * @returns Text such as #3 IM-4 Parser crash (doing)
+ */
+export function formatIssueCandidate(candidate: IssueCandidate): string {
+  const id = candidate.id ? ` ${candidate.id}` : '';
+  return `#${candidate.number}${id} ${candidate.title} (${candidate.status})`;
+}
+
+/**
+ * Get the identifier that re-runs a command on exactly the picked candidate
+ * @param candidate - Picked issue
+ * @returns Stable ID, or the number for issues created before IDs existed
+ */
+export function getCandidateIdentifier(candidate: IssueCandidate): string {
+  return candidate.id ?? String(candidate.number);
+}
@@ -6,7 +6,7 @@
 import { FileManager } from '../../core/file-manager.js';
 import { AIService } from '../../core/ai.js';
 import { ConfigManager } from '../../core/config.js';
-import { IssueType } from '../../core/types.js';
+import { IssueFields } from '../../core/types.js';
 import { getTimestamp } from '../../utils/date.js';
 
 /**
@@ -16,9 +16,10 @@ export interface AddCommandResult {
   success: boolean;
   issue?: {
     number: number;
+    id?: string;
     title: string;
-    type: IssueType;
-  };
+    type: string;
+  } & IssueFields;
   filePath?: string;
   warning?: string;
   error?: string;
@@ -26,15 +27,17 @@ export interface AddCommandResult {
 
 /**
  * Execute add command
- * @param type - Issue type
+ * @param type - Issue type name
  * @param description - Issue description
  * @param basePath - Project base path
+ * @param fields - Optional planning fields
  * @returns AddCommandResult with success status and issue details
  */
 export async function addCommandHandler(
-  type: IssueType,
+  type: string,
   description: string,
-  basePath: string
+  basePath: string,
+  fields: IssueFields = {}
 ): Promise<AddCommandResult> {
   if (!description.trim()) {
     return {
@@ -73,15 +76,21 @@ export async function addCommandHandler(
   }
 
   // Create issue
-  const result = await fileManager.createIssue(title, type, description);
+  const result = await fileManager.createIssue(title, type, description, fields);
 
   if (result.success) {
     return {
       success: true,
       issue: {
         number: result.issue!.number,
+        id: result.issue!.id,
         title: result.issue!.title,
         type: result.issue!.type,
+        priority: result.issue!.priority,
+        labels: result.issue!.labels,
+        assignee: result.issue!.assignee,
+        due: result.issue!.due,
+        estimate: result.issue!.estimate,
       },
       filePath: result.filePath,
       warning,
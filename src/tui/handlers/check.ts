@@ -0,0 +1,88 @@
+/**
+ * Check Command Handler for TUI
+ * Tick or untick a checklist item in an issue
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { IssueCandidate } from '../../core/types.js';
+import { formatChecklistProgress } from '../../core/checklist.js';
+import { validateIssueNumber } from '../../utils/validation.js';
+
+/**
+ * Result type for check and uncheck commands
+ */
+export interface CheckCommandResult {
+  success: boolean;
+  issue?: {
+    number: number;
+    id?: string;
+    title: string;
+  };
+  item?: {
+    number: number;
+    text: string;
+    checked: boolean;
+  };
+  progress?: string;
+  changed?: boolean;
+  candidates?: IssueCandidate[];
+  error?: string;
+}
+
+/**
+ * Execute check or uncheck command
+ * @param identifier - Issue number, stable ID or title
+ * @param item - Checklist item number, counting from 1
+ * @param basePath - Project base path
+ * @param options - Set uncheck to clear the item instead
+ * @returns CheckCommandResult with the item and the checklist progress afterwards
+ */
+export async function checkCommandHandler(
+  identifier: string,
+  item: string,
+  basePath: string,
+  options: { uncheck?: boolean } = {}
+): Promise<CheckCommandResult> {
+  if (!identifier || identifier.trim().length === 0) {
+    return {
+      success: false,
+      error: 'Please provide an issue identifier and a checklist item number',
+    };
+  }
+  const number = validateIssueNumber(item.trim());
+  if (number === null || number < 1) {
+    return {
+      success: false,
+      error: `Invalid checklist item "${item}"`,
+    };
+  }
+
+  const fileManager = new FileManager(basePath);
+
+  const result = await fileManager.checkItem(identifier, number, !options.uncheck);
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error,
+      candidates: result.candidates,
+    };
+  }
+
+  const issue = result.issue!;
+  return {
+    success: true,
+    issue: {
+      number: issue.number,
+      id: issue.id,
+      title: issue.title,
+    },
+    item: {
+      number: result.item!.number,
+      text: result.item!.text,
+      checked: result.item!.checked,
+    },
+    progress: formatChecklistProgress(result.progress!),
+    changed: result.changed,
+  };
+}
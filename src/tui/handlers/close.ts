@@ -3,8 +3,9 @@
  * Complete and archive an issue
  */
 
-import * as fs from 'fs/promises';
 import { FileManager } from '../../core/file-manager.js';
+import { removeAgentsTaskBlocks } from '../../core/agents.js';
+import { IssueCandidate } from '../../core/types.js';
 import { getAgentsPath } from '../../utils/path.js';
 
 /**
@@ -14,6 +15,7 @@ export interface CloseCommandResult {
   success: boolean;
   archivedPath?: string;
   agentsPath?: string;
+  candidates?: IssueCandidate[];
   error?: string;
 }
 
@@ -21,11 +23,13 @@ export interface CloseCommandResult {
  * Execute close command
  * @param identifier - Issue number or title
  * @param basePath - Project base path
+ * @param options - Set force to close despite unchecked checklist items
  * @returns CloseCommandResult with success status and archived path
  */
 export async function closeCommandHandler(
   identifier: string,
-  basePath: string
+  basePath: string,
+  options: { force?: boolean } = {}
 ): Promise<CloseCommandResult> {
   if (!identifier || identifier.trim().length === 0) {
     return {
@@ -37,19 +41,21 @@ export async function closeCommandHandler(
   const fileManager = new FileManager(basePath);
 
   // Close issue
-  const result = await fileManager.closeIssue(identifier);
+  const result = await fileManager.closeIssue(identifier, options);
 
   if (!result.success) {
     return {
       success: false,
       error: result.error,
+      candidates: result.candidates,
     };
   }
 
   const agentsPath = getAgentsPath(basePath);
 
-  // Clean up AGENTS.md
-  const cleanupResult = await cleanupAgentsFile(basePath);
+  // Drop the closed issue's task; other issues in doing keep theirs
+  const number = result.issue?.number;
+  const cleanupResult = await removeAgentsTaskBlocks(basePath, block => block.number === number);
 
   if (!cleanupResult.success) {
     return {
@@ -64,33 +70,3 @@ export async function closeCommandHandler(
     agentsPath,
   };
 }
-
-/**
- * Clean up AGENTS.md file
- * @param basePath - Project base path
- * @returns Success status and error if any
- */
-async function cleanupAgentsFile(
-  basePath: string
-): Promise<{ success: boolean; error?: string }> {
-  const agentsPath = getAgentsPath(basePath);
-
-  try {
-    const agentsContent = await fs.readFile(agentsPath, 'utf-8');
-
-    // Remove ISSUE-MAKE section
-    const cleanedContent = agentsContent.replace(
-      /<!-- ISSUE-MAKE:START -->[\s\S]*?<!-- ISSUE-MAKE:END -->\n?/g,
-      ''
-    );
-
-    await fs.writeFile(agentsPath, cleanedContent, 'utf-8');
-
-    return { success: true };
-  } catch (error) {
-    return {
-      success: false,
-      error: `Failed to clean up AGENTS.md: ${error}`,
-    };
-  }
-}
@@ -0,0 +1,48 @@
+/**
+ * Doctor Command Handler for TUI
+ * Check the .issues tree for inconsistencies and optionally repair them
+ */
+
+import * as path from 'path';
+import { IssueDoctor } from '../../core/doctor.js';
+import { DoctorFinding } from '../../core/types.js';
+
+/**
+ * Result type for doctor command
+ */
+export interface DoctorCommandResult {
+  success: boolean;
+  findings?: Array<DoctorFinding & { location?: string }>;
+  fixed?: string[];
+  error?: string;
+}
+
+/**
+ * Execute doctor command
+ * @param basePath - Project base path
+ * @param options - Set fix to repair the problems that can be repaired safely
+ * @returns DoctorCommandResult with the remaining problems and applied repairs
+ */
+export async function doctorCommandHandler(
+  basePath: string,
+  options: { fix?: boolean } = {}
+): Promise<DoctorCommandResult> {
+  const doctor = new IssueDoctor(basePath);
+  const result = await doctor.run({ fix: options.fix });
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || 'Failed to check issues',
+    };
+  }
+
+  return {
+    success: true,
+    findings: (result.findings || []).map(finding => ({
+      ...finding,
+      location: finding.filePath ? path.relative(basePath, finding.filePath) : undefined,
+    })),
+    fixed: result.fixed || [],
+  };
+}
@@ -11,5 +11,21 @@ export { openCommandHandler } from './open.js';
 export type { OpenCommandResult } from './open.js';
 export { closeCommandHandler } from './close.js';
 export type { CloseCommandResult } from './close.js';
+export { reopenCommandHandler } from './reopen.js';
+export type { ReopenCommandResult } from './reopen.js';
+export { moveCommandHandler } from './move.js';
+export type { MoveCommandResult } from './move.js';
+export { checkCommandHandler } from './check.js';
+export type { CheckCommandResult } from './check.js';
+export { noteCommandHandler } from './note.js';
+export type { NoteCommandResult } from './note.js';
+export { trackCommandHandler } from './track.js';
+export type { TrackCommandResult } from './track.js';
 export { listCommandHandler } from './list.js';
 export type { ListCommandResult } from './list.js';
+export { searchCommandHandler } from './search.js';
+export type { SearchCommandResult } from './search.js';
+export { showCommandHandler } from './show.js';
+export type { ShowCommandResult } from './show.js';
+export { doctorCommandHandler } from './doctor.js';
+export type { DoctorCommandResult } from './doctor.js';
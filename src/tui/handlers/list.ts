@@ -1,9 +1,11 @@
 /**
  * List Command Handler for TUI
- * List current issues in a table
+ * List current issues in a table or a machine-readable format
  */
 
 import { FileManager } from '../../core/file-manager.js';
+import { loadProjectConfig } from '../../core/project-config.js';
+import { OUTPUT_FORMATS, formatIssueList, parseOutputFormat } from '../../utils/output.js';
 
 export interface ListCommandResult {
   success: boolean;
@@ -11,29 +13,26 @@ export interface ListCommandResult {
   error?: string;
 }
 
-const formatTable = (rows: string[][]): string => {
-  if (rows.length === 0) {
-    return '';
+export async function listCommandHandler(
+  basePath: string,
+  options: { all?: boolean; group?: boolean; query?: string; format?: string } = {}
+): Promise<ListCommandResult> {
+  const format = parseOutputFormat(options.format);
+  if (!format) {
+    return {
+      success: false,
+      error: `Invalid format "${options.format}". Valid formats: ${OUTPUT_FORMATS.join(', ')}`,
+    };
+  }
+  if (options.group && format !== 'table') {
+    return {
+      success: false,
+      error: '--group only works with the table format',
+    };
   }
 
-  const columnCount = rows[0].length;
-  const widths = new Array(columnCount).fill(0).map((_, col) => {
-    return Math.max(...rows.map(row => row[col].length));
-  });
-
-  const formatRow = (row: string[]) =>
-    row.map((cell, col) => cell.padEnd(widths[col])).join('  ');
-
-  const header = formatRow(rows[0]);
-  const separator = widths.map(width => '-'.repeat(width)).join('  ');
-  const body = rows.slice(1).map(formatRow);
-
-  return [header, separator, ...body].join('\n');
-};
-
-export async function listCommandHandler(basePath: string): Promise<ListCommandResult> {
   const fileManager = new FileManager(basePath);
-  const result = await fileManager.listIssues();
+  const result = await fileManager.listIssues({ all: options.all, query: options.query });
 
   if (!result.success) {
     return {
@@ -43,25 +42,17 @@ export async function listCommandHandler(basePath: string): Promise<ListCommandR
   }
 
   const issues = result.issues || [];
-  if (issues.length === 0) {
+  if (issues.length === 0 && format === 'table') {
     return {
       success: true,
-      output: 'No issues found.',
+      output: options.query?.trim() ? 'No issues match the filter.' : 'No issues found.',
     };
   }
 
-  const rows = [
-    ['Index', 'Type', 'Status', 'Title'],
-    ...issues.map(issue => [
-      String(issue.index),
-      String(issue.type),
-      issue.status,
-      issue.title,
-    ]),
-  ];
-
   return {
     success: true,
-    output: formatTable(rows),
+    output: formatIssueList(issues, format, {
+      groupBy: options.group ? loadProjectConfig(basePath).workflow.states : undefined,
+    }),
   };
 }
@@ -0,0 +1,105 @@
+/**
+ * Move Command Handler for TUI
+ * Move an issue to another workflow state
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { removeAgentsTaskBlocks } from '../../core/agents.js';
+import { IssueCandidate, IssueStatus } from '../../core/types.js';
+import { getAgentsPath } from '../../utils/path.js';
+import { updateAgentsFile } from './open.js';
+
+/**
+ * Result type for move command
+ */
+export interface MoveCommandResult {
+  success: boolean;
+  issue?: {
+    number: number;
+    id?: string;
+    title: string;
+    type: string;
+  };
+  from?: string;
+  to?: string;
+  filePath?: string;
+  solutionPath?: string;
+  agentsPath?: string;
+  candidates?: IssueCandidate[];
+  error?: string;
+}
+
+/**
+ * Execute move command
+ * @param identifier - Issue number, stable ID or title
+ * @param state - Target workflow state
+ * @param basePath - Project base path
+ * @returns MoveCommandResult with success status and the states moved between
+ */
+export async function moveCommandHandler(
+  identifier: string,
+  state: string,
+  basePath: string
+): Promise<MoveCommandResult> {
+  if (!identifier || identifier.trim().length === 0 || !state || state.trim().length === 0) {
+    return {
+      success: false,
+      error: 'Please provide an issue identifier and a target state',
+    };
+  }
+
+  const fileManager = new FileManager(basePath);
+
+  // Move issue
+  const result = await fileManager.moveIssue(identifier, state.trim());
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error,
+      candidates: result.candidates,
+    };
+  }
+
+  const issue = result.issue!;
+
+  // Keep AGENTS.md describing exactly the issues in doing
+  let agentsPath: string | undefined;
+  if (result.to === IssueStatus.DOING) {
+    const updateResult = await updateAgentsFile(basePath, issue, result.solutionPath!);
+    if (!updateResult.success) {
+      return {
+        success: false,
+        error: `Issue moved but failed to update AGENTS.md: ${updateResult.error}`,
+      };
+    }
+    agentsPath = getAgentsPath(basePath);
+  } else if (result.from === IssueStatus.DOING) {
+    const cleanupResult = await removeAgentsTaskBlocks(
+      basePath,
+      block => block.number === issue.number
+    );
+    if (!cleanupResult.success) {
+      return {
+        success: false,
+        error: `Issue moved but failed to clean up AGENTS.md: ${cleanupResult.error}`,
+      };
+    }
+    agentsPath = cleanupResult.removed ? getAgentsPath(basePath) : undefined;
+  }
+
+  return {
+    success: true,
+    issue: {
+      number: issue.number,
+      id: issue.id,
+      title: issue.title,
+      type: issue.type,
+    },
+    from: result.from,
+    to: result.to,
+    filePath: issue.filePath,
+    solutionPath: result.solutionPath,
+    agentsPath,
+  };
+}
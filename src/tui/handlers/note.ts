@@ -0,0 +1,65 @@
+/**
+ * Note Command Handler for TUI
+ * Append a timestamped note to an issue
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { IssueCandidate, IssueNote } from '../../core/types.js';
+
+/**
+ * Result type for note command
+ */
+export interface NoteCommandResult {
+  success: boolean;
+  issue?: {
+    number: number;
+    id?: string;
+    title: string;
+  };
+  note?: IssueNote;
+  candidates?: IssueCandidate[];
+  error?: string;
+}
+
+/**
+ * Execute note command
+ * @param identifier - Issue number, stable ID or title
+ * @param text - Note text
+ * @param basePath - Project base path
+ * @returns NoteCommandResult with the issue and the note as written
+ */
+export async function noteCommandHandler(
+  identifier: string,
+  text: string,
+  basePath: string
+): Promise<NoteCommandResult> {
+  if (!identifier || identifier.trim().length === 0 || !text || text.trim().length === 0) {
+    return {
+      success: false,
+      error: 'Please provide an issue identifier and the note text',
+    };
+  }
+
+  const fileManager = new FileManager(basePath);
+
+  const result = await fileManager.addNote(identifier, text);
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error,
+      candidates: result.candidates,
+    };
+  }
+
+  const issue = result.issue!;
+  return {
+    success: true,
+    issue: {
+      number: issue.number,
+      id: issue.id,
+      title: issue.title,
+    },
+    note: result.note,
+  };
+}
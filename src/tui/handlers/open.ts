@@ -5,10 +5,9 @@
 
 import * as fs from 'fs/promises';
 import { FileManager } from '../../core/file-manager.js';
-import { getAgentsPath, getSolutionPath } from '../../utils/path.js';
-
-const ISSUE_MAKE_START = '<!-- ISSUE-MAKE:START -->';
-const ISSUE_MAKE_END = '<!-- ISSUE-MAKE:END -->';
+import { ISSUE_MAKE_END, ISSUE_MAKE_START, findAgentsTaskBlocks } from '../../core/agents.js';
+import { IssueCandidate } from '../../core/types.js';
+import { getAgentsPath } from '../../utils/path.js';
 
 /**
  * Result type for open command
@@ -17,12 +16,15 @@ export interface OpenCommandResult {
   success: boolean;
   issue?: {
     number: number;
+    id?: string;
     title: string;
     type: string;
     createDate: Date;
   };
   solutionPath?: string;
   agentsPath?: string;
+  reopened?: boolean;
+  candidates?: IssueCandidate[];
   error?: string;
 }
 
@@ -52,6 +54,7 @@ export async function openCommandHandler(
     return {
       success: false,
       error: result.error,
+      candidates: result.candidates,
     };
   }
 
@@ -60,7 +63,7 @@ export async function openCommandHandler(
   const agentsPath = getAgentsPath(basePath);
 
   // Update AGENTS.md
-  const updateResult = await updateAgentsFile(basePath, issue);
+  const updateResult = await updateAgentsFile(basePath, issue, solutionPath!);
 
   if (!updateResult.success) {
     return {
@@ -73,12 +76,14 @@ export async function openCommandHandler(
     success: true,
     issue: {
       number: issue.number,
+      id: issue.id,
       title: issue.title,
       type: issue.type,
       createDate: issue.createDate,
     },
     solutionPath,
     agentsPath,
+    reopened: result.reopened,
   };
 }
 
@@ -86,20 +91,21 @@ export async function openCommandHandler(
  * Update AGENTS.md file with task description
  * @param basePath - Project base path
  * @param issue - Issue object
+ * @param solutionPath - Path to the issue's solution draft
  * @returns Success status and error if any
  */
-async function updateAgentsFile(
+export async function updateAgentsFile(
   basePath: string,
-  issue: any
+  issue: any,
+  solutionPath: string
 ): Promise<{ success: boolean; error?: string }> {
   const agentsPath = getAgentsPath(basePath);
-  const solutionPath = getSolutionPath(basePath);
 
   const taskContent = `
 ${ISSUE_MAKE_START}
 ## Task: ${issue.title}
 
-**Issue ID:** ${issue.number}
+**Issue ID:** ${issue.number}${issue.id ? `\n**Stable ID:** ${issue.id}` : ''}
 **Type:** ${issue.type}
 **Created:** ${issue.createDate}
 
@@ -124,11 +130,10 @@ ${ISSUE_MAKE_END}
       agentsContent = '# AGENTS.md\n\nThis file contains tasks for AI agents.\n\n';
     }
 
-    // Remove existing ISSUE-MAKE section
-    const cleanedContent = agentsContent.replace(
-      /<!-- ISSUE-MAKE:START -->[\s\S]*?<!-- ISSUE-MAKE:END -->\n?/g,
-      ''
-    );
+    // Replace this issue's block; the blocks of other issues in doing stay
+    const cleanedContent = findAgentsTaskBlocks(agentsContent)
+      .filter(block => block.number === issue.number)
+      .reduce((content, block) => content.replace(block.text, ''), agentsContent);
 
     // Append new task
     const newContent = cleanedContent + taskContent;
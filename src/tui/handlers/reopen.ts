@@ -0,0 +1,73 @@
+/**
+ * Reopen Command Handler for TUI
+ * Restore an archived issue to doing
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { getAgentsPath } from '../../utils/path.js';
+import { updateAgentsFile } from './open.js';
+import type { OpenCommandResult } from './open.js';
+
+/**
+ * Result type for reopen command
+ */
+export type ReopenCommandResult = OpenCommandResult;
+
+/**
+ * Execute reopen command
+ * @param identifier - Original issue number or title
+ * @param basePath - Project base path
+ * @returns ReopenCommandResult with success status and issue details
+ */
+export async function reopenCommandHandler(
+  identifier: string,
+  basePath: string
+): Promise<ReopenCommandResult> {
+  if (!identifier || identifier.trim().length === 0) {
+    return {
+      success: false,
+      error: 'Please provide an issue identifier (number or title)',
+    };
+  }
+
+  const fileManager = new FileManager(basePath);
+
+  // Reopen issue
+  const result = await fileManager.reopenIssue(identifier);
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error,
+      candidates: result.candidates,
+    };
+  }
+
+  const issue = result.issue!;
+  const solutionPath = result.solutionPath;
+  const agentsPath = getAgentsPath(basePath);
+
+  // Update AGENTS.md
+  const updateResult = await updateAgentsFile(basePath, issue, solutionPath!);
+
+  if (!updateResult.success) {
+    return {
+      success: false,
+      error: `Issue reopened but failed to update AGENTS.md: ${updateResult.error}`,
+    };
+  }
+
+  return {
+    success: true,
+    issue: {
+      number: issue.number,
+      id: issue.id,
+      title: issue.title,
+      type: issue.type,
+      createDate: issue.createDate,
+    },
+    solutionPath,
+    agentsPath,
+    reopened: true,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Search Command Handler for TUI
+ * Full-text search over titles, descriptions, notes and solutions of all issues
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { formatSearchHits, parseSearchQuery } from '../../core/search.js';
+
+/**
+ * Number of hits shown in the message list
+ */
+const SEARCH_LIMIT = 10;
+
+/**
+ * Result type for search command
+ */
+export interface SearchCommandResult {
+  success: boolean;
+  output?: string;
+  error?: string;
+}
+
+/**
+ * Execute search command
+ * @param query - Query with plain terms, "quoted phrases" and -excluded terms
+ * @param basePath - Project base path
+ * @returns SearchCommandResult with the formatted hits
+ */
+export async function searchCommandHandler(query: string, basePath: string): Promise<SearchCommandResult> {
+  if (!query || query.trim().length === 0) {
+    return {
+      success: false,
+      error: 'Please provide something to search for',
+    };
+  }
+
+  const fileManager = new FileManager(basePath);
+  const result = await fileManager.searchIssues(query, { limit: SEARCH_LIMIT });
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+
+  const hits = result.hits ?? [];
+  if (hits.length === 0) {
+    return {
+      success: true,
+      output: `No issues match "${query.trim()}".`,
+    };
+  }
+
+  const total = result.total ?? hits.length;
+  const shown = total > hits.length ? ` (showing the best ${hits.length})` : '';
+  return {
+    success: true,
+    output: `${total} issue${total === 1 ? ' matches' : 's match'} "${query.trim()}"${shown}\n\n${formatSearchHits(
+      hits,
+      parseSearchQuery(query)
+    )}`,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Show Command Handler for TUI
+ * Render one issue without moving it
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { IssueCandidate } from '../../core/types.js';
+import { formatHistory, formatIssueBody, formatIssueHeader } from '../../utils/output.js';
+
+/**
+ * Result type for show command
+ */
+export interface ShowCommandResult {
+  success: boolean;
+  output?: string;
+  candidates?: IssueCandidate[];
+  error?: string;
+}
+
+/**
+ * Execute show command
+ * @param identifier - Issue number, stable ID or title
+ * @param basePath - Project base path
+ * @param options - Set history to show the state change timeline instead of the body
+ * @returns ShowCommandResult with the rendered issue
+ */
+export async function showCommandHandler(
+  identifier: string,
+  basePath: string,
+  options: { history?: boolean } = {}
+): Promise<ShowCommandResult> {
+  if (!identifier || identifier.trim().length === 0) {
+    return {
+      success: false,
+      error: 'Please provide an issue identifier (number or title)',
+    };
+  }
+
+  const fileManager = new FileManager(basePath);
+  const result = await fileManager.findIssue(identifier.trim());
+
+  if (!result.found || !result.issue) {
+    return {
+      success: false,
+      error: result.error || 'Issue not found',
+      candidates: result.candidates,
+    };
+  }
+
+  const issue = result.issue;
+  const body = options.history ? formatHistory(issue) : formatIssueBody(issue);
+  return {
+    success: true,
+    output: [...formatIssueHeader(issue, basePath), '', body].join('\n').trimEnd(),
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Track Command Handler for TUI
+ * Start, pause and resume work sessions on issues in doing
+ */
+
+import { FileManager } from '../../core/file-manager.js';
+import { IssueCandidate, TimeTrackingAction } from '../../core/types.js';
+
+/**
+ * Result type for start, pause and resume commands
+ */
+export interface TrackCommandResult {
+  success: boolean;
+  issue?: {
+    number: number;
+    id?: string;
+    title: string;
+  };
+  totalMinutes?: number;
+  candidates?: IssueCandidate[];
+  error?: string;
+}
+
+/**
+ * Execute start, pause or resume command
+ * @param action - Tracking action
+ * @param identifier - Issue number, stable ID or title; picked from doing when empty
+ * @param basePath - Project base path
+ * @returns TrackCommandResult with the issue and the time tracked on it so far
+ */
+export async function trackCommandHandler(
+  action: TimeTrackingAction,
+  identifier: string,
+  basePath: string
+): Promise<TrackCommandResult> {
+  const fileManager = new FileManager(basePath);
+
+  const result = await fileManager.trackTime(action, identifier.trim() || undefined);
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error,
+      candidates: result.candidates,
+    };
+  }
+
+  const issue = result.issue!;
+  return {
+    success: true,
+    issue: {
+      number: issue.number,
+      id: issue.id,
+      title: issue.title,
+    },
+    totalMinutes: result.totalMinutes,
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Actor Utilities
+ * Work out who performs a change so it can be recorded in the issue history
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Get the name to record for changes made in a project
+ * Uses git's user.name as seen from the project, then $USER ($USERNAME on Windows)
+ * @param basePath - Base project path
+ * @returns Actor name, or "unknown" when nothing is configured
+ */
+export async function getActor(basePath: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', ['config', 'user.name'], {
+      cwd: basePath,
+      timeout: 5000,
+    });
+    if (stdout.trim()) {
+      return stdout.trim();
+    }
+  } catch (error) {
+    // git is missing, the directory is gone or no name is configured
+  }
+
+  return process.env.USER?.trim() || process.env.USERNAME?.trim() || 'unknown';
+}
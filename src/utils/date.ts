@@ -42,6 +42,31 @@ export function parseDate(dateString: string): Date | null {
   return date;
 }
 
+/**
+ * Convert a date written in an older format to YYYY-MM-DD
+ * Accepts Date objects and year-first dates with -, / or . separators, optionally followed by a time;
+ * day-first and month-first dates are ambiguous and rejected
+ * @param value - Date value from frontmatter
+ * @returns Date in YYYY-MM-DD format or null if it cannot be converted safely
+ */
+export function normalizeDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : formatDate(value);
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = value.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ]\S.*)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day] = match;
+  const normalized = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  return parseDate(normalized) ? normalized : null;
+}
+
 /**
  * Get current date in YYYY-MM-DD format
  * @returns Current date as formatted string
@@ -50,6 +75,25 @@ export function getCurrentDate(): string {
   return formatDate(new Date());
 }
 
+/**
+ * Get the current time as an ISO 8601 UTC timestamp without milliseconds
+ * @returns Timestamp such as 2026-01-12T09:30:00Z
+ */
+export function getCurrentDateTime(): string {
+  return new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Format a timestamp in local time for display
+ * @param date - Date to format
+ * @returns Date and time in YYYY-MM-DD HH:MM format
+ */
+export function formatDateTime(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${formatDate(date)} ${hours}:${minutes}`;
+}
+
 /**
  * Get current timestamp for fallback title generation
  * @returns Timestamp string
@@ -88,3 +132,55 @@ export function getDaysBetween(date1: Date, date2: Date): number {
   const oneDay = 24 * 60 * 60 * 1000;
   return Math.round((date2.getTime() - date1.getTime()) / oneDay);
 }
+
+/**
+ * Get whole minutes between two points in time
+ * @param start - Start time
+ * @param end - End time
+ * @returns Number of minutes, never negative
+ */
+export function getMinutesBetween(start: Date, end: Date): number {
+  return Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000));
+}
+
+/**
+ * Format minutes of tracked time
+ * @param minutes - Duration in minutes
+ * @returns Duration such as 45m, 3h or 2h 05m
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) {
+    return `${rest}m`;
+  }
+  return rest === 0 ? `${hours}h` : `${hours}h ${String(rest).padStart(2, '0')}m`;
+}
+
+/**
+ * Minutes per duration unit; days and weeks are working days and weeks
+ */
+const DURATION_UNITS: Record<string, number> = {
+  m: 1,
+  h: 60,
+  d: 8 * 60,
+  w: 5 * 8 * 60,
+};
+
+/**
+ * Parse a duration such as 30m, 2h, 1.5d or 1w2d
+ * @param text - Duration string
+ * @returns Duration in minutes or null if invalid
+ */
+export function parseDuration(text: string): number | null {
+  const trimmed = text.trim().toLowerCase();
+  if (!/^(\d+(\.\d+)?[wdhm])+$/.test(trimmed)) {
+    return null;
+  }
+
+  let minutes = 0;
+  for (const [, amount, unit] of trimmed.matchAll(/(\d+(?:\.\d+)?)([wdhm])/g)) {
+    minutes += parseFloat(amount) * DURATION_UNITS[unit];
+  }
+  return minutes > 0 ? Math.round(minutes) : null;
+}
@@ -0,0 +1,118 @@
+/**
+ * Diff Utilities
+ * Line diffs for previewing file rewrites
+ */
+
+/**
+ * Line of a diff: unchanged, removed or added
+ */
+export interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * Compute a line diff between two texts
+ * Uses the longest common subsequence of the lines that differ after trimming the shared start and end
+ * @param before - Original text
+ * @param after - New text
+ * @returns Diff lines in order
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start += 1;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA -= 1;
+    endB -= 1;
+  }
+
+  // lengths[i][j] is the LCS length of a[i..endA) and b[j..endB)
+  const rows = endA - start;
+  const cols = endB - start;
+  const lengths = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = cols - 1; j >= 0; j -= 1) {
+      lengths[i][j] =
+        a[start + i] === b[start + j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map(text => ({ type: ' ', text }));
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && a[start + i] === b[start + j]) {
+      lines.push({ type: ' ', text: a[start + i] });
+      i += 1;
+      j += 1;
+    } else if (i < rows && (j === cols || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      // Removals go first so a replaced line reads as - then +
+      lines.push({ type: '-', text: a[start + i] });
+      i += 1;
+    } else {
+      lines.push({ type: '+', text: b[start + j] });
+      j += 1;
+    }
+  }
+  lines.push(...a.slice(endA).map(text => ({ type: ' ' as const, text })));
+
+  return lines;
+}
+
+/**
+ * Format the changes between two texts as a unified diff
+ * @param before - Original text
+ * @param after - New text
+ * @param options - File label for the header and lines of context around each change
+ * @returns Unified diff, or an empty string when the texts are equal
+ */
+export function formatUnifiedDiff(
+  before: string,
+  after: string,
+  options: { file: string; context?: number }
+): string {
+  const context = options.context ?? 3;
+  const lines = diffLines(before, after);
+  const changed = lines
+    .map((line, index) => (line.type === ' ' ? -1 : index))
+    .filter(index => index >= 0);
+  if (changed.length === 0) {
+    return '';
+  }
+
+  // Group changes whose context would touch into one hunk
+  const hunks: Array<{ from: number; to: number }> = [];
+  for (const index of changed) {
+    const from = Math.max(0, index - context);
+    const to = Math.min(lines.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= last.to) {
+      last.to = to;
+    } else {
+      hunks.push({ from, to });
+    }
+  }
+
+  const output = [`--- a/${options.file}`, `+++ b/${options.file}`];
+  for (const { from, to } of hunks) {
+    const preceding = lines.slice(0, from);
+    const body = lines.slice(from, to);
+    const oldStart = preceding.filter(line => line.type !== '+').length + 1;
+    const newStart = preceding.filter(line => line.type !== '-').length + 1;
+    const oldCount = body.filter(line => line.type !== '+').length;
+    const newCount = body.filter(line => line.type !== '-').length;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...body.map(line => `${line.type}${line.text}`));
+  }
+
+  return output.join('\n');
+}
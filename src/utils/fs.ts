@@ -0,0 +1,55 @@
+/**
+ * File System Utilities
+ * Helper functions for crash-safe file writes
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Check if filename is a temporary file left by writeFileAtomic
+ * @param filename - Filename to check
+ * @returns true if filename matches the temporary file pattern
+ */
+export function isTempFile(filename: string): boolean {
+  return /^\..+\.\d+\.\d+\.tmp$/.test(filename);
+}
+
+/**
+ * Get a temporary path next to the target so the final rename stays on one filesystem
+ * @param filePath - Target file path
+ * @returns Temporary file path
+ */
+function getTempPath(filePath: string): string {
+  const dir = path.dirname(filePath);
+  const base = path.basename(filePath);
+  return path.join(dir, `.${base}.${process.pid}.${Date.now()}.tmp`);
+}
+
+/**
+ * Write a file so readers see either the old or the new content, never a partial write
+ * @param filePath - Target file path
+ * @param content - File content
+ * @param options - Set exclusive to fail with EEXIST instead of replacing an existing file
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  content: string,
+  options: { exclusive?: boolean } = {}
+): Promise<void> {
+  const tempPath = getTempPath(filePath);
+  await fs.writeFile(tempPath, content, 'utf-8');
+
+  try {
+    if (options.exclusive) {
+      // link() refuses to replace an existing target, unlike rename()
+      await fs.link(tempPath, filePath);
+      await fs.unlink(tempPath);
+    } else {
+      await fs.rename(tempPath, filePath);
+    }
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Git Utilities
+ * Read repository state used to fill issue templates
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Get the branch checked out in a project
+ * @param basePath - Base project path
+ * @returns Branch name, or an empty string outside a repository or on a detached HEAD
+ */
+export async function getGitBranch(basePath: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', ['rev-parse', '--abbrev-ref', 'HEAD'], {
+      cwd: basePath,
+      timeout: 5000,
+    });
+    const branch = stdout.trim();
+    return branch === 'HEAD' ? '' : branch;
+  } catch (error) {
+    // HEAD cannot be resolved before the first commit, but it still names the branch
+  }
+
+  try {
+    const { stdout } = await execFileAsync('git', ['symbolic-ref', '--short', 'HEAD'], {
+      cwd: basePath,
+      timeout: 5000,
+    });
+    return stdout.trim();
+  } catch (error) {
+    // git is missing or the directory is not a repository
+    return '';
+  }
+}
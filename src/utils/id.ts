@@ -0,0 +1,40 @@
+/**
+ * Stable ID Utilities
+ * Helper functions for the permanent issue identifiers stored in frontmatter
+ */
+
+/**
+ * Prefix of stable issue IDs
+ */
+export const ISSUE_UID_PREFIX = 'IM';
+
+/**
+ * Format a counter value as a stable issue ID
+ * @param value - Counter value
+ * @returns Stable ID with format IM-{value}
+ */
+export function formatIssueUid(value: number): string {
+  return `${ISSUE_UID_PREFIX}-${value}`;
+}
+
+/**
+ * Parse the counter value from a stable issue ID
+ * @param uid - Stable ID string (case insensitive)
+ * @returns Counter value or null if not a stable ID
+ */
+export function parseIssueUid(uid: unknown): number | null {
+  if (typeof uid !== 'string') {
+    return null;
+  }
+  const match = uid.trim().match(new RegExp(`^${ISSUE_UID_PREFIX}-(\\d+)$`, 'i'));
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Check if identifier is a stable issue ID
+ * @param identifier - Identifier string
+ * @returns true if identifier has the form IM-{number}
+ */
+export function isUidIdentifier(identifier: string): boolean {
+  return parseIssueUid(identifier) !== null;
+}
@@ -0,0 +1,111 @@
+/**
+ * Markdown Utilities
+ * Render issue bodies for the terminal with headings, code blocks, lists and checklists styled
+ */
+
+import chalk from 'chalk';
+
+/**
+ * Width of the rule a thematic break turns into
+ */
+const RULE_WIDTH = 40;
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const CHECKLIST_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/;
+const BULLET_PATTERN = /^(\s*)[-*+]\s+(.*)$/;
+const ORDERED_PATTERN = /^(\s*)(\d+[.)])\s+(.*)$/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+
+/**
+ * Style the inline markup of one line: `code`, **bold**, *emphasis*, ![images](src) and [links](url)
+ * Code spans are styled as they are, without looking for other markup inside them
+ * @param text - Line of markdown outside a code block
+ * @returns Styled text without the markup characters
+ */
+function renderInline(text: string): string {
+  return text
+    .split(/(`[^`]+`)/)
+    .map((part, index) => {
+      if (index % 2 === 1) {
+        return chalk.cyan(part.slice(1, -1));
+      }
+      return part
+        .replace(
+          /!\[([^\]]*)\]\(([^)\s]+)\)/g,
+          (_, alt: string, src: string) => chalk.dim(`[image: ${alt}] (${src})`)
+        )
+        .replace(
+          /\[([^\]]+)\]\(([^)\s]+)\)/g,
+          (_, label: string, url: string) => `${chalk.underline(label)} ${chalk.dim(`(${url})`)}`
+        )
+        .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, (_, _marker: string, inner: string) => chalk.bold(inner))
+        .replace(
+          /(^|[^\w*])([*_])(?=\S)(.+?)(?<=\S)\2(?![\w*])/g,
+          (_, before: string, _marker: string, inner: string) => `${before}${chalk.italic(inner)}`
+        );
+    })
+    .join('');
+}
+
+/**
+ * Render markdown for the terminal
+ * Fences are dropped and their lines marked as code; everything else keeps its line so the layout
+ * of the file survives, and without colour support the output is still readable plain text
+ * @param markdown - Markdown text
+ * @returns Styled text
+ */
+export function renderMarkdown(markdown: string): string {
+  const lines: string[] = [];
+  let fence: string | null = null;
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const marker = line.match(/^\s*(```|~~~)/)?.[1];
+    if (marker && (fence === null || fence === marker)) {
+      fence = fence === null ? marker : null;
+      continue;
+    }
+    if (fence !== null) {
+      lines.push(`${chalk.dim('│')} ${chalk.cyan(line)}`);
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      const text = renderInline(heading[2]);
+      lines.push(heading[1].length === 1 ? chalk.bold.underline(text) : chalk.bold(text));
+      continue;
+    }
+    if (RULE_PATTERN.test(line)) {
+      lines.push(chalk.dim('─'.repeat(RULE_WIDTH)));
+      continue;
+    }
+
+    const task = line.match(CHECKLIST_PATTERN);
+    if (task) {
+      const checked = task[2] !== ' ';
+      const text = renderInline(task[3]);
+      lines.push(`${task[1]}${checked ? chalk.green('☑') : '☐'} ${checked ? chalk.dim(text) : text}`);
+      continue;
+    }
+    const bullet = line.match(BULLET_PATTERN);
+    if (bullet) {
+      lines.push(`${bullet[1]}${chalk.dim('•')} ${renderInline(bullet[2])}`);
+      continue;
+    }
+    const ordered = line.match(ORDERED_PATTERN);
+    if (ordered) {
+      lines.push(`${ordered[1]}${chalk.dim(ordered[2])} ${renderInline(ordered[3])}`);
+      continue;
+    }
+    const quote = line.match(QUOTE_PATTERN);
+    if (quote) {
+      lines.push(`${chalk.dim('│')} ${chalk.italic(renderInline(quote[1]))}`);
+      continue;
+    }
+
+    lines.push(renderInline(line));
+  }
+
+  return lines.join('\n');
+}
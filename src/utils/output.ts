@@ -0,0 +1,394 @@
+/**
+ * Output Utilities
+ * Render issues as text tables or in machine-readable formats for scripts
+ */
+
+import * as path from 'path';
+import * as yaml from 'yaml';
+import chalk from 'chalk';
+import {
+  IssueDetailRecord,
+  IssueFile,
+  IssueListItem,
+  IssueNote,
+  IssueRecord,
+  SearchHit,
+  SearchRecord,
+  WorkflowState,
+} from '../core/types.js';
+import { formatChecklistProgress, getChecklistProgress, parseChecklist } from '../core/checklist.js';
+import { parseIssueBody } from '../core/notes.js';
+import { getSessionMinutes } from '../core/time-report.js';
+import { formatDateTime, formatDuration, normalizeDate } from './date.js';
+import { renderMarkdown } from './markdown.js';
+import { parseIssueFields, parseIssueHistory, parseIssueLinks, parseWorkSessions } from './validation.js';
+import { buildIssueRows, formatTable } from './table.js';
+
+/**
+ * Formats accepted by --format; table is the human-readable default
+ */
+export const OUTPUT_FORMATS = ['table', 'json', 'csv', 'tsv', 'markdown', 'yaml'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Column of a tabular rendering of records
+ */
+interface RecordColumn<T> {
+  header: string;
+  value: (record: T) => unknown;
+}
+
+const ISSUE_RECORD_COLUMNS: Array<RecordColumn<IssueRecord>> = [
+  { header: 'number', value: record => record.number },
+  { header: 'id', value: record => record.id },
+  { header: 'title', value: record => record.title },
+  { header: 'type', value: record => record.type },
+  { header: 'status', value: record => record.status },
+  { header: 'priority', value: record => record.priority },
+  { header: 'labels', value: record => record.labels },
+  { header: 'assignee', value: record => record.assignee },
+  { header: 'due', value: record => record.due },
+  { header: 'estimate', value: record => record.estimate },
+  { header: 'updated', value: record => record.updated },
+  { header: 'checklist', value: record => (record.checklist ? formatChecklistProgress(record.checklist) : null) },
+  { header: 'blocks', value: record => record.blocks },
+  { header: 'blockedBy', value: record => record.blockedBy },
+];
+
+const DETAIL_RECORD_COLUMNS: Array<RecordColumn<IssueDetailRecord>> = [
+  ...ISSUE_RECORD_COLUMNS,
+  { header: 'created', value: record => record.created },
+  { header: 'file', value: record => record.file },
+  { header: 'timeTracked', value: record => record.timeTracked },
+  { header: 'description', value: record => record.description },
+  { header: 'notes', value: record => record.notes.map(note => `${note.at} ${note.by}: ${note.text}`) },
+  { header: 'solution', value: record => record.solution },
+];
+
+const SEARCH_RECORD_COLUMNS: Array<RecordColumn<SearchRecord>> = [
+  ...ISSUE_RECORD_COLUMNS,
+  { header: 'score', value: record => record.score },
+  { header: 'snippets', value: record => record.snippets.map(snippet => `${snippet.field}: ${snippet.text}`) },
+];
+
+/**
+ * Parse the value of a --format option
+ * @param value - Option value, or undefined when the option was not given
+ * @returns Output format, or null if it is not supported
+ */
+export function parseOutputFormat(value: string | undefined): OutputFormat | null {
+  if (value === undefined) {
+    return 'table';
+  }
+  const format = value.trim().toLowerCase();
+  return (OUTPUT_FORMATS as readonly string[]).includes(format) ? (format as OutputFormat) : null;
+}
+
+/**
+ * Convert a list entry to its stable record shape
+ * @param issue - Issue from listIssues
+ * @returns Issue record
+ */
+export function toIssueRecord(issue: IssueListItem): IssueRecord {
+  return {
+    number: issue.number,
+    id: issue.id ?? null,
+    title: issue.title,
+    type: String(issue.type),
+    status: issue.status,
+    priority: issue.priority ?? null,
+    labels: issue.labels ?? [],
+    assignee: issue.assignee ?? null,
+    due: issue.due ?? null,
+    estimate: issue.estimate ?? null,
+    updated: issue.updated ?? null,
+    checklist: issue.checklist ?? null,
+    blocks: issue.blocks ?? [],
+    blockedBy: issue.blockedBy ?? [],
+  };
+}
+
+/**
+ * Convert a loaded issue to its stable detail record
+ * @param issue - Issue from findIssue
+ * @param basePath - Base project path, used to make the file path relative
+ * @param now - Current time, used for a running work session
+ * @returns Issue detail record
+ */
+export function toIssueDetailRecord(issue: IssueFile, basePath: string, now: Date = new Date()): IssueDetailRecord {
+  const metadata = (issue.metadata ?? {}) as unknown as Record<string, unknown>;
+  const fields = parseIssueFields(metadata);
+  const { description, notes, solution } = parseIssueBody(issue.content);
+
+  return {
+    ...toIssueRecord({
+      title: issue.title,
+      number: issue.number,
+      index: issue.number,
+      id: issue.id,
+      type: issue.type,
+      status: issue.status,
+      ...fields,
+      checklist: getChecklistProgress(parseChecklist(issue.content)),
+      blocks: parseIssueLinks(metadata.Blocks),
+      blockedBy: parseIssueLinks(metadata.BlockedBy),
+    }),
+    created: normalizeDate(metadata['Create Date']),
+    file: issue.filePath ? path.relative(basePath, issue.filePath) : null,
+    timeTracked: parseWorkSessions(metadata).reduce(
+      (sum, session) => sum + getSessionMinutes(session, null, now),
+      0
+    ),
+    description: description.trim(),
+    notes,
+    // Drop the separator in front of the first solution; its heading stays to tell current from previous
+    solution: solution.replace(/^\s*---\s*\n/, '').trim() || null,
+    history: parseIssueHistory(metadata).map(entry => ({
+      at: entry.At,
+      from: entry.From,
+      to: entry.To,
+      by: entry.By,
+    })),
+  };
+}
+
+/**
+ * Convert a search hit to its stable record shape
+ * @param hit - Hit from searchIssues
+ * @returns Search record with the score rounded to three decimals
+ */
+export function toSearchRecord(hit: SearchHit): SearchRecord {
+  return {
+    ...toIssueRecord(hit.issue),
+    score: Math.round(hit.score * 1000) / 1000,
+    snippets: hit.snippets,
+  };
+}
+
+/**
+ * Turn a record value into a single table cell
+ * @param value - Record value
+ * @returns Cell text; lists are joined with commas and null is empty
+ */
+function toCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+/**
+ * Format rows as comma- or tab-separated values
+ * CSV quotes cells as RFC 4180 does; TSV escapes tabs, newlines and backslashes instead
+ * @param rows - Header row followed by data rows
+ * @param delimiter - , for CSV or a tab for TSV
+ * @returns Delimited text
+ */
+function formatDelimited(rows: string[][], delimiter: ',' | '\t'): string {
+  const escape =
+    delimiter === ','
+      ? (cell: string) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)
+      : (cell: string) =>
+          cell.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+  return rows.map(row => row.map(escape).join(delimiter)).join('\n');
+}
+
+/**
+ * Format rows as a GitHub-flavoured markdown table
+ * @param rows - Header row followed by data rows
+ * @returns Markdown table
+ */
+function formatMarkdownTable(rows: string[][]): string {
+  const escape = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  const line = (row: string[]) => `| ${row.map(escape).join(' | ')} |`;
+  return [line(rows[0]), line(rows[0].map(() => '---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+/**
+ * Render records in a machine-readable format
+ * JSON and YAML keep the full record; CSV, TSV and markdown flatten it to the given columns
+ * @param records - Records to render
+ * @param format - Output format other than table
+ * @param columns - Columns for the tabular formats
+ * @returns Rendered records
+ */
+function formatRecords<T>(records: T[], format: Exclude<OutputFormat, 'table'>, columns: Array<RecordColumn<T>>): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(records, null, 2);
+    case 'yaml':
+      return yaml.stringify(records).trimEnd();
+    default: {
+      const rows = [
+        columns.map(column => column.header),
+        ...records.map(record => columns.map(column => toCell(column.value(record)))),
+      ];
+      return format === 'markdown' ? formatMarkdownTable(rows) : formatDelimited(rows, format === 'csv' ? ',' : '\t');
+    }
+  }
+}
+
+/**
+ * Format issues from listIssues
+ * The table format prints nothing for an empty list so callers can say so in their own words
+ * @param issues - Issues to show
+ * @param format - Output format
+ * @param options - Workflow states to group the table by, in order
+ * @returns Rendered issues
+ */
+export function formatIssueList(
+  issues: IssueListItem[],
+  format: OutputFormat,
+  options: { groupBy?: WorkflowState[] } = {}
+): string {
+  if (format !== 'table') {
+    return formatRecords(issues.map(toIssueRecord), format, ISSUE_RECORD_COLUMNS);
+  }
+  if (issues.length === 0) {
+    return '';
+  }
+  if (!options.groupBy) {
+    return formatTable(buildIssueRows(issues));
+  }
+
+  // One table per workflow state, skipping states without issues
+  return options.groupBy
+    .map(state => ({ state, inState: issues.filter(issue => issue.status === state.name) }))
+    .filter(({ inState }) => inState.length > 0)
+    .map(
+      ({ state, inState }) =>
+        `${state.name} (${inState.length}) - ${state.description}\n${formatTable(
+          buildIssueRows(inState, { status: false })
+        )}`
+    )
+    .join('\n\n');
+}
+
+/**
+ * Format one issue for show in a machine-readable format
+ * @param issue - Issue from findIssue
+ * @param format - Output format other than table
+ * @param basePath - Base project path
+ * @returns Rendered issue; JSON and YAML print the record itself, not a list
+ */
+export function formatIssueDetail(
+  issue: IssueFile,
+  format: Exclude<OutputFormat, 'table'>,
+  basePath: string
+): string {
+  const record = toIssueDetailRecord(issue, basePath);
+  if (format === 'json') {
+    return JSON.stringify(record, null, 2);
+  }
+  if (format === 'yaml') {
+    return yaml.stringify(record).trimEnd();
+  }
+  return formatRecords([record], format, DETAIL_RECORD_COLUMNS);
+}
+
+/**
+ * Format search hits in a machine-readable format
+ * @param hits - Ranked hits
+ * @param format - Output format other than table
+ * @returns Rendered hits, best first
+ */
+export function formatSearchRecords(hits: SearchHit[], format: Exclude<OutputFormat, 'table'>): string {
+  return formatRecords(hits.map(toSearchRecord), format, SEARCH_RECORD_COLUMNS);
+}
+
+/**
+ * Format the header show prints above an issue: its title and the fields from its frontmatter
+ * @param issue - Issue from findIssue
+ * @param basePath - Base project path, used to make the file path relative
+ * @param now - Current time, used for a running work session
+ * @returns Header lines
+ */
+export function formatIssueHeader(issue: IssueFile, basePath: string, now: Date = new Date()): string[] {
+  const metadata = (issue.metadata ?? {}) as unknown as Record<string, unknown>;
+  const fields = parseIssueFields(metadata);
+  const lines = [`${chalk.bold(`#${issue.number} ${issue.title}`)}${issue.id ? ` (${issue.id})` : ''}`];
+  const field = (label: string, value: string | undefined) => {
+    if (value) {
+      lines.push(`  ${chalk.dim(`${label}:`)} ${value}`);
+    }
+  };
+
+  field('Type', issue.type);
+  field('Status', chalk.cyan(issue.status));
+  field('Priority', fields.priority);
+  field('Labels', fields.labels?.join(', '));
+  field('Assignee', fields.assignee);
+  field('Due', fields.due);
+  field('Estimate', fields.estimate);
+  field('Created', normalizeDate(metadata['Create Date']) ?? undefined);
+  field('Updated', fields.updated);
+
+  const sessions = parseWorkSessions(metadata);
+  if (sessions.length > 0) {
+    const minutes = sessions.reduce((sum, session) => sum + getSessionMinutes(session, null, now), 0);
+    const running = sessions.some(session => !session.End) ? ' (running)' : '';
+    field('Time tracked', `${formatDuration(minutes)}${running}`);
+  }
+  field('Blocks', parseIssueLinks(metadata.Blocks).join(', '));
+  field('Blocked by', parseIssueLinks(metadata.BlockedBy).join(', '));
+  const checklist = getChecklistProgress(parseChecklist(issue.content));
+  field('Checklist', checklist && formatChecklistProgress(checklist));
+  field('File', issue.filePath && path.relative(basePath, issue.filePath));
+
+  return lines;
+}
+
+/**
+ * Format the body of an issue for the terminal
+ * Notes are shown apart from the description they comment on, and the markdown is styled
+ * @param issue - Issue from findIssue
+ * @returns Description, notes and merged solutions
+ */
+export function formatIssueBody(issue: IssueFile): string {
+  const { description, notes, solution } = parseIssueBody(issue.content);
+  return [renderMarkdown(description.trim()), formatNotes(notes), renderMarkdown(solution.trim())]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Format the notes of an issue, oldest first
+ * @param notes - Notes from the issue body
+ * @returns Notes text, or an empty string when there are none
+ */
+export function formatNotes(notes: IssueNote[]): string {
+  if (notes.length === 0) {
+    return '';
+  }
+
+  const entries = notes.map(note => {
+    const text = renderMarkdown(note.text)
+      .split('\n')
+      .map(line => (line ? `    ${line}` : line))
+      .join('\n');
+    return `  ${chalk.dim(`${formatDateTime(new Date(note.at))}  ${note.by}`)}\n${text}`;
+  });
+  return [chalk.bold(`Notes (${notes.length})`), ...entries].join('\n\n');
+}
+
+/**
+ * Format the timeline of an issue, starting with its creation
+ * @param issue - Loaded issue
+ * @returns Timeline text
+ */
+export function formatHistory(issue: IssueFile): string {
+  const rows = [['When', 'Change', 'By']];
+  const created = issue.metadata?.['Create Date'];
+  if (created) {
+    rows.push([String(created), 'created', '-']);
+  }
+  for (const entry of parseIssueHistory(issue.metadata ?? {})) {
+    rows.push([formatDateTime(new Date(entry.At)), `${entry.From} -> ${entry.To}`, entry.By]);
+  }
+
+  if (rows.length === 1) {
+    return 'No recorded history';
+  }
+  return formatTable(rows);
+}
@@ -4,25 +4,38 @@
  */
 
 import * as path from 'path';
+import {
+  FilenameScheme,
+  DEFAULT_PROJECT_CONFIG,
+  loadProjectConfig,
+  findWorkflowState,
+} from '../core/project-config.js';
 
 /**
  * Sanitize a title for use in filenames
  * Replaces invalid characters with underscores
  * @param title - Title to sanitize
+ * @param scheme - Word separator and length limit from the project config
  * @returns Sanitized title
  */
-export function sanitizeTitle(title: string): string {
+export function sanitizeTitle(
+  title: string,
+  scheme: FilenameScheme = DEFAULT_PROJECT_CONFIG.filenames
+): string {
+  const separator = scheme.wordSeparator;
+  const edges = new RegExp(`^[${separator}-]+|[${separator}-]+$`, 'g');
+
   // Remove or replace invalid characters
   let sanitized = title
     .replace(/[<>:"/\\|?*]/g, '_') // Invalid filename characters
-    .replace(/\s+/g, '-') // Replace spaces with dashes
+    .replace(/\s+/g, separator) // Replace spaces with the word separator
     .replace(/_+/g, '_') // Collapse consecutive underscores
     .replace(/-+/g, '-') // Remove consecutive dashes
-    .replace(/^-+|-+$/g, ''); // Remove leading/trailing dashes
+    .replace(edges, ''); // Remove leading/trailing separators
 
   // Limit length
-  if (sanitized.length > 80) {
-    sanitized = sanitized.substring(0, 80);
+  if (sanitized.length > scheme.maxTitleLength) {
+    sanitized = sanitized.substring(0, scheme.maxTitleLength);
   }
 
   if (!sanitized || sanitized.replace(/[-_]+/g, '').trim().length === 0) {
@@ -36,21 +49,65 @@ export function sanitizeTitle(title: string): string {
  * Generate filename for issue in stash/doing directories
  * @param title - Issue title
  * @param number - Issue number
+ * @param scheme - Filename scheme from the project config
  * @returns Filename with format {sanitized-title}.{number}.md
  */
-export function generateIssueFilename(title: string, number: number): string {
-  const sanitized = sanitizeTitle(title);
+export function generateIssueFilename(
+  title: string,
+  number: number,
+  scheme?: FilenameScheme
+): string {
+  const sanitized = sanitizeTitle(title, scheme);
   return `${sanitized}.${number}.md`;
 }
 
 /**
  * Generate filename for issue in achieved directory
+ * The close date and original index keep names apart; a numeric suffix resolves the rest
  * @param title - Issue title
- * @returns Filename with format {sanitized-title}.md
+ * @param number - Original issue number, or null when unknown
+ * @param closeDate - Close date in YYYY-MM-DD format
+ * @param existing - Filenames already present in the achieved directory
+ * @param scheme - Filename scheme from the project config
+ * @returns Filename with format {close-date}_{sanitized-title}.{number}.md
  */
-export function generateAchievedFilename(title: string): string {
-  const sanitized = sanitizeTitle(title);
-  return `${sanitized}.md`;
+export function generateAchievedFilename(
+  title: string,
+  number: number | null,
+  closeDate: string,
+  existing: Iterable<string> = [],
+  scheme?: FilenameScheme
+): string {
+  const sanitized = sanitizeTitle(title, scheme);
+  const suffix = number === null ? '.md' : `.${number}.md`;
+  // Compare case-insensitively so names stay distinct on case-insensitive filesystems
+  const taken = new Set(Array.from(existing, name => name.toLowerCase()));
+
+  let filename = `${closeDate}_${sanitized}${suffix}`;
+  for (let counter = 2; taken.has(filename.toLowerCase()); counter += 1) {
+    filename = `${closeDate}_${sanitized}-${counter}${suffix}`;
+  }
+  return filename;
+}
+
+/**
+ * Check if an achieved filename follows the collision-safe naming scheme
+ * @param filename - Filename to check
+ * @returns true if filename starts with a close date prefix
+ */
+export function isDatedArchiveFilename(filename: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}_.+\.md$/.test(filename);
+}
+
+/**
+ * Extract the title part from an issue filename
+ * @param filename - Filename with format {title}.{number}.md or an achieved filename
+ * @param archived - Strip the close date prefix used in the achieved directory
+ * @returns Title part of the filename
+ */
+export function extractIssueTitle(filename: string, archived = false): string {
+  const title = filename.replace(/(\.\d+)?\.md$/, '');
+  return archived ? title.replace(/^\d{4}-\d{2}-\d{2}_/, '') : title;
 }
 
 /**
@@ -72,6 +129,15 @@ export function isIssueFile(filename: string): boolean {
   return /\.(\d+)\.md$/.test(filename);
 }
 
+/**
+ * Check if filename is an archived issue file (any markdown file in achieved)
+ * @param filename - Filename to check
+ * @returns true if filename is a markdown file
+ */
+export function isArchivedIssueFile(filename: string): boolean {
+  return filename.endsWith('.md') && !filename.startsWith('.');
+}
+
 /**
  * Get the issues directory path
  * @param basePath - Base project path
@@ -84,44 +150,112 @@ export function getIssuesDir(basePath: string): string {
 /**
  * Get the stash directory path
  * @param basePath - Base project path
- * @returns Path to .issues/stash directory
+ * @returns Path to the stash directory configured in .issues/config.yaml (default .issues/stash)
  */
 export function getStashDir(basePath: string): string {
-  return path.join(getIssuesDir(basePath), 'stash');
+  return path.join(getIssuesDir(basePath), loadProjectConfig(basePath).directories.stash);
 }
 
 /**
  * Get the doing directory path
  * @param basePath - Base project path
- * @returns Path to .issues/doing directory
+ * @returns Path to the doing directory configured in .issues/config.yaml (default .issues/doing)
  */
 export function getDoingDir(basePath: string): string {
-  return path.join(getIssuesDir(basePath), 'doing');
+  return path.join(getIssuesDir(basePath), loadProjectConfig(basePath).directories.doing);
 }
 
 /**
  * Get the achieved directory path
  * @param basePath - Base project path
- * @returns Path to .issues/achieved directory
+ * @returns Path to the achieved directory configured in .issues/config.yaml (default .issues/achieved)
  */
 export function getAchievedDir(basePath: string): string {
-  return path.join(getIssuesDir(basePath), 'achieved');
+  return path.join(getIssuesDir(basePath), loadProjectConfig(basePath).directories.achieved);
+}
+
+/**
+ * Get the directory holding issues in a workflow state
+ * @param basePath - Base project path
+ * @param state - Workflow state name
+ * @returns Path to the state's directory under .issues
+ */
+export function getStateDir(basePath: string, state: string): string {
+  const config = loadProjectConfig(basePath);
+  return path.join(getIssuesDir(basePath), findWorkflowState(config, state)?.directory ?? state);
+}
+
+/**
+ * Name of the directory inside each state directory that holds attachment folders
+ */
+export const ATTACHMENTS_DIR = 'attachments';
+
+/**
+ * Get the attachment folder of an issue
+ * The folder sits next to the issue file, so links from the body stay valid as the issue moves
+ * @param basePath - Base project path
+ * @param state - Workflow state the issue is in
+ * @param uid - Stable ID of the issue
+ * @returns Path to {state directory}/attachments/{stable ID}
+ */
+export function getAttachmentsDir(basePath: string, state: string, uid: string): string {
+  return path.join(getStateDir(basePath, state), ATTACHMENTS_DIR, uid);
+}
+
+/**
+ * Get the body template file of an issue type
+ * @param basePath - Base project path
+ * @param type - Issue type name
+ * @returns Path to .issues/templates/{type}.md
+ */
+export function getTemplatePath(basePath: string, type: string): string {
+  return path.join(getIssuesDir(basePath), 'templates', `${type}.md`);
 }
 
 /**
  * Get the solution file path
+ * Without a number this is the legacy shared draft used before drafts were per issue
+ * @param basePath - Base project path
+ * @param number - Issue number owning the draft
+ * @returns Path to .issues/solution.{number}.md, or .issues/solution.md when no number is given
+ */
+export function getSolutionPath(basePath: string, number?: number): string {
+  const filename = number === undefined ? 'solution.md' : `solution.${number}.md`;
+  return path.join(getIssuesDir(basePath), filename);
+}
+
+/**
+ * Get the stable ID counter file path
+ * @param basePath - Base project path
+ * @returns Path to .issues/.id-counter
+ */
+export function getIdCounterPath(basePath: string): string {
+  return path.join(getIssuesDir(basePath), '.id-counter');
+}
+
+/**
+ * Get the lock directory path
+ * @param basePath - Base project path
+ * @returns Path to .issues/.lock
+ */
+export function getLockPath(basePath: string): string {
+  return path.join(getIssuesDir(basePath), '.lock');
+}
+
+/**
+ * Get the journal file path used to finish interrupted moves
  * @param basePath - Base project path
- * @returns Path to .issues/solution.md
+ * @returns Path to .issues/.journal.json
  */
-export function getSolutionPath(basePath: string): string {
-  return path.join(getIssuesDir(basePath), 'solution.md');
+export function getJournalPath(basePath: string): string {
+  return path.join(getIssuesDir(basePath), '.journal.json');
 }
 
 /**
  * Get the AGENTS.md file path
  * @param basePath - Base project path
- * @returns Path to AGENTS.md
+ * @returns Path to the agents file configured in .issues/config.yaml (default AGENTS.md)
  */
 export function getAgentsPath(basePath: string): string {
-  return path.join(basePath, 'AGENTS.md');
+  return path.join(basePath, loadProjectConfig(basePath).agentsFile);
 }
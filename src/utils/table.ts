@@ -0,0 +1,75 @@
+/**
+ * Table Utilities
+ * Helpers for showing issues as aligned text tables
+ */
+
+import { IssueListItem } from '../core/types.js';
+import { formatChecklistProgress } from '../core/checklist.js';
+
+/**
+ * Column of the issue table
+ */
+interface IssueColumn {
+  header: string;
+  value: (issue: IssueListItem) => string | undefined;
+  optional?: boolean;
+}
+
+const ISSUE_COLUMNS: IssueColumn[] = [
+  { header: 'Index', value: issue => String(issue.index) },
+  { header: 'ID', value: issue => issue.id ?? '-' },
+  { header: 'Type', value: issue => String(issue.type) },
+  { header: 'Status', value: issue => issue.status },
+  { header: 'Priority', value: issue => issue.priority, optional: true },
+  { header: 'Assignee', value: issue => issue.assignee, optional: true },
+  { header: 'Due', value: issue => issue.due, optional: true },
+  { header: 'Estimate', value: issue => issue.estimate, optional: true },
+  { header: 'Labels', value: issue => issue.labels?.join(', '), optional: true },
+  {
+    header: 'Tasks',
+    value: issue => (issue.checklist ? formatChecklistProgress(issue.checklist) : undefined),
+    optional: true,
+  },
+  { header: 'Title', value: issue => issue.title },
+];
+
+/**
+ * Build table rows for issues
+ * Planning and checklist columns only appear when at least one issue has them, so older trees list as before
+ * @param issues - Issues to show
+ * @param options - Set status to false to leave out the status column
+ * @returns Header row followed by one row per issue
+ */
+export function buildIssueRows(
+  issues: IssueListItem[],
+  options: { status?: boolean } = {}
+): string[][] {
+  const columns = ISSUE_COLUMNS.filter(
+    column =>
+      (column.header !== 'Status' || options.status !== false) &&
+      (!column.optional || issues.some(issue => column.value(issue) !== undefined))
+  );
+
+  return [
+    columns.map(column => column.header),
+    ...issues.map(issue => columns.map(column => column.value(issue) ?? '-')),
+  ];
+}
+
+/**
+ * Format rows as an aligned table with a separator under the header
+ * @param rows - Header row followed by data rows
+ * @returns Table text
+ */
+export function formatTable(rows: string[][]): string {
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const widths = rows[0].map((_, col) => Math.max(...rows.map(row => row[col].length)));
+  const formatRow = (row: string[]) =>
+    row.map((cell, col) => cell.padEnd(widths[col])).join('  ');
+
+  const separator = widths.map(width => '-'.repeat(width)).join('  ');
+  return [formatRow(rows[0]), separator, ...rows.slice(1).map(formatRow)].join('\n');
+}
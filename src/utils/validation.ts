@@ -3,21 +3,246 @@
  * Helper functions for validating inputs and data
  */
 
-import { IssueType } from '../core/types.js';
+import {
+  IssueType,
+  IssuePriority,
+  IssueFields,
+  IssueHistoryEntry,
+  WorkSession,
+} from '../core/types.js';
+import { parseDate, parseDuration } from './date.js';
+import { formatIssueUid, parseIssueUid } from './id.js';
 
 /**
  * Validate issue type
  * @param type - Type string to validate
- * @returns Valid IssueType or null
+ * @param validTypes - Type names configured for the project (built-in types by default)
+ * @returns Valid type name or null
  */
-export function validateIssueType(type: string): IssueType | null {
-  const validTypes = Object.values(IssueType);
-  if (validTypes.includes(type as IssueType)) {
-    return type as IssueType;
+export function validateIssueType(
+  type: string,
+  validTypes: string[] = Object.values(IssueType)
+): string | null {
+  if (validTypes.includes(type)) {
+    return type;
   }
   return null;
 }
 
+/**
+ * Validate issue priority
+ * @param priority - Priority string to validate (case insensitive)
+ * @returns Valid priority or null
+ */
+export function validatePriority(priority: string): IssuePriority | null {
+  const normalized = priority.trim().toLowerCase();
+  return (Object.values(IssuePriority) as string[]).includes(normalized)
+    ? (normalized as IssuePriority)
+    : null;
+}
+
+/**
+ * Validate a label
+ * Labels start with a letter or digit and contain no whitespace or commas
+ * @param label - Label to validate
+ * @returns true if valid
+ */
+export function isValidLabel(label: string): boolean {
+  return /^[\p{L}\p{N}][\p{L}\p{N}_\-./]*$/u.test(label);
+}
+
+/**
+ * Normalize labels given as a list or a comma-separated string
+ * @param value - Labels from frontmatter or user input
+ * @returns Trimmed, de-duplicated labels
+ */
+export function parseLabels(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return [...new Set(items.map(item => String(item).trim()).filter(item => item.length > 0))];
+}
+
+/**
+ * Validate optional planning fields
+ * @param fields - Fields to validate
+ * @returns Error message for the first invalid field, or null when all are valid
+ */
+export function validateIssueFields(fields: IssueFields): string | null {
+  if (fields.priority !== undefined && !validatePriority(fields.priority)) {
+    return `Invalid priority "${fields.priority}" (expected one of: ${Object.values(IssuePriority).join(', ')})`;
+  }
+  const badLabel = (fields.labels ?? []).find(label => !isValidLabel(label));
+  if (badLabel !== undefined) {
+    return `Invalid label "${badLabel}" (use letters, digits, "-", "_", "." or "/")`;
+  }
+  if (fields.assignee !== undefined && !/^\S+$/.test(fields.assignee)) {
+    return `Invalid assignee "${fields.assignee}" (must be a single word)`;
+  }
+  if (fields.due !== undefined && !parseDate(fields.due)) {
+    return `Invalid due date "${fields.due}" (expected YYYY-MM-DD)`;
+  }
+  if (fields.estimate !== undefined && parseDuration(fields.estimate) === null) {
+    return `Invalid estimate "${fields.estimate}" (expected a duration such as 30m, 2h, 1.5d or 1w)`;
+  }
+  return null;
+}
+
+/**
+ * Read the optional planning fields from frontmatter
+ * Values of the wrong shape are skipped so hand-edited files still load
+ * @param metadata - Parsed frontmatter
+ * @returns Issue fields
+ */
+export function parseIssueFields(metadata: Record<string, unknown>): IssueFields {
+  const text = (value: unknown): string | undefined =>
+    typeof value === 'string' || typeof value === 'number' ? String(value).trim() || undefined : undefined;
+
+  const fields: IssueFields = {
+    priority: text(metadata.Priority)?.toLowerCase(),
+    labels: parseLabels(metadata.Labels),
+    assignee: text(metadata.Assignee),
+    due: text(metadata.Due),
+    estimate: text(metadata.Estimate),
+    updated: text(metadata.Updated),
+  };
+  if (fields.labels!.length === 0) {
+    delete fields.labels;
+  }
+  for (const key of Object.keys(fields) as Array<keyof IssueFields>) {
+    if (fields[key] === undefined) {
+      delete fields[key];
+    }
+  }
+  return fields;
+}
+
+/**
+ * Check that a value is a well-formed History entry
+ * @param entry - Value from the History list
+ * @returns true if it has a timestamp, both states and an actor
+ */
+export function isValidHistoryEntry(entry: unknown): entry is IssueHistoryEntry {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return false;
+  }
+  const { At, From, To, By } = entry as Record<string, unknown>;
+  return (
+    typeof At === 'string' &&
+    !isNaN(Date.parse(At)) &&
+    [From, To, By].every(value => typeof value === 'string' && value.trim().length > 0)
+  );
+}
+
+/**
+ * Read the state change history from frontmatter
+ * Malformed entries are skipped so hand-edited files still load
+ * @param metadata - Parsed frontmatter
+ * @returns History entries in the order they were recorded
+ */
+export function parseIssueHistory(metadata: { History?: unknown }): IssueHistoryEntry[] {
+  return Array.isArray(metadata.History) ? metadata.History.filter(isValidHistoryEntry) : [];
+}
+
+/**
+ * Check that a value is a well-formed work session
+ * @param session - Value from the Sessions list
+ * @returns true if it has a start, an actor and, when finished, an end no earlier than the start
+ */
+export function isValidWorkSession(session: unknown): session is WorkSession {
+  if (!session || typeof session !== 'object' || Array.isArray(session)) {
+    return false;
+  }
+  const { Start, End, By } = session as Record<string, unknown>;
+  if (typeof Start !== 'string' || isNaN(Date.parse(Start))) {
+    return false;
+  }
+  if (End !== undefined && (typeof End !== 'string' || !(Date.parse(End) >= Date.parse(Start)))) {
+    return false;
+  }
+  return typeof By === 'string' && By.trim().length > 0;
+}
+
+/**
+ * Read the work sessions from frontmatter
+ * Malformed sessions are skipped so hand-edited files still load
+ * @param metadata - Parsed frontmatter
+ * @returns Sessions in the order they were recorded
+ */
+export function parseWorkSessions(metadata: { Sessions?: unknown }): WorkSession[] {
+  return Array.isArray(metadata.Sessions) ? metadata.Sessions.filter(isValidWorkSession) : [];
+}
+
+/**
+ * Read a Blocks or BlockedBy list from frontmatter
+ * @param value - Frontmatter value
+ * @returns Stable IDs in upper case without duplicates; other entries are skipped
+ */
+export function parseIssueLinks(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const ids = value.map(parseIssueUid).filter((uid): uid is number => uid !== null);
+  return [...new Set(ids.map(formatIssueUid))];
+}
+
+/**
+ * Read one planning token: #label, @assignee, !priority, due:YYYY-MM-DD or est:DURATION
+ * @param word - Word of a description
+ * @returns Field name and value, or null when the word is not a token
+ */
+function readFieldToken(word: string): { field: keyof IssueFields; value: string } | null {
+  const label = word.match(/^#(.+)$/);
+  if (label && isValidLabel(label[1]) && /^\p{L}/u.test(label[1])) {
+    return { field: 'labels', value: label[1] };
+  }
+  if (/^@\S+$/.test(word)) {
+    return { field: 'assignee', value: word.slice(1) };
+  }
+  if (word.startsWith('!') && validatePriority(word.slice(1))) {
+    return { field: 'priority', value: validatePriority(word.slice(1))! };
+  }
+  const field = word.match(/^(due|est):(\S+)$/i);
+  if (field) {
+    return { field: field[1].toLowerCase() === 'due' ? 'due' : 'estimate', value: field[2] };
+  }
+  return null;
+}
+
+/**
+ * Pull planning tokens off the end of a one-line description
+ * Recognizes #label, @assignee, !priority, due:YYYY-MM-DD and est:DURATION. Only the tokens after
+ * the last ordinary word count, so prose such as "#include", "@Override" or "due: Friday" stays put
+ * @param text - Description typed in the TUI
+ * @returns Description without the tokens, the fields they set, and an error for malformed values
+ */
+export function extractFieldTokens(text: string): {
+  description: string;
+  fields: IssueFields;
+  error?: string;
+} {
+  const words = text.split(/\s+/).filter(Boolean);
+  let end = words.length;
+  while (end > 0 && readFieldToken(words[end - 1])) {
+    end--;
+  }
+
+  const fields: IssueFields = {};
+  for (const word of words.slice(end)) {
+    const { field, value } = readFieldToken(word)!;
+    if (field === 'labels') {
+      fields.labels = parseLabels([...(fields.labels ?? []), value]);
+    } else {
+      fields[field] = value;
+    }
+  }
+
+  const error = validateIssueFields(fields);
+  return {
+    description: words.slice(0, end).join(' '),
+    fields,
+    ...(error ? { error } : {}),
+  };
+}
+
 /**
  * Validate issue number
  * @param number - Number string to validate
@@ -160,6 +385,33 @@ export function isValidMarkdown(content: string): boolean {
   return true;
 }
 
+/**
+ * Find optional frontmatter fields whose values are malformed
+ * @param frontmatter - Frontmatter object to check
+ * @returns Names of the invalid fields
+ */
+export function findInvalidFields(frontmatter: Record<string, unknown>): string[] {
+  const isText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+  const checks: Record<string, (value: unknown) => boolean> = {
+    Priority: value => typeof value === 'string' && validatePriority(value) !== null,
+    Labels: value =>
+      (Array.isArray(value) || typeof value === 'string') && parseLabels(value).every(isValidLabel),
+    Assignee: value => isText(value) && /^\S+$/.test(String(value).trim()),
+    Due: value => typeof value === 'string' && parseDate(value) !== null,
+    Estimate: value => typeof value === 'string' && parseDuration(value) !== null,
+    Updated: value => typeof value === 'string' && parseDate(value) !== null,
+    Schema: value => typeof value === 'number' && Number.isInteger(value) && value >= 1,
+    History: value => Array.isArray(value) && value.every(isValidHistoryEntry),
+    Sessions: value => Array.isArray(value) && value.every(isValidWorkSession),
+    Blocks: value => Array.isArray(value) && value.every(id => parseIssueUid(id) !== null),
+    BlockedBy: value => Array.isArray(value) && value.every(id => parseIssueUid(id) !== null),
+  };
+
+  return Object.keys(checks).filter(
+    key => frontmatter[key] !== undefined && frontmatter[key] !== null && !checks[key](frontmatter[key])
+  );
+}
+
 /**
  * Validate frontmatter
  * @param frontmatter - Frontmatter object to validate
@@ -180,5 +432,6 @@ export function isValidFrontmatter(frontmatter: any): boolean {
     return false;
   }
 
-  return true;
+  // Optional schema v2 fields must be well formed when present
+  return findInvalidFields(frontmatter).length === 0;
 }
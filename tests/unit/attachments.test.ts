@@ -0,0 +1,47 @@
+/**
+ * Unit Tests for Attachments Module
+ */
+
+import {
+  getAttachmentFilename,
+  formatAttachmentLink,
+  addAttachmentLinks,
+} from '../../src/core/attachments';
+
+describe('Attachments', () => {
+  describe('getAttachmentFilename', () => {
+    it('should keep free names and number taken ones', () => {
+      expect(getAttachmentFilename('crash.log', [])).toBe('crash.log');
+      expect(getAttachmentFilename('crash.log', ['Crash.log', 'crash-2.log'])).toBe('crash-3.log');
+      expect(getAttachmentFilename('README', ['README'])).toBe('README-2');
+    });
+  });
+
+  describe('formatAttachmentLink', () => {
+    it('should embed images and link other files relative to the issue', () => {
+      expect(formatAttachmentLink('IM-4', 'screen shot.PNG')).toBe(
+        '![screen shot.PNG](attachments/IM-4/screen%20shot.PNG)'
+      );
+      expect(formatAttachmentLink('IM-4', 'crash.log')).toBe('[crash.log](attachments/IM-4/crash.log)');
+    });
+  });
+
+  describe('addAttachmentLinks', () => {
+    it('should create the section after the description', () => {
+      expect(addAttachmentLinks('Parser crashes\n', ['[a.log](attachments/IM-4/a.log)'])).toBe(
+        'Parser crashes\n\n## Attachments\n\n- [a.log](attachments/IM-4/a.log)\n'
+      );
+    });
+
+    it('should extend the section in front of notes and solutions', () => {
+      const content =
+        'Parser crashes\n\n## Attachments\n\n- [a.log](attachments/IM-4/a.log)\n\n' +
+        '## Notes\n\n### 2026-01-12T09:30:00Z by alice\n\nSee log\n\n---\n\n## Solution\n\nFixed\n';
+
+      expect(addAttachmentLinks(content, ['[b.log](attachments/IM-4/b.log)'])).toBe(
+        'Parser crashes\n\n## Attachments\n\n- [a.log](attachments/IM-4/a.log)\n- [b.log](attachments/IM-4/b.log)\n\n' +
+          '## Notes\n\n### 2026-01-12T09:30:00Z by alice\n\nSee log\n\n---\n\n## Solution\n\nFixed\n'
+      );
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Checklist Module
+ */
+
+import {
+  parseChecklist,
+  getChecklistProgress,
+  formatChecklistProgress,
+  setChecklistItem,
+} from '../../src/core/checklist';
+
+describe('Checklist', () => {
+  const body = [
+    '## Tasks',
+    '',
+    '- [x] Parse CRLF',
+    '* [ ] Parse BOM  ',
+    '1. [X] Numbered item',
+    '  - [ ] (optional) Nested follow-up',
+    '- [] not a box',
+    '',
+    '```md',
+    '- [ ] example inside a fence',
+    '```',
+    '',
+    '- [ ] After the fence',
+  ].join('\n');
+
+  describe('parseChecklist', () => {
+    it('should number the items in document order', () => {
+      const items = parseChecklist(body);
+
+      expect(items.map(item => [item.number, item.text, item.checked])).toEqual([
+        [1, 'Parse CRLF', true],
+        [2, 'Parse BOM', false],
+        [3, 'Numbered item', true],
+        [4, '(optional) Nested follow-up', false],
+        [5, 'After the fence', false],
+      ]);
+    });
+
+    it('should mark items starting with (optional)', () => {
+      expect(parseChecklist(body).filter(item => item.optional).map(item => item.number)).toEqual([4]);
+    });
+
+    it('should find nothing in a body without task lists', () => {
+      expect(parseChecklist('Just a description\n- a plain bullet')).toEqual([]);
+    });
+  });
+
+  describe('getChecklistProgress', () => {
+    it('should count checked items', () => {
+      const progress = getChecklistProgress(parseChecklist(body));
+
+      expect(progress).toEqual({ done: 2, total: 5 });
+      expect(formatChecklistProgress(progress!)).toBe('2/5');
+    });
+
+    it('should return undefined without items', () => {
+      expect(getChecklistProgress([])).toBeUndefined();
+    });
+  });
+
+  describe('setChecklistItem', () => {
+    it('should only change the box of the item', () => {
+      const updated = setChecklistItem(body, 2, true)!;
+
+      expect(updated.split('\n')[3]).toBe('* [x] Parse BOM  ');
+      expect(updated.replace('* [x] Parse BOM', '* [ ] Parse BOM')).toBe(body);
+    });
+
+    it('should clear checked items and skip fenced examples', () => {
+      const updated = setChecklistItem(body, 5, true)!;
+
+      expect(setChecklistItem(body, 3, false)!.split('\n')[4]).toBe('1. [ ] Numbered item');
+      expect(updated).toContain('- [ ] example inside a fence');
+      expect(updated).toContain('- [x] After the fence');
+    });
+
+    it('should return null for unknown items', () => {
+      expect(setChecklistItem(body, 6, true)).toBeNull();
+    });
+  });
+});
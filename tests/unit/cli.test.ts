@@ -8,9 +8,26 @@ import { initCommand } from '../../src/cli/commands/init';
 import { addCommand } from '../../src/cli/commands/add';
 import { openCommand } from '../../src/cli/commands/open';
 import { closeCommand } from '../../src/cli/commands/close';
+import { checkCommand } from '../../src/cli/commands/check';
+import { noteCommand } from '../../src/cli/commands/note';
+import { attachCommand } from '../../src/cli/commands/attach';
+import { searchCommand } from '../../src/cli/commands/search';
+import { listCommand } from '../../src/cli/commands/list';
+import { reopenCommand } from '../../src/cli/commands/reopen';
+import { moveCommand } from '../../src/cli/commands/move';
+import { migrateCommand } from '../../src/cli/commands/migrate';
+import { showCommand } from '../../src/cli/commands/show';
+import { trackCommand } from '../../src/cli/commands/track';
+import { reportCommand } from '../../src/cli/commands/report';
+import { linkCommand, unlinkCommand } from '../../src/cli/commands/link';
+import { graphCommand } from '../../src/cli/commands/graph';
+import { doctorCommand } from '../../src/cli/commands/doctor';
+import { createCLI } from '../../src/cli';
 import { ConfigManager } from '../../src/core/config';
 import { FileManager } from '../../src/core/file-manager';
 import { AIService } from '../../src/core/ai';
+import { IssueDoctor } from '../../src/core/doctor';
+import { DoctorSeverity } from '../../src/core/types';
 
 // Mock console methods
 const consoleError = jest.spyOn(console, 'error').mockImplementation();
@@ -25,11 +42,13 @@ jest.mock('fs/promises');
 jest.mock('../../src/core/config');
 jest.mock('../../src/core/file-manager');
 jest.mock('../../src/core/ai');
+jest.mock('../../src/core/doctor');
 
 const mockedFs = fs as jest.Mocked<typeof fs>;
 const MockedConfigManager = ConfigManager as jest.MockedClass<typeof ConfigManager>;
 const MockedFileManager = FileManager as jest.MockedClass<typeof FileManager>;
 const MockedAIService = AIService as jest.MockedClass<typeof AIService>;
+const MockedIssueDoctor = IssueDoctor as jest.MockedClass<typeof IssueDoctor>;
 
 describe('CLI Commands', () => {
   beforeEach(() => {
@@ -121,6 +140,42 @@ describe('CLI Commands', () => {
       expect(consoleWarn).toHaveBeenCalledWith(expect.stringContaining('Config file not found'));
     });
 
+    it('should pass planning fields to the new issue', async () => {
+      mockedFs.readFile.mockResolvedValue('Test description');
+      const mockConfigManager = {
+        configExists: jest.fn().mockResolvedValue(true),
+        getConfig: jest.fn().mockResolvedValue({ url: '', api: '', model: '' }),
+      };
+      const mockFileManager = {
+        createIssue: jest.fn().mockResolvedValue({
+          success: true,
+          issue: { number: 0, title: 'Test', type: 'bug', priority: 'high', labels: ['auth', 'ui'] },
+          filePath: '/test/.issues/stash/Test.0.md',
+        }),
+      };
+      MockedConfigManager.mockImplementation(() => mockConfigManager as any);
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      const fields = { priority: 'high', labels: ['auth', 'ui'], due: '2026-11-01' };
+      await addCommand('bug', '/test/description.md', fields);
+
+      expect(mockFileManager.createIssue).toHaveBeenCalledWith(
+        expect.any(String),
+        'bug',
+        'Test description',
+        fields
+      );
+      expect(consoleLog).toHaveBeenCalledWith('  Labels: auth, ui');
+    });
+
+    it('should reject malformed planning fields', async () => {
+      await expect(
+        addCommand('feat', '/test/description.md', { due: 'next friday' })
+      ).rejects.toThrow('Process exited');
+
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('Invalid due date'));
+    });
+
     it('should validate issue type', async () => {
       try {
         await addCommand('invalid', '/test/description.md');
@@ -192,7 +247,8 @@ describe('CLI Commands', () => {
       expect(mockFileManager.createIssue).toHaveBeenCalledWith(
         'AI Generated Title',
         'feat',
-        'Test description'
+        'Test description',
+        {}
       );
     });
 
@@ -270,7 +326,7 @@ describe('CLI Commands', () => {
 
       await openCommand('0');
 
-      expect(mockFileManager.openIssue).toHaveBeenCalledWith('0');
+      expect(mockFileManager.openIssue).toHaveBeenCalledWith('0', {});
       expect(consoleLog).toHaveBeenCalledWith(expect.stringContaining('opened successfully'));
     });
 
@@ -338,7 +394,7 @@ describe('CLI Commands', () => {
 
       await openCommand('User Auth');
 
-      expect(mockFileManager.openIssue).toHaveBeenCalledWith('User Auth');
+      expect(mockFileManager.openIssue).toHaveBeenCalledWith('User Auth', {});
       expect(consoleLog).toHaveBeenCalledWith(expect.stringContaining('opened successfully'));
     });
 
@@ -356,7 +412,28 @@ describe('CLI Commands', () => {
 
       await openCommand('auth');
 
-      expect(mockFileManager.openIssue).toHaveBeenCalledWith('auth');
+      expect(mockFileManager.openIssue).toHaveBeenCalledWith('auth', {});
+    });
+
+    it('should list the candidates when the title matches several issues', async () => {
+      const mockFileManager = {
+        openIssue: jest.fn().mockResolvedValue({
+          success: false,
+          error: 'Title "parser" matches 2 issues; use a number or ID to pick one',
+          candidates: [
+            { number: 1, id: 'IM-1', title: 'Parser-crash', status: 'stash', score: 80 },
+            { number: 2, title: 'Parser-docs', status: 'todo', score: 80 },
+          ],
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await expect(openCommand('parser')).rejects.toThrow('Process exited');
+
+      expect(consoleError).toHaveBeenCalledWith('  Candidates:');
+      expect(consoleError).toHaveBeenCalledWith('    #1 IM-1 Parser-crash (stash)');
+      expect(consoleError).toHaveBeenCalledWith('    #2 Parser-docs (todo)');
+      expect(consoleError).toHaveBeenCalledWith('  Hint: Run the command again with one of these numbers or IDs');
     });
   });
 
@@ -365,16 +442,17 @@ describe('CLI Commands', () => {
       const mockFileManager = {
         closeIssue: jest.fn().mockResolvedValue({
           success: true,
+          issue: { number: 0, title: 'Test' },
           archivedPath: '/test/.issues/achieved/Test.md',
         }),
       };
       MockedFileManager.mockImplementation(() => mockFileManager as any);
-      mockedFs.readFile.mockResolvedValue('# AGENTS.md\n\n<!-- ISSUE-MAKE:START -->\nTask\n<!-- ISSUE-MAKE:END -->\n');
+      mockedFs.readFile.mockResolvedValue('# AGENTS.md\n\n<!-- ISSUE-MAKE:START -->\n## Task: Test\n\n**Issue ID:** 0\n<!-- ISSUE-MAKE:END -->\n');
       mockedFs.writeFile.mockResolvedValue(undefined);
 
       await closeCommand('0');
 
-      expect(mockFileManager.closeIssue).toHaveBeenCalledWith('0');
+      expect(mockFileManager.closeIssue).toHaveBeenCalledWith('0', {});
       expect(consoleLog).toHaveBeenCalledWith(expect.stringContaining('closed successfully'));
     });
 
@@ -382,11 +460,12 @@ describe('CLI Commands', () => {
       const mockFileManager = {
         closeIssue: jest.fn().mockResolvedValue({
           success: true,
+          issue: { number: 0, title: 'Test' },
           archivedPath: '/test/.issues/achieved/Test.md',
         }),
       };
       MockedFileManager.mockImplementation(() => mockFileManager as any);
-      mockedFs.readFile.mockResolvedValue('# AGENTS.md\n\n<!-- ISSUE-MAKE:START -->\nTask\n<!-- ISSUE-MAKE:END -->\n');
+      mockedFs.readFile.mockResolvedValue('# AGENTS.md\n\n<!-- ISSUE-MAKE:START -->\n## Task: Test\n\n**Issue ID:** 0\n<!-- ISSUE-MAKE:END -->\n');
       mockedFs.writeFile.mockResolvedValue(undefined);
 
       await closeCommand('0');
@@ -429,15 +508,33 @@ describe('CLI Commands', () => {
       expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('Hint'));
     });
 
+    it('should list the unchecked checklist items that block the close', async () => {
+      const mockFileManager = {
+        closeIssue: jest.fn().mockResolvedValue({
+          success: false,
+          unchecked: [{ number: 2, text: 'Write tests', checked: false, optional: false, line: 3 }],
+          error: 'Issue #0 has 1 unchecked checklist item (2), which must be checked first',
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await expect(closeCommand('0')).rejects.toThrow('Process exited');
+
+      expect(consoleError).toHaveBeenCalledWith('  [ ] 2. Write tests');
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('--force'));
+    });
+
     it('should handle AGENTS.md cleanup errors', async () => {
       const mockFileManager = {
         closeIssue: jest.fn().mockResolvedValue({
           success: true,
+          issue: { number: 0, title: 'Test' },
           archivedPath: '/test/.issues/achieved/Test.md',
         }),
       };
       MockedFileManager.mockImplementation(() => mockFileManager as any);
-      mockedFs.readFile.mockRejectedValue(new Error('File not found'));
+      mockedFs.readFile.mockResolvedValue('<!-- ISSUE-MAKE:START -->\n**Issue ID:** 0\n<!-- ISSUE-MAKE:END -->\n');
+      mockedFs.writeFile.mockRejectedValue(new Error('Disk full'));
 
       await closeCommand('0');
 
@@ -445,6 +542,672 @@ describe('CLI Commands', () => {
     });
   });
 
+  describe('Note command', () => {
+    it('should add the words as a note', async () => {
+      const mockFileManager = {
+        addNote: jest.fn().mockResolvedValue({
+          success: true,
+          issue: { number: 3, title: 'Parser' },
+          note: { at: '2026-01-13T09:00:00Z', by: 'alice', text: 'Looks good' },
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await noteCommand('3', ['Looks', 'good']);
+
+      expect(mockFileManager.addNote).toHaveBeenCalledWith('3', 'Looks good');
+      expect(consoleLog).toHaveBeenCalledWith('✓ Note added to issue #3');
+    });
+
+    it('should read the note from a file', async () => {
+      const mockFileManager = {
+        addNote: jest.fn().mockResolvedValue({
+          success: true,
+          issue: { number: 3, title: 'Parser' },
+          note: { at: '2026-01-13T09:00:00Z', by: 'alice', text: 'Log attached' },
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+      mockedFs.readFile.mockResolvedValue('Log attached\n' as any);
+
+      await noteCommand('3', [], { file: 'note.md' });
+
+      expect(mockFileManager.addNote).toHaveBeenCalledWith('3', 'Log attached\n');
+    });
+
+    it('should exit without note text or with both text and a file', async () => {
+      await expect(noteCommand('3', [])).rejects.toThrow('Process exited');
+      expect(consoleError).toHaveBeenCalledWith('✗ Please provide the note text');
+
+      await expect(noteCommand('3', ['text'], { file: 'note.md' })).rejects.toThrow('Process exited');
+      expect(consoleError).toHaveBeenCalledWith(
+        '✗ Please give the note either as text or with --file, not both'
+      );
+    });
+  });
+
+  describe('List command', () => {
+    it('should pass the filter on and say when nothing matches', async () => {
+      const mockFileManager = {
+        listIssues: jest.fn().mockResolvedValue({ success: true, issues: [] }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await listCommand({ query: 'type:bug label:parser' });
+
+      expect(mockFileManager.listIssues).toHaveBeenCalledWith({ all: undefined, query: 'type:bug label:parser' });
+      expect(consoleLog).toHaveBeenCalledWith('No issues match the filter.');
+    });
+
+    it('should print JSON records even when nothing matches', async () => {
+      const mockFileManager = {
+        listIssues: jest.fn().mockResolvedValue({
+          success: true,
+          issues: [{ title: 'Parser', number: 0, index: 0, id: 'IM-1', type: 'bug', status: 'stash' }],
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await listCommand({ format: 'json' });
+      mockFileManager.listIssues.mockResolvedValue({ success: true, issues: [] });
+      await listCommand({ format: 'json' });
+
+      expect(JSON.parse(consoleLog.mock.calls[0][0])).toEqual([
+        expect.objectContaining({ number: 0, id: 'IM-1', title: 'Parser', labels: [], priority: null }),
+      ]);
+      expect(consoleLog).toHaveBeenLastCalledWith('[]');
+    });
+
+    it('should reject unknown formats and grouping outside the table', async () => {
+      await expect(listCommand({ format: 'xml' })).rejects.toThrow('Process exited');
+      expect(consoleError).toHaveBeenCalledWith('  Valid formats: table, json, csv, tsv, markdown, yaml');
+      await expect(listCommand({ format: 'csv', group: true })).rejects.toThrow('Process exited');
+      expect(consoleError).toHaveBeenCalledWith('✗ --group only works with the table format');
+    });
+
+    it('should exit with the filter error', async () => {
+      const mockFileManager = {
+        listIssues: jest.fn().mockResolvedValue({
+          success: false,
+          error: 'Unknown filter field "lable". Did you mean "label"?',
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await expect(listCommand({ query: 'lable:ui' })).rejects.toThrow('Process exited');
+      expect(consoleError).toHaveBeenCalledWith('  Error: Unknown filter field "lable". Did you mean "label"?');
+    });
+  });
+
+  describe('Search command', () => {
+    it('should print the hits with their snippets', async () => {
+      const mockFileManager = {
+        searchIssues: jest.fn().mockResolvedValue({
+          success: true,
+          total: 3,
+          hits: [
+            {
+              issue: { title: 'Parser crash', number: 3, index: 3, id: 'IM-4', type: 'bug', status: 'doing' },
+              score: 2,
+              snippets: [{ field: 'notes', text: 'Crashes on empty input' }],
+            },
+          ],
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await searchCommand(['"empty', 'input"', '-windows'], { limit: '1' });
+
+      expect(mockFileManager.searchIssues).toHaveBeenCalledWith('"empty input" -windows', { limit: 1 });
+      expect(consoleLog).toHaveBeenCalledWith('3 issues match ""empty input" -windows" (showing the best 1)\n');
+      const output = String(consoleLog.mock.calls[1][0]).replace(/\u001b\[\d+m/g, '');
+      expect(output).toBe('#3 IM-4 Parser crash (doing, bug)\n  notes: Crashes on empty input');
+    });
+
+    it('should print CSV rows with the score and snippets', async () => {
+      const mockFileManager = {
+        searchIssues: jest.fn().mockResolvedValue({
+          success: true,
+          total: 1,
+          hits: [
+            {
+              issue: { title: 'Parser crash', number: 3, index: 3, id: 'IM-4', type: 'bug', status: 'doing' },
+              score: 2,
+              snippets: [{ field: 'notes', text: 'Crashes on empty input' }],
+            },
+          ],
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await searchCommand(['crash'], { format: 'csv' });
+
+      const [header, row] = String(consoleLog.mock.calls[0][0]).split('\n');
+      expect(header).toMatch(/,score,snippets$/);
+      expect(row).toBe('3,IM-4,Parser crash,bug,doing,,,,,,,,,,2,notes: Crashes on empty input');
+    });
+
+    it('should keep excluded terms that start with an option letter in the query', async () => {
+      const mockFileManager = {
+        searchIssues: jest.fn().mockResolvedValue({ success: true, total: 0, hits: [] }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await createCLI().parseAsync(['node', 'issue-make', 'search', 'parser', '-notes', '--limit', '5']);
+
+      expect(mockFileManager.searchIssues).toHaveBeenCalledWith('parser -notes', { limit: 5 });
+      expect(consoleError).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid limit', async () => {
+      await expect(searchCommand(['parser'], { limit: 'all' })).rejects.toThrow('Process exited');
+      expect(consoleError).toHaveBeenCalledWith('✗ Invalid limit "all"');
+    });
+  });
+
+  describe('Attach command', () => {
+    it('should list the copied files', async () => {
+      const mockFileManager = {
+        attachFiles: jest.fn().mockResolvedValue({
+          success: true,
+          issue: { number: 3, title: 'Parser' },
+          attached: [
+            `${process.cwd()}/.issues/stash/attachments/IM-4/crash.log`,
+            `${process.cwd()}/.issues/stash/attachments/IM-4/screen.png`,
+          ],
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await attachCommand('3', ['crash.log', 'screen.png']);
+
+      expect(mockFileManager.attachFiles).toHaveBeenCalledWith('3', ['crash.log', 'screen.png']);
+      expect(consoleLog).toHaveBeenCalledWith('✓ Attached 2 files to issue #3');
+      expect(consoleLog).toHaveBeenCalledWith('  .issues/stash/attachments/IM-4/crash.log');
+    });
+
+    it('should exit when the files cannot be attached', async () => {
+      const mockFileManager = {
+        attachFiles: jest.fn().mockResolvedValue({
+          success: false,
+          error: 'Cannot attach missing.log: not a readable file',
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await expect(attachCommand('3', ['missing.log'])).rejects.toThrow('Process exited');
+      expect(consoleError).toHaveBeenCalledWith('  Error: Cannot attach missing.log: not a readable file');
+    });
+  });
+
+  describe('Check command', () => {
+    it('should tick the item and print the progress', async () => {
+      const mockFileManager = {
+        checkItem: jest.fn().mockResolvedValue({
+          success: true,
+          issue: { number: 3, title: 'Parser' },
+          item: { number: 2, text: 'Write tests', checked: true, optional: false, line: 3 },
+          progress: { done: 2, total: 5 },
+          changed: true,
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await checkCommand('3', '2');
+
+      expect(mockFileManager.checkItem).toHaveBeenCalledWith('3', 2, true);
+      expect(consoleLog).toHaveBeenCalledWith('✓ Checked item 2. Write tests');
+      expect(consoleLog).toHaveBeenCalledWith('  Progress: 2/5');
+    });
+
+    it('should reject item numbers that are not positive', async () => {
+      await expect(checkCommand('3', '0')).rejects.toThrow('Process exited');
+      expect(consoleError).toHaveBeenCalledWith('✗ Invalid checklist item "0"');
+    });
+  });
+
+  describe('Reopen command', () => {
+    it('should reopen archived issue', async () => {
+      const mockFileManager = {
+        reopenIssue: jest.fn().mockResolvedValue({
+          success: true,
+          issue: { number: 2, title: 'Archived', type: 'bug', createDate: new Date() },
+          solutionPath: '/test/.issues/solution.2.md',
+          reopened: true,
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+      mockedFs.readFile.mockResolvedValue('# AGENTS.md\n\n');
+      mockedFs.writeFile.mockResolvedValue(undefined);
+
+      await reopenCommand('2');
+
+      expect(mockFileManager.reopenIssue).toHaveBeenCalledWith('2');
+      expect(consoleLog).toHaveBeenCalledWith(expect.stringContaining('reopened successfully'));
+      expect(mockedFs.writeFile).toHaveBeenCalled();
+    });
+
+    it('should handle reopen errors', async () => {
+      const mockFileManager = {
+        reopenIssue: jest.fn().mockResolvedValue({
+          success: false,
+          error: 'Issue with number 9 not found',
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await expect(reopenCommand('9')).rejects.toThrow('Process exited');
+
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('Failed to reopen issue'));
+    });
+  });
+
+  describe('Move command', () => {
+    it('should move an issue and drop its AGENTS.md task when it leaves doing', async () => {
+      const mockFileManager = {
+        moveIssue: jest.fn().mockResolvedValue({
+          success: true,
+          issue: { number: 3, title: 'Review Me', type: 'feat', filePath: '/test/.issues/review/Review-Me.3.md' },
+          from: 'doing',
+          to: 'review',
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+      mockedFs.readFile.mockResolvedValue(
+        '# AGENTS.md\n\n<!-- ISSUE-MAKE:START -->\n## Task: Review Me\n\n**Issue ID:** 3\n<!-- ISSUE-MAKE:END -->\n'
+      );
+      mockedFs.writeFile.mockResolvedValue(undefined);
+      mockedFs.rename.mockResolvedValue(undefined);
+
+      await moveCommand('3', 'review');
+
+      expect(mockFileManager.moveIssue).toHaveBeenCalledWith('3', 'review', {});
+      expect(consoleLog).toHaveBeenCalledWith('✓ Issue moved from doing to review');
+      expect(mockedFs.writeFile.mock.calls[0][1]).not.toContain('Review Me');
+    });
+
+    it('should report transitions the workflow forbids', async () => {
+      const mockFileManager = {
+        moveIssue: jest.fn().mockResolvedValue({
+          success: false,
+          error: 'Moving an issue from stash to review is not allowed (allowed from stash: doing)',
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await expect(moveCommand('1', 'review')).rejects.toThrow('Process exited');
+
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('Failed to move issue'));
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('not allowed'));
+    });
+  });
+
+  describe('Show command', () => {
+    const issue = {
+      number: 3,
+      title: 'Review Me',
+      id: 'IM-4',
+      type: 'feat',
+      status: 'review',
+      content: 'Check the parser\n',
+      filePath: `${process.cwd()}/.issues/review/Review-Me.3.md`,
+      metadata: {
+        'Create Date': '2026-01-12',
+        Type: 'feat',
+        Index: 3,
+        History: [{ At: '2026-01-13T09:00:00Z', From: 'doing', To: 'review', By: 'alice' }],
+      },
+    };
+
+    it('should print the issue', async () => {
+      const mockFileManager = {
+        findIssue: jest.fn().mockResolvedValue({ found: true, issue }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await showCommand('IM-4');
+
+      expect(consoleLog).toHaveBeenCalledWith('#3 Review Me (IM-4)');
+      expect(consoleLog).toHaveBeenCalledWith('  File: .issues/review/Review-Me.3.md');
+      expect(consoleLog).toHaveBeenCalledWith('Check the parser');
+    });
+
+    it('should print notes apart from the description', async () => {
+      const mockFileManager = {
+        findIssue: jest.fn().mockResolvedValue({
+          found: true,
+          issue: {
+            ...issue,
+            content:
+              'Check the parser\n\n## Notes\n\n### 2026-01-13T09:00:00Z by alice\n\nLooks good\n',
+          },
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await showCommand('3');
+
+      const body = consoleLog.mock.calls.map(call => call[0]).pop();
+      expect(body).toMatch(/^Check the parser\n\nNotes \(1\)\n\n  2026-01-1\d \d{2}:\d{2}  alice\n    Looks good$/);
+    });
+
+    it('should print the issue as JSON', async () => {
+      const mockFileManager = {
+        findIssue: jest.fn().mockResolvedValue({ found: true, issue }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await showCommand('IM-4', { format: 'json' });
+
+      expect(JSON.parse(consoleLog.mock.calls[0][0])).toMatchObject({
+        number: 3,
+        id: 'IM-4',
+        status: 'review',
+        file: '.issues/review/Review-Me.3.md',
+        description: 'Check the parser',
+        history: [{ at: '2026-01-13T09:00:00Z', from: 'doing', to: 'review', by: 'alice' }],
+      });
+      await expect(showCommand('IM-4', { format: 'yaml', history: true })).rejects.toThrow('Process exited');
+    });
+
+    it('should print the timeline with --history', async () => {
+      const mockFileManager = {
+        findIssue: jest.fn().mockResolvedValue({ found: true, issue }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await showCommand('3', { history: true });
+
+      const timeline = consoleLog.mock.calls.map(call => call[0]).pop();
+      expect(timeline).toContain('2026-01-12        created');
+      expect(timeline).toMatch(/2026-01-1\d \d{2}:\d{2}  doing -> review  alice/);
+      expect(consoleLog).not.toHaveBeenCalledWith('Check the parser');
+    });
+
+    it('should print the frontmatter fields and render the markdown body', async () => {
+      const mockFileManager = {
+        findIssue: jest.fn().mockResolvedValue({
+          found: true,
+          issue: {
+            ...issue,
+            content: '## Steps\n\n1. Run `parse`\n- [ ] Fix it\n\n```\n## not a heading\n```\n',
+            metadata: { ...issue.metadata, Labels: ['parser', 'io'], Assignee: 'alice', Due: '2026-02-01' },
+          },
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await showCommand('IM-4');
+
+      const lines = consoleLog.mock.calls.map(call => String(call[0]).replace(/\u001b\[\d+m/g, ''));
+      expect(lines).toEqual(
+        expect.arrayContaining([
+          '  Labels: parser, io',
+          '  Assignee: alice',
+          '  Due: 2026-02-01',
+          '  Created: 2026-01-12',
+        ])
+      );
+      expect(lines.pop()).toBe('Steps\n\n1. Run parse\n☐ Fix it\n\n│ ## not a heading');
+    });
+
+    it('should exit when the issue does not exist', async () => {
+      const mockFileManager = {
+        findIssue: jest.fn().mockResolvedValue({ found: false, error: 'Issue #9 not found' }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await expect(showCommand('9')).rejects.toThrow('Process exited');
+      expect(consoleError).toHaveBeenCalledWith('  Error: Issue #9 not found');
+    });
+  });
+
+  describe('Time tracking commands', () => {
+    it('should report the tracked time after pausing', async () => {
+      const mockFileManager = {
+        trackTime: jest.fn().mockResolvedValue({
+          success: true,
+          issue: { number: 2, title: 'Parser' },
+          totalMinutes: 125,
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await trackCommand('pause');
+
+      expect(mockFileManager.trackTime).toHaveBeenCalledWith('pause', undefined);
+      expect(consoleLog).toHaveBeenCalledWith('✓ Paused time tracking on issue #2');
+      expect(consoleLog).toHaveBeenCalledWith('  Tracked so far: 2h 05m');
+    });
+
+    it('should exit when tracking is not possible', async () => {
+      const mockFileManager = {
+        trackTime: jest.fn().mockResolvedValue({
+          success: false,
+          error: 'Issue #2 is in stash; time is only tracked in doing',
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await expect(trackCommand('start', '2')).rejects.toThrow('Process exited');
+      expect(consoleError).toHaveBeenCalledWith('✗ Failed to start time tracking');
+    });
+
+    it('should print time per label for a date range', async () => {
+      const mockFileManager = {
+        listIssues: jest.fn().mockResolvedValue({
+          success: true,
+          issues: [
+            {
+              number: 0,
+              title: 'Parser',
+              type: 'feat',
+              status: 'achieved',
+              labels: ['core'],
+              sessions: [
+                {
+                  Start: new Date(2026, 0, 12, 9).toISOString(),
+                  End: new Date(2026, 0, 12, 11).toISOString(),
+                  By: 'alice',
+                },
+              ],
+            },
+          ],
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await reportCommand({ since: '2026-01-12', until: '2026-01-18', by: 'label' });
+
+      expect(mockFileManager.listIssues).toHaveBeenCalledWith({ all: true });
+      expect(consoleLog).toHaveBeenCalledWith('Time by label from 2026-01-12 to 2026-01-18 (7 days)');
+      expect(consoleLog).toHaveBeenCalledWith(expect.stringMatching(/core\s+1\s+2h/));
+      expect(consoleLog).toHaveBeenCalledWith('Total: 2h');
+    });
+
+    it('should exit on a malformed date', async () => {
+      const mockFileManager = {
+        listIssues: jest.fn().mockResolvedValue({ success: true, issues: [] }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await expect(reportCommand({ since: 'yesterday' })).rejects.toThrow('Process exited');
+      expect(consoleError).toHaveBeenCalledWith('  Error: Invalid --since date "yesterday" (expected YYYY-MM-DD)');
+    });
+  });
+
+  describe('Dependency commands', () => {
+    const parser = { number: 0, id: 'IM-1', title: 'Parser' };
+    const crlf = { number: 1, id: 'IM-2', title: 'CRLF support' };
+
+    it('should link two issues', async () => {
+      const mockFileManager = {
+        linkIssues: jest
+          .fn()
+          .mockResolvedValue({ success: true, blocker: parser, blocked: crlf, changed: true }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await linkCommand('0', 'CRLF');
+
+      expect(mockFileManager.linkIssues).toHaveBeenCalledWith('0', 'CRLF');
+      expect(consoleLog).toHaveBeenCalledWith('✓ Issue #0 (IM-1) now blocks #1 (IM-2)');
+    });
+
+    it('should warn when there is no relation to remove', async () => {
+      const mockFileManager = {
+        unlinkIssues: jest
+          .fn()
+          .mockResolvedValue({ success: true, blocker: parser, blocked: crlf, changed: false }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await unlinkCommand('0', '1');
+
+      expect(consoleWarn).toHaveBeenCalledWith(
+        '⚠ Issue #0 (IM-1) did not block #1 (IM-2); nothing to change'
+      );
+    });
+
+    it('should exit when a link would create a cycle', async () => {
+      const mockFileManager = {
+        linkIssues: jest.fn().mockResolvedValue({
+          success: false,
+          error: 'Linking would create a cycle: IM-2 -> IM-1 -> IM-2',
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await expect(linkCommand('1', '0')).rejects.toThrow('Process exited');
+      expect(consoleError).toHaveBeenCalledWith('✗ Failed to link issues');
+    });
+
+    it('should list the blockers when open is refused', async () => {
+      const mockFileManager = {
+        openIssue: jest.fn().mockResolvedValue({
+          success: false,
+          error: 'Issue #1 is blocked by #0 (doing), which must be achieved first',
+          blockers: [{ ...parser, index: 0, type: 'feat', status: 'doing' }],
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await expect(openCommand('1')).rejects.toThrow('Process exited');
+      expect(consoleError).toHaveBeenCalledWith('  Blocked by #0 Parser (doing)');
+      expect(consoleError).toHaveBeenCalledWith('  Hint: Use --force to start it anyway');
+    });
+
+    it('should print the graph as a tree or as DOT', async () => {
+      const mockFileManager = {
+        listIssues: jest.fn().mockResolvedValue({
+          success: true,
+          issues: [
+            { ...parser, index: 0, type: 'feat', status: 'doing', blocks: ['IM-2'] },
+            { ...crlf, index: 1, type: 'feat', status: 'stash', blockedBy: ['IM-1'] },
+          ],
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await graphCommand();
+      await graphCommand({ dot: true });
+
+      expect(mockFileManager.listIssues).toHaveBeenCalledWith({ all: true });
+      expect(consoleLog).toHaveBeenCalledWith(
+        '#0 Parser (IM-1) [doing]\n└── #1 CRLF support (IM-2) [stash]'
+      );
+      expect(consoleLog).toHaveBeenCalledWith(expect.stringContaining('"IM-1" -> "IM-2";'));
+    });
+  });
+
+  describe('Migrate command', () => {
+    it('should report archive renames', async () => {
+      const mockFileManager = {
+        migrateArchive: jest.fn().mockResolvedValue({
+          success: true,
+          renames: [
+            {
+              from: '/test/.issues/achieved/Fix-typo.md',
+              to: '/test/.issues/achieved/2026-01-15_Fix-typo.md',
+              collision: false,
+            },
+          ],
+        }),
+        migrateUids: jest.fn().mockResolvedValue({
+          success: true,
+          assigned: [{ filePath: '/test/.issues/stash/Old.0.md', id: 'IM-4' }],
+        }),
+        migrateSchema: jest.fn().mockResolvedValue({
+          success: true,
+          upgrades: [
+            {
+              filePath: `${process.cwd()}/.issues/stash/Old.0.md`,
+              from: 1,
+              changes: ['Schema set to 2'],
+              before: '---\nType: feat\n---\n',
+              after: '---\nSchema: 2\nType: feat\n---\n',
+            },
+          ],
+          skipped: [{ filePath: `${process.cwd()}/.issues/stash/Bare.1.md`, reason: 'no Type' }],
+        }),
+      };
+      MockedFileManager.mockImplementation(() => mockFileManager as any);
+
+      await migrateCommand({ dryRun: true });
+
+      expect(mockFileManager.migrateArchive).toHaveBeenCalledWith({ dryRun: true });
+      expect(consoleLog).toHaveBeenCalledWith(
+        expect.stringContaining('Fix-typo.md -> 2026-01-15_Fix-typo.md')
+      );
+      expect(mockFileManager.migrateUids).toHaveBeenCalledWith({ dryRun: true });
+      expect(consoleLog).toHaveBeenCalledWith(expect.stringContaining('IM-4  Old.0.md'));
+      expect(mockFileManager.migrateSchema).toHaveBeenCalledWith({ dryRun: true });
+      expect(consoleLog).toHaveBeenCalledWith('Would upgrade 1 issue(s) to schema version 2:');
+      expect(consoleLog).toHaveBeenCalledWith(expect.stringContaining('+Schema: 2'));
+      expect(consoleWarn).toHaveBeenCalledWith('⚠ Skipped .issues/stash/Bare.1.md: no Type');
+    });
+  });
+
+  describe('Doctor command', () => {
+    it('should report findings and exit with an error when errors remain', async () => {
+      const run = jest.fn().mockResolvedValue({
+        success: true,
+        findings: [
+          {
+            severity: DoctorSeverity.ERROR,
+            code: 'duplicate-index',
+            message: 'Index 0 is also used by .issues/stash/First.0.md',
+            filePath: `${process.cwd()}/.issues/doing/Second.0.md`,
+            fixable: true,
+          },
+        ],
+      });
+      MockedIssueDoctor.mockImplementation(() => ({ run }) as any);
+
+      await expect(doctorCommand()).rejects.toThrow('Process exited with code 1');
+
+      expect(run).toHaveBeenCalledWith({ fix: undefined });
+      expect(consoleLog).toHaveBeenCalledWith(
+        expect.stringContaining('[error] .issues/doing/Second.0.md: Index 0 is also used by')
+      );
+      expect(consoleLog).toHaveBeenCalledWith(expect.stringContaining('(fixable with --fix)'));
+    });
+
+    it('should list applied repairs', async () => {
+      const run = jest.fn().mockResolvedValue({
+        success: true,
+        findings: [],
+        fixed: ['Renumbered .issues/doing/Second.0.md from #0 to #1'],
+      });
+      MockedIssueDoctor.mockImplementation(() => ({ run }) as any);
+
+      await doctorCommand({ fix: true });
+
+      expect(consoleLog).toHaveBeenCalledWith('✓ Fixed 1 problem(s):');
+      expect(consoleLog).toHaveBeenCalledWith('✓ No problems found');
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle whitespace-only identifier', async () => {
       try {
@@ -471,7 +1234,7 @@ describe('CLI Commands', () => {
 
       await openCommand('Fix: Bug<>in/login');
 
-      expect(mockFileManager.openIssue).toHaveBeenCalledWith('Fix: Bug<>in/login');
+      expect(mockFileManager.openIssue).toHaveBeenCalledWith('Fix: Bug<>in/login', {});
     });
   });
 });
@@ -10,6 +10,10 @@ import {
   getTimestamp,
   isValidDateFormat,
   getDaysBetween,
+  parseDuration,
+  normalizeDate,
+  formatDuration,
+  getMinutesBetween,
 } from '../../src/utils/date';
 
 describe('Date Utilities', () => {
@@ -228,6 +232,57 @@ describe('Date Utilities', () => {
     });
   });
 
+  describe('Date normalization', () => {
+    it('should convert year-first dates with other separators', () => {
+      expect(normalizeDate('2026/1/9')).toBe('2026-01-09');
+      expect(normalizeDate('2026.01.12')).toBe('2026-01-12');
+      expect(normalizeDate('2026-01-12T09:30:00Z')).toBe('2026-01-12');
+      expect(normalizeDate(new Date(2026, 0, 12))).toBe('2026-01-12');
+    });
+
+    it('should reject ambiguous or impossible dates', () => {
+      expect(normalizeDate('12/01/2026')).toBeNull();
+      expect(normalizeDate('2026/2/30')).toBeNull();
+      expect(normalizeDate(20260112)).toBeNull();
+    });
+  });
+
+  describe('Tracked time', () => {
+    it('should count whole minutes and never go negative', () => {
+      const start = new Date(2026, 0, 12, 9, 0);
+      expect(getMinutesBetween(start, new Date(2026, 0, 12, 10, 29, 40))).toBe(90);
+      expect(getMinutesBetween(start, new Date(2026, 0, 12, 8, 0))).toBe(0);
+    });
+
+    it('should format durations in hours and minutes', () => {
+      expect(formatDuration(0)).toBe('0m');
+      expect(formatDuration(45)).toBe('45m');
+      expect(formatDuration(180)).toBe('3h');
+      expect(formatDuration(125)).toBe('2h 05m');
+    });
+  });
+
+  describe('Duration parsing', () => {
+    it('should parse single units in minutes', () => {
+      expect(parseDuration('30m')).toBe(30);
+      expect(parseDuration('2h')).toBe(120);
+      expect(parseDuration('1.5d')).toBe(720);
+      expect(parseDuration('1w')).toBe(2400);
+    });
+
+    it('should add up compound durations', () => {
+      expect(parseDuration('1w2d')).toBe(3360);
+      expect(parseDuration('1H30M')).toBe(90);
+    });
+
+    it('should reject malformed or empty durations', () => {
+      expect(parseDuration('soon')).toBeNull();
+      expect(parseDuration('2 h')).toBeNull();
+      expect(parseDuration('0h')).toBeNull();
+      expect(parseDuration('')).toBeNull();
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle minimum date', () => {
       const date = new Date(0); // January 1, 1970
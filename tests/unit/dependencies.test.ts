@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for Issue Dependencies
+ */
+
+import {
+  getBlockingEdges,
+  findDependencyPath,
+  formatDependencyTree,
+  formatDependencyDot,
+} from '../../src/core/dependencies';
+import { IssueListItem } from '../../src/core/types';
+
+describe('Dependencies', () => {
+  const issue = (number: number, title: string, status: string, links: Partial<IssueListItem> = {}) => ({
+    title,
+    number,
+    index: number,
+    id: `IM-${number + 1}`,
+    type: 'feat',
+    status,
+    ...links,
+  });
+
+  // Parser (IM-1) blocks CRLF (IM-2) and BOM (IM-3); BOM records it only on its own side
+  const issues: IssueListItem[] = [
+    issue(0, 'Parser', 'achieved', { blocks: ['IM-2'] }),
+    issue(1, 'CRLF', 'doing', { blockedBy: ['IM-1'], blocks: ['IM-4'] }),
+    issue(2, 'BOM', 'stash', { blockedBy: ['IM-1'] }),
+    issue(3, 'Release', 'stash', { blockedBy: ['IM-2', 'IM-3'] }),
+    issue(4, 'Unrelated', 'stash'),
+  ];
+
+  it('should merge relations recorded on either side', () => {
+    expect(getBlockingEdges(issues)).toEqual(
+      new Map([
+        ['IM-1', ['IM-2', 'IM-3']],
+        ['IM-2', ['IM-4']],
+        ['IM-3', ['IM-4']],
+      ])
+    );
+  });
+
+  it('should find the chain between two issues', () => {
+    expect(findDependencyPath(issues, 'IM-1', 'IM-4')).toEqual(['IM-1', 'IM-2', 'IM-4']);
+    expect(findDependencyPath(issues, 'IM-4', 'IM-1')).toBeNull();
+  });
+
+  it('should draw a tree of what each issue blocks', () => {
+    expect(formatDependencyTree(issues)).toBe(
+      [
+        '#0 Parser (IM-1) [achieved]',
+        '├── #1 CRLF (IM-2) [doing]',
+        '│   └── #3 Release (IM-4) [stash]',
+        '└── #2 BOM (IM-3) [stash]',
+        '    └── #3 Release (IM-4) [stash]',
+      ].join('\n')
+    );
+    expect(formatDependencyTree([issue(4, 'Unrelated', 'stash')])).toBe('');
+  });
+
+  it('should mark cycles and missing issues in the tree', () => {
+    const tree = formatDependencyTree([
+      issue(0, 'A', 'stash', { blocks: ['IM-2', 'IM-9'] }),
+      issue(1, 'B', 'stash', { blocks: ['IM-1'] }),
+    ]);
+
+    expect(tree).toBe(
+      [
+        '#0 A (IM-1) [stash]',
+        '├── #1 B (IM-2) [stash]',
+        '│   └── #0 A (IM-1) [stash] (cycle)',
+        '└── IM-9 [missing]',
+      ].join('\n')
+    );
+  });
+
+  it('should write Graphviz DOT with escaped labels', () => {
+    const dot = formatDependencyDot([
+      issue(0, 'Say "hi"', 'achieved', { blocks: ['IM-2'] }),
+      issue(1, 'Next', 'stash'),
+    ]);
+
+    expect(dot).toBe(
+      [
+        'digraph issues {',
+        '  rankdir=LR;',
+        '  node [shape=box];',
+        '  "IM-1" [label="#0 Say \\"hi\\"\\nachieved", color=gray, fontcolor=gray];',
+        '  "IM-2" [label="#1 Next\\nstash"];',
+        '  "IM-1" -> "IM-2";',
+        '}',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Unit Tests for Diff Utilities
+ */
+
+import { diffLines, formatUnifiedDiff } from '../../src/utils/diff';
+
+describe('Diff Utilities', () => {
+  it('should mark added and removed lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: ' ', text: 'a' },
+      { type: '-', text: 'b' },
+      { type: '+', text: 'B' },
+      { type: ' ', text: 'c' },
+      { type: '+', text: 'd' },
+    ]);
+  });
+
+  it('should keep lines that moved past an insertion', () => {
+    expect(diffLines('x\ny', 'new\nx\ny').map(line => line.type)).toEqual(['+', ' ', ' ']);
+  });
+
+  it('should format changes as unified diff hunks with context', () => {
+    const before = ['---', 'Create Date: 2026/1/9', 'Type: bug', '---', '', ...'abcdefgh'].join('\n');
+    const after = before.replace('2026/1/9', '2026-01-09').replace('\nh', '\nh!');
+
+    expect(formatUnifiedDiff(before, after, { file: 'Old.0.md', context: 1 })).toBe(
+      [
+        '--- a/Old.0.md',
+        '+++ b/Old.0.md',
+        '@@ -1,3 +1,3 @@',
+        ' ---',
+        '-Create Date: 2026/1/9',
+        '+Create Date: 2026-01-09',
+        ' Type: bug',
+        '@@ -12,2 +12,2 @@',
+        ' g',
+        '-h',
+        '+h!',
+      ].join('\n')
+    );
+  });
+
+  it('should return an empty diff for equal texts', () => {
+    expect(formatUnifiedDiff('same\n', 'same\n', { file: 'a.md' })).toBe('');
+  });
+});
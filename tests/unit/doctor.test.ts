@@ -0,0 +1,249 @@
+/**
+ * Unit Tests for IssueDoctor
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { IssueDoctor } from '../../src/core/doctor';
+import { DoctorSeverity } from '../../src/core/types';
+
+// Mock fs module
+jest.mock('fs/promises');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('IssueDoctor', () => {
+  const basePath = '/test/project';
+  const issuesDir = path.join(basePath, '.issues');
+  let files: Map<string, string>;
+
+  const enoent = (file: string): Error =>
+    Object.assign(new Error(`ENOENT: ${file}`), { code: 'ENOENT' });
+
+  const issue = (index: number, id = index + 1, createDate = '2026-01-12') =>
+    `---\nCreate Date: "${createDate}"\nType: feat\nIndex: ${index}\nID: IM-${id}\n---\n\nBody`;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    files = new Map([[path.join(issuesDir, '.id-counter'), '10\n']]);
+
+    // Small in-memory file system keyed by absolute path
+    mockedFs.access.mockImplementation((async (file: string) => {
+      if (file !== issuesDir && !files.has(file)) {
+        throw enoent(file);
+      }
+    }) as any);
+    mockedFs.readdir.mockImplementation((async (dir: string) =>
+      [...files.keys()]
+        .filter(file => path.dirname(file) === dir)
+        .map(file => path.basename(file))) as any);
+    mockedFs.readFile.mockImplementation((async (file: string) => {
+      if (!files.has(file)) {
+        throw enoent(file);
+      }
+      return files.get(file);
+    }) as any);
+    mockedFs.writeFile.mockImplementation((async (file: string, content: string) => {
+      files.set(file, content);
+    }) as any);
+    mockedFs.rename.mockImplementation((async (from: string, to: string) => {
+      files.set(to, files.get(from)!);
+      files.delete(from);
+    }) as any);
+    mockedFs.link.mockImplementation((async (from: string, to: string) => {
+      files.set(to, files.get(from)!);
+    }) as any);
+    mockedFs.unlink.mockImplementation((async (file: string) => {
+      if (!files.delete(file)) {
+        throw enoent(file);
+      }
+    }) as any);
+    mockedFs.stat.mockResolvedValue({ mtime: new Date(2026, 0, 20), mtimeMs: Date.now() } as any);
+    mockedFs.mkdir.mockResolvedValue(undefined);
+    mockedFs.rm.mockResolvedValue(undefined);
+  });
+
+  it('should report a clean tree', async () => {
+    files.set(path.join(issuesDir, 'stash', 'First.0.md'), issue(0));
+
+    const result = await new IssueDoctor(basePath).run();
+
+    expect(result.success).toBe(true);
+    expect(result.findings).toEqual([]);
+  });
+
+  it('should read CRLF files and report frontmatter errors by line', async () => {
+    files.set(path.join(issuesDir, 'stash', 'First.0.md'), '\uFEFF' + issue(0).replace(/\n/g, '\r\n'));
+    files.set(
+      path.join(issuesDir, 'stash', 'Second.1.md'),
+      '---\nCreate Date: "2026-01-12"\nType: feat\nType: bug\n---\n\nBody'
+    );
+
+    const result = await new IssueDoctor(basePath).run();
+
+    expect(result.findings?.map(finding => [finding.code, path.basename(finding.filePath!)])).toEqual([
+      ['invalid-frontmatter', 'Second.1.md'],
+    ]);
+    expect(result.findings?.[0].message).toBe(
+      'Frontmatter cannot be parsed: line 4: Map keys must be unique'
+    );
+  });
+
+  it('should report duplicate indexes and index mismatches', async () => {
+    files.set(path.join(issuesDir, 'stash', 'First.0.md'), issue(0));
+    files.set(path.join(issuesDir, 'doing', 'Second.0.md'), issue(0, 5, '2026-01-13'));
+    files.set(path.join(issuesDir, 'stash', 'Third.2.md'), issue(5));
+
+    const result = await new IssueDoctor(basePath).run();
+
+    expect(result.findings?.map(finding => [finding.code, path.basename(finding.filePath!)])).toEqual([
+      ['index-mismatch', 'Third.2.md'],
+      ['duplicate-index', 'Second.0.md'],
+    ]);
+    expect(result.findings?.[1].severity).toBe(DoctorSeverity.ERROR);
+  });
+
+  it('should renumber duplicates and move their solution drafts', async () => {
+    files.set(path.join(issuesDir, 'stash', 'First.0.md'), issue(0));
+    files.set(path.join(issuesDir, 'doing', 'Second.0.md'), issue(0, 5, '2026-01-13'));
+    files.set(path.join(issuesDir, 'solution.0.md'), '# Solution for Issue #0: Second\n\nWork');
+
+    const result = await new IssueDoctor(basePath).run({ fix: true });
+
+    expect(result.findings).toEqual([]);
+    expect(result.fixed).toHaveLength(1);
+    expect(files.get(path.join(issuesDir, 'doing', 'Second.1.md'))).toContain('Index: 1');
+    expect(files.get(path.join(issuesDir, 'solution.1.md'))).toBe(
+      '# Solution for Issue #1: Second\n\nWork'
+    );
+    expect(files.has(path.join(issuesDir, 'solution.0.md'))).toBe(false);
+  });
+
+  it('should add frontmatter to files without it', async () => {
+    files.set(path.join(issuesDir, 'stash', 'Bare.3.md'), 'Just a description');
+
+    const report = await new IssueDoctor(basePath).run();
+    expect(report.findings?.[0].code).toBe('missing-frontmatter');
+
+    const result = await new IssueDoctor(basePath).run({ fix: true });
+
+    const rewritten = files.get(path.join(issuesDir, 'stash', 'Bare.3.md'))!;
+    expect(rewritten).toContain('Create Date: 2026-01-20');
+    expect(rewritten).toContain('Index: 3');
+    expect(rewritten).toContain('Just a description');
+    expect(result.findings?.map(finding => finding.code)).toEqual(['missing-id']);
+  });
+
+  it('should warn about malformed planning fields without rewriting them', async () => {
+    files.set(
+      path.join(issuesDir, 'stash', 'First.0.md'),
+      issue(0).replace('ID: IM-1\n', 'ID: IM-1\nPriority: urgent\nDue: soon\n')
+    );
+
+    const result = await new IssueDoctor(basePath).run({ fix: true });
+
+    expect(result.findings?.map(finding => [finding.code, finding.severity, finding.fixable])).toEqual([
+      ['invalid-field', DoctorSeverity.WARNING, false],
+    ]);
+    expect(result.findings?.[0].message).toBe('Frontmatter has a malformed Priority, Due');
+    expect(files.get(path.join(issuesDir, 'stash', 'First.0.md'))).toContain('Priority: urgent');
+  });
+
+  it('should only delete orphaned drafts nobody wrote into', async () => {
+    files.set(path.join(issuesDir, 'solution.4.md'), '# Solution for Issue #4: Gone\n\n');
+    files.set(path.join(issuesDir, 'solution.md'), '# Solution for Issue #7: Old\n\nNotes');
+
+    const result = await new IssueDoctor(basePath).run({ fix: true });
+
+    expect(files.has(path.join(issuesDir, 'solution.4.md'))).toBe(false);
+    expect(files.has(path.join(issuesDir, 'solution.md'))).toBe(true);
+    expect(result.findings?.map(finding => [finding.code, finding.fixable])).toEqual([
+      ['orphaned-solution', false],
+    ]);
+  });
+
+  it('should remove stale AGENTS.md task blocks', async () => {
+    files.set(path.join(issuesDir, 'doing', 'Current.1.md'), issue(1));
+    files.set(
+      path.join(basePath, 'AGENTS.md'),
+      '# AGENTS.md\n\n<!-- ISSUE-MAKE:START -->\n## Task: Finished\n\n**Issue ID:** 0\n<!-- ISSUE-MAKE:END -->\n' +
+        '<!-- ISSUE-MAKE:START -->\n## Task: Current\n\n**Issue ID:** 1\n<!-- ISSUE-MAKE:END -->\n'
+    );
+
+    const report = await new IssueDoctor(basePath).run();
+    expect(report.findings?.map(finding => finding.code)).toEqual(['stale-agents-task']);
+
+    await new IssueDoctor(basePath).run({ fix: true });
+
+    const agents = files.get(path.join(basePath, 'AGENTS.md'))!;
+    expect(agents).not.toContain('Finished');
+    expect(agents).toContain('## Task: Current');
+  });
+
+  it('should repair a stable ID counter that fell behind', async () => {
+    files.set(path.join(issuesDir, 'stash', 'First.0.md'), issue(0, 12));
+
+    const result = await new IssueDoctor(basePath).run({ fix: true });
+
+    expect(result.fixed).toEqual(['Set stable ID counter to 12']);
+    expect(files.get(path.join(issuesDir, '.id-counter'))).toBe('12\n');
+  });
+
+  it('should give copied issues a new stable ID', async () => {
+    files.set(path.join(issuesDir, 'stash', 'First.0.md'), issue(0));
+    files.set(path.join(issuesDir, 'stash', 'Copy.1.md'), issue(1, 1, '2026-01-14'));
+
+    const result = await new IssueDoctor(basePath).run({ fix: true });
+
+    expect(result.fixed).toEqual([
+      `Assigned new stable ID IM-11 to ${path.join('.issues', 'stash', 'Copy.1.md')}`,
+    ]);
+    expect(files.get(path.join(issuesDir, 'stash', 'Copy.1.md'))).toContain('ID: IM-11');
+    expect(files.get(path.join(issuesDir, '.id-counter'))).toBe('11\n');
+  });
+
+  it('should repair a copied issue file that reuses both the index and the stable ID', async () => {
+    files.set(path.join(issuesDir, 'stash', 'First.0.md'), issue(0));
+    files.set(path.join(issuesDir, 'stash', 'Copy-of-it.0.md'), issue(0, 1, '2026-01-14'));
+
+    const result = await new IssueDoctor(basePath).run({ fix: true });
+
+    expect(result.success).toBe(true);
+    expect(result.findings).toEqual([]);
+    expect(result.fixed).toEqual([
+      `Renumbered ${path.join('.issues', 'stash', 'Copy-of-it.0.md')} from #0 to #1`,
+      `Assigned new stable ID IM-11 to ${path.join('.issues', 'stash', 'Copy-of-it.1.md')}`,
+    ]);
+    expect(files.get(path.join(issuesDir, 'stash', 'Copy-of-it.1.md'))).toContain('ID: IM-11');
+    expect(files.has(path.join(issuesDir, 'stash', 'Copy-of-it.0.md'))).toBe(false);
+  });
+
+  it('should move attachment folders left behind to their issue', async () => {
+    // Folders are stored as entries so readdir lists them
+    files.set(path.join(issuesDir, 'doing', 'First.0.md'), issue(0));
+    files.set(path.join(issuesDir, 'stash', 'attachments', 'IM-1'), '');
+    files.set(path.join(issuesDir, 'stash', 'attachments', 'IM-9'), '');
+
+    const report = await new IssueDoctor(basePath).run();
+
+    expect(report.findings?.map(finding => [finding.code, finding.fixable])).toEqual([
+      ['misplaced-attachments', true],
+      ['orphaned-attachments', false],
+    ]);
+
+    const result = await new IssueDoctor(basePath).run({ fix: true });
+
+    expect(result.fixed).toEqual([
+      `Moved ${path.join('.issues', 'stash', 'attachments', 'IM-1')} to ${path.join('.issues', 'doing', 'attachments', 'IM-1')}`,
+    ]);
+    expect(files.has(path.join(issuesDir, 'doing', 'attachments', 'IM-1'))).toBe(true);
+    expect(result.findings?.map(finding => finding.code)).toEqual(['orphaned-attachments']);
+  });
+
+  it('should fail when there is no issues directory', async () => {
+    mockedFs.access.mockRejectedValue(enoent(issuesDir));
+
+    const result = await new IssueDoctor(basePath).run();
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Unit Tests for Filter Module
+ */
+
+import {
+  FilterEntry,
+  FilterQueryError,
+  parseFilterQuery,
+  checkFilterQuery,
+  hasStatusCondition,
+  matchesFilter,
+} from '../../src/core/filter';
+
+describe('Filter', () => {
+  const entry = (
+    item: Partial<FilterEntry['item']>,
+    metadata: Record<string, unknown> = {},
+    body = ''
+  ): FilterEntry => ({
+    item: {
+      title: 'Parser',
+      number: 1,
+      index: 1,
+      type: 'bug',
+      status: 'doing',
+      ...item,
+    },
+    metadata: { 'Create Date': '2026-01-12', ...metadata },
+    body,
+  });
+
+  describe('parseFilterQuery', () => {
+    it('should parse conditions, comparisons and text', () => {
+      expect(
+        parseFilterQuery(
+          'type:bug,feat -label:wip created:>2026-01-01 "line endings" -flaky'
+        )
+      ).toEqual({
+        conditions: [
+          {
+            field: 'type',
+            operator: ':',
+            values: ['bug', 'feat'],
+            negated: false,
+          },
+          { field: 'label', operator: ':', values: ['wip'], negated: true },
+          {
+            field: 'created',
+            operator: '>',
+            values: ['2026-01-01'],
+            negated: false,
+          },
+        ],
+        text: ['line endings'],
+        excludedText: ['flaky'],
+      });
+    });
+
+    it('should resolve aliases and quoted values', () => {
+      expect(
+        parseFilterQuery('state:doing labels:"good first issue"').conditions
+      ).toEqual([
+        { field: 'status', operator: ':', values: ['doing'], negated: false },
+        {
+          field: 'label',
+          operator: ':',
+          values: ['good first issue'],
+          negated: false,
+        },
+      ]);
+    });
+
+    it('should explain malformed values', () => {
+      expect(() => parseFilterQuery('type:')).toThrow(
+        'Filter "type:" needs a value, such as type:value'
+      );
+      expect(() => parseFilterQuery('created:>yesterday')).toThrow(
+        'created: "yesterday" is not a date in YYYY-MM-DD format'
+      );
+      expect(() => parseFilterQuery('type:>bug')).toThrow(
+        'type cannot be compared with >; use type:value'
+      );
+      expect(() => parseFilterQuery('priority:urgent')).toThrow(
+        FilterQueryError
+      );
+    });
+  });
+
+  describe('checkFilterQuery', () => {
+    const context = {
+      statuses: ['stash', 'doing', 'achieved'],
+      frontmatterKeys: ['Milestone'],
+    };
+
+    it('should accept built-in fields and frontmatter keys', () => {
+      expect(() =>
+        checkFilterQuery(
+          parseFilterQuery('milestone:v2 status:achieved'),
+          context
+        )
+      ).not.toThrow();
+    });
+
+    it('should suggest the field or list the statuses', () => {
+      expect(() =>
+        checkFilterQuery(parseFilterQuery('lable:ui'), context)
+      ).toThrow('Unknown filter field "lable". Did you mean "label"?');
+      expect(() =>
+        checkFilterQuery(parseFilterQuery('sprint:4'), context)
+      ).toThrow(
+        'Unknown filter field "sprint". Use one of type, status, label'
+      );
+      expect(() =>
+        checkFilterQuery(parseFilterQuery('status:doign'), context)
+      ).toThrow('Unknown status "doign". Statuses: stash, doing, achieved');
+    });
+  });
+
+  describe('matchesFilter', () => {
+    it('should match fields, comparisons and text', () => {
+      const issue = entry(
+        { labels: ['parser', 'ui'], priority: 'high', estimate: '2h' },
+        { Milestone: 'v2' },
+        'Fails on CRLF\r\nline endings'
+      );
+
+      expect(
+        matchesFilter(
+          issue,
+          parseFilterQuery('type:BUG label:parser "crlf line"')
+        )
+      ).toBe(true);
+      expect(
+        matchesFilter(
+          issue,
+          parseFilterQuery('priority:>=medium estimate:<1d milestone:v2')
+        )
+      ).toBe(true);
+      expect(
+        matchesFilter(issue, parseFilterQuery('created:>2026-01-12'))
+      ).toBe(false);
+      expect(
+        matchesFilter(issue, parseFilterQuery('created:2026-01-12 -label:ui'))
+      ).toBe(false);
+      expect(matchesFilter(issue, parseFilterQuery('parser -crlf'))).toBe(
+        false
+      );
+    });
+
+    it('should treat unset fields as not matching and * as any value', () => {
+      expect(matchesFilter(entry({}), parseFilterQuery('assignee:*'))).toBe(
+        false
+      );
+      expect(matchesFilter(entry({}), parseFilterQuery('-assignee:*'))).toBe(
+        true
+      );
+      expect(
+        matchesFilter(
+          entry({ assignee: 'alice' }),
+          parseFilterQuery('assignee:Alice,bob')
+        )
+      ).toBe(true);
+    });
+  });
+
+  it('should look at archived states only for a status condition', () => {
+    expect(hasStatusCondition(parseFilterQuery('status:achieved'))).toBe(true);
+    expect(hasStatusCondition(parseFilterQuery('-status:stash type:bug'))).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Unit Tests for the Frontmatter Module
+ */
+
+import {
+  parseFrontmatter,
+  stringifyFrontmatter,
+  hasFrontmatter,
+  FrontmatterError,
+} from '../../src/core/frontmatter';
+
+describe('Frontmatter', () => {
+  const expected = { 'Create Date': '2026-01-12', Type: 'feat', Index: 0 };
+
+  describe('YAML variants', () => {
+    it('should parse the format issue-make writes', () => {
+      const result = parseFrontmatter(
+        '---\nCreate Date: "2026-01-12"\nType: feat\nIndex: 0\n---\n\nBody\n'
+      );
+
+      expect(result).toEqual({ metadata: expected, body: 'Body\n', format: 'yaml' });
+    });
+
+    it('should accept CRLF line endings', () => {
+      const result = parseFrontmatter(
+        '---\r\nCreate Date: "2026-01-12"\r\nType: feat\r\nIndex: 0\r\n---\r\n\r\nLine one\r\nLine two'
+      );
+
+      expect(result.metadata).toEqual(expected);
+      expect(result.body).toBe('Line one\nLine two');
+    });
+
+    it('should skip a UTF-8 byte order mark', () => {
+      const result = parseFrontmatter('\uFEFF---\nCreate Date: "2026-01-12"\nType: feat\nIndex: 0\n---\nBody');
+
+      expect(result.metadata).toEqual(expected);
+      expect(result.body).toBe('Body');
+    });
+
+    it('should accept a closing fence at the end of the file', () => {
+      const result = parseFrontmatter('---\nCreate Date: "2026-01-12"\nType: feat\nIndex: 0\n---');
+
+      expect(result.metadata).toEqual(expected);
+      expect(result.body).toBe('');
+    });
+
+    it('should treat empty frontmatter as no metadata', () => {
+      expect(parseFrontmatter('---\n---\nBody').metadata).toEqual({});
+    });
+
+    it('should return files without a fence unchanged', () => {
+      expect(parseFrontmatter('Just text\r\n')).toEqual({
+        metadata: {},
+        body: 'Just text\n',
+        format: null,
+      });
+      expect(hasFrontmatter('Just text')).toBe(false);
+      expect(hasFrontmatter('\uFEFF---\r\nType: feat\r\n---\r\n')).toBe(true);
+    });
+  });
+
+  describe('TOML frontmatter', () => {
+    it('should parse key/value pairs, arrays and tables', () => {
+      const result = parseFrontmatter(
+        [
+          '+++',
+          '"Create Date" = 2026-01-12',
+          "Type = 'bug'",
+          'Index = 3  # trailing comment',
+          'Labels = [',
+          '  "auth",',
+          '  "ui",',
+          ']',
+          'Estimate = "2h"',
+          'draft = true',
+          'weight = 1_000',
+          'owner.name = "alice"',
+          '',
+          '[extra]',
+          'tags = { source = "import", score = 0.5 }',
+          '+++',
+          '',
+          'Body',
+        ].join('\n')
+      );
+
+      expect(result.format).toBe('toml');
+      expect(result.metadata).toEqual({
+        'Create Date': '2026-01-12',
+        Type: 'bug',
+        Index: 3,
+        Labels: ['auth', 'ui'],
+        Estimate: '2h',
+        draft: true,
+        weight: 1000,
+        owner: { name: 'alice' },
+        extra: { tags: { source: 'import', score: 0.5 } },
+      });
+      expect(result.body).toBe('Body');
+    });
+
+    it('should decode escapes and multi-line strings', () => {
+      const result = parseFrontmatter(
+        '+++\nTitle = "Say \\"hi\\" \\u00e9"\nNotes = """\nfirst\nsecond"""\n+++\n'
+      );
+
+      expect(result.metadata).toEqual({ Title: 'Say "hi" é', Notes: 'first\nsecond' });
+    });
+
+    it('should turn dates and times into ISO strings and read arrays of tables', () => {
+      const result = parseFrontmatter(
+        [
+          '+++',
+          'Due = 2026-02-01',
+          'Updated = 2026-01-12T09:30:00Z',
+          'Reminder = 09:30:00',
+          '[[Sessions]]',
+          'Start = 2026-01-12T09:00:00+01:00',
+          '[[Sessions]]',
+          'Start = 2026-01-13T10:00:00',
+          '+++',
+        ].join('\n')
+      );
+
+      expect(result.metadata).toEqual({
+        Due: '2026-02-01',
+        Updated: '2026-01-12T09:30:00.000Z',
+        Reminder: '09:30:00.000',
+        Sessions: [{ Start: '2026-01-12T09:00:00.000+01:00' }, { Start: '2026-01-13T10:00:00.000' }],
+      });
+    });
+  });
+
+  describe('Errors', () => {
+    const lineOf = (content: string): number => {
+      try {
+        parseFrontmatter(content);
+      } catch (error) {
+        expect(error).toBeInstanceOf(FrontmatterError);
+        return (error as FrontmatterError).line;
+      }
+      throw new Error('Expected a FrontmatterError');
+    };
+
+    it('should report YAML errors with the line in the file', () => {
+      expect(lineOf('---\nType: feat\nType: bug\n---\n')).toBe(3);
+      expect(() => parseFrontmatter('---\nType: feat\nType: bug\n---\n')).toThrow(
+        'line 3: Map keys must be unique'
+      );
+    });
+
+    it('should report TOML errors with the line in the file', () => {
+      expect(lineOf('+++\nType = "feat"\n\nIndex = \n+++\n')).toBe(4);
+      expect(lineOf('+++\nType = "feat"\nType = "bug"\n+++\n')).toBe(3);
+      expect(lineOf('+++\nTitle = "open\n+++\n')).toBe(2);
+    });
+
+    it('should report a fence that is never closed', () => {
+      expect(() => parseFrontmatter('---\nType: feat\n\nBody')).toThrow(
+        'line 1: frontmatter opened with --- is never closed'
+      );
+    });
+
+    it('should reject frontmatter that is not a mapping', () => {
+      expect(() => parseFrontmatter('---\n- feat\n---\n')).toThrow('must be a mapping');
+    });
+  });
+
+  describe('Rewriting', () => {
+    it('should keep keys issue-make does not know about', () => {
+      const { metadata, body } = parseFrontmatter(
+        '+++\nType = "feat"\nreviewers = ["bob"]\n[links]\ndocs = "https://example.com"\n+++\nBody'
+      );
+
+      const rewritten = parseFrontmatter(stringifyFrontmatter({ ...metadata, Index: 2 }, body));
+
+      expect(rewritten.format).toBe('yaml');
+      expect(rewritten.metadata).toEqual({
+        Type: 'feat',
+        reviewers: ['bob'],
+        links: { docs: 'https://example.com' },
+        Index: 2,
+      });
+      expect(rewritten.body).toBe('Body');
+    });
+
+    it('should write TOML frontmatter back between +++ fences', () => {
+      const { metadata, body, format } = parseFrontmatter(
+        '+++\nType = "feat"\nDue = 2026-02-01\n[[Sessions]]\nStart = "2026-01-12T09:00:00Z"\n+++\n\nBody'
+      );
+
+      const content = stringifyFrontmatter({ ...metadata, Index: 2 }, body, format!);
+
+      expect(content).toBe(
+        '+++\nType = "feat"\nDue = "2026-02-01"\nIndex = 2\n\n[[Sessions]]\nStart = "2026-01-12T09:00:00Z"\n+++\n\nBody'
+      );
+      expect(parseFrontmatter(content).metadata).toEqual({ ...metadata, Index: 2 });
+    });
+  });
+});
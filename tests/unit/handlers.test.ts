@@ -13,6 +13,13 @@ import {
   addCommandHandler,
   openCommandHandler,
   closeCommandHandler,
+  reopenCommandHandler,
+  moveCommandHandler,
+  trackCommandHandler,
+  checkCommandHandler,
+  noteCommandHandler,
+  searchCommandHandler,
+  showCommandHandler,
 } from '../../src/tui/handlers';
 import { IssueType } from '../../src/core/types';
 
@@ -82,10 +89,77 @@ describe('TUI Command Handlers', () => {
         },
         solutionPath: path.join(basePath, '.issues', 'solution.md'),
       }),
+      reopenIssue: jest.fn().mockResolvedValue({
+        success: true,
+        issue: {
+          number: 2,
+          title: 'Archived Issue',
+          type: IssueType.BUG,
+          content: 'Test content',
+          createDate: new Date(),
+          status: 'doing',
+        },
+        solutionPath: path.join(basePath, '.issues', 'solution.2.md'),
+        reopened: true,
+      }),
       closeIssue: jest.fn().mockResolvedValue({
         success: true,
+        issue: { number: 0, title: 'Test Issue', type: IssueType.FEAT, content: 'Test content', status: 'achieved' },
         archivedPath: path.join(basePath, '.issues', 'achieved', 'Test.md'),
       }),
+      moveIssue: jest.fn().mockResolvedValue({
+        success: true,
+        issue: {
+          number: 4,
+          title: 'Blocked Work',
+          type: IssueType.TODO,
+          content: 'Waiting on the API',
+          createDate: new Date(),
+          status: 'doing',
+          filePath: path.join(basePath, '.issues', 'doing', 'Blocked-Work.4.md'),
+        },
+        from: 'blocked',
+        to: 'doing',
+        solutionPath: path.join(basePath, '.issues', 'solution.4.md'),
+      }),
+      trackTime: jest.fn().mockResolvedValue({
+        success: true,
+        issue: {
+          number: 4,
+          id: 'IM-5',
+          title: 'Blocked Work',
+          type: IssueType.TODO,
+          content: 'Waiting on the API',
+          status: 'doing',
+        },
+        totalMinutes: 95,
+      }),
+      addNote: jest.fn().mockResolvedValue({
+        success: true,
+        issue: {
+          number: 4,
+          id: 'IM-5',
+          title: 'Blocked Work',
+          type: IssueType.TODO,
+          content: 'Waiting on the API',
+          status: 'doing',
+        },
+        note: { at: '2026-01-13T09:00:00Z', by: 'alice', text: 'API is live' },
+      }),
+      checkItem: jest.fn().mockResolvedValue({
+        success: true,
+        issue: {
+          number: 4,
+          id: 'IM-5',
+          title: 'Blocked Work',
+          type: IssueType.TODO,
+          content: '- [x] Call the API\n- [ ] Handle errors',
+          status: 'doing',
+        },
+        item: { number: 1, text: 'Call the API', checked: true, optional: false, line: 0 },
+        progress: { done: 1, total: 2 },
+        changed: true,
+      }),
     };
 
     mockAIService = {
@@ -278,6 +352,24 @@ describe('TUI Command Handlers', () => {
       expect(result.error).toBe('Issue not found');
     });
 
+    it('should pass on the candidates of an ambiguous title', async () => {
+      const candidates = [
+        { number: 1, id: 'IM-1', title: 'Parser-crash', status: 'stash', score: 80 },
+        { number: 2, id: 'IM-2', title: 'Parser-docs', status: 'todo', score: 80 },
+      ];
+      mockFileManager.openIssue.mockResolvedValue({
+        success: false,
+        error: 'Title "parser" matches 2 issues; use a number or ID to pick one',
+        candidates,
+      });
+
+      const result = await openCommandHandler('parser', '/test');
+
+      expect(result.success).toBe(false);
+      expect(result.candidates).toEqual(candidates);
+      expect(mockedFs.writeFile).not.toHaveBeenCalled();
+    });
+
     it('should update AGENTS.md file', async () => {
       const result = await openCommandHandler('0', '/test');
 
@@ -324,7 +416,221 @@ describe('TUI Command Handlers', () => {
     });
   });
 
+  describe('reopenCommandHandler', () => {
+    it('should reopen archived issue and update AGENTS.md', async () => {
+      const result = await reopenCommandHandler('2', basePath);
+
+      expect(result.success).toBe(true);
+      expect(result.reopened).toBe(true);
+      expect(result.issue?.number).toBe(2);
+      expect(result.solutionPath).toBe(path.join(basePath, '.issues', 'solution.2.md'));
+      expect(mockFileManager.reopenIssue).toHaveBeenCalledWith('2');
+      const written = mockedFs.writeFile.mock.calls[0][1] as string;
+      expect(written).toContain('solution.2.md');
+    });
+
+    it('should return error for empty identifier', async () => {
+      const result = await reopenCommandHandler('  ', basePath);
+
+      expect(result.success).toBe(false);
+      expect(mockFileManager.reopenIssue).not.toHaveBeenCalled();
+    });
+
+    it('should handle file manager errors', async () => {
+      mockFileManager.reopenIssue.mockResolvedValue({
+        success: false,
+        error: 'Issue with number 9 not found',
+      });
+
+      const result = await reopenCommandHandler('9', basePath);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Issue with number 9 not found');
+    });
+  });
+
+  describe('moveCommandHandler', () => {
+    it('should move an issue and describe it in AGENTS.md when it enters doing', async () => {
+      const result = await moveCommandHandler('4', 'doing', basePath);
+
+      expect(result.success).toBe(true);
+      expect(result.from).toBe('blocked');
+      expect(result.to).toBe('doing');
+      expect(result.agentsPath).toBe(path.join(basePath, 'AGENTS.md'));
+      expect(mockFileManager.moveIssue).toHaveBeenCalledWith('4', 'doing');
+      const written = mockedFs.writeFile.mock.calls[0][1] as string;
+      expect(written).toContain('## Task: Blocked Work');
+    });
+
+    it('should require a target state', async () => {
+      const result = await moveCommandHandler('4', ' ', basePath);
+
+      expect(result.success).toBe(false);
+      expect(mockFileManager.moveIssue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('trackCommandHandler', () => {
+    it('should report the issue and the time tracked so far', async () => {
+      const result = await trackCommandHandler('pause', '4', basePath);
+
+      expect(result).toEqual({
+        success: true,
+        issue: { number: 4, id: 'IM-5', title: 'Blocked Work' },
+        totalMinutes: 95,
+      });
+      expect(mockFileManager.trackTime).toHaveBeenCalledWith('pause', '4');
+    });
+
+    it('should let the file manager pick the issue when none is named', async () => {
+      mockFileManager.trackTime.mockResolvedValue({
+        success: false,
+        error: 'Several issues are in doing (#1, #4); please name one',
+      });
+
+      const result = await trackCommandHandler('start', ' ', basePath);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('please name one');
+      expect(mockFileManager.trackTime).toHaveBeenCalledWith('start', undefined);
+    });
+  });
+
+  describe('noteCommandHandler', () => {
+    it('should report the issue and the note', async () => {
+      const result = await noteCommandHandler('IM-5', 'API is live', basePath);
+
+      expect(result).toEqual({
+        success: true,
+        issue: { number: 4, id: 'IM-5', title: 'Blocked Work' },
+        note: { at: '2026-01-13T09:00:00Z', by: 'alice', text: 'API is live' },
+      });
+      expect(mockFileManager.addNote).toHaveBeenCalledWith('IM-5', 'API is live');
+    });
+
+    it('should require the note text', async () => {
+      const result = await noteCommandHandler('4', ' ', basePath);
+
+      expect(result.success).toBe(false);
+      expect(mockFileManager.addNote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('searchCommandHandler', () => {
+    it('should format the best hits', async () => {
+      mockFileManager.searchIssues = jest.fn().mockResolvedValue({
+        success: true,
+        total: 1,
+        hits: [
+          {
+            issue: { title: 'Blocked Work', number: 4, index: 4, id: 'IM-5', type: 'feat', status: 'doing' },
+            score: 1,
+            snippets: [{ field: 'description', text: 'Waits for the API' }],
+          },
+        ],
+      });
+
+      const result = await searchCommandHandler('api', basePath);
+
+      expect(result.success).toBe(true);
+      expect(result.output?.replace(/\u001b\[\d+m/g, '')).toBe(
+        '1 issue matches "api"\n\n#4 IM-5 Blocked Work (doing, feat)\n  description: Waits for the API'
+      );
+      expect(mockFileManager.searchIssues).toHaveBeenCalledWith('api', { limit: 10 });
+    });
+
+    it('should require a query', async () => {
+      expect((await searchCommandHandler('  ', basePath)).success).toBe(false);
+    });
+  });
+
+  describe('showCommandHandler', () => {
+    it('should render an archived issue without moving it', async () => {
+      mockFileManager.findIssue = jest.fn().mockResolvedValue({
+        found: true,
+        issue: {
+          number: 2,
+          id: 'IM-3',
+          title: 'Parser crash',
+          type: 'bug',
+          status: 'achieved',
+          content: '## Steps\n\n- [x] Reproduce\n\n---\n\n## Solution\n\nFixed the tokenizer',
+          filePath: path.join(basePath, '.issues', 'achieved', '2026-01-15_Parser-crash.2.md'),
+          metadata: { 'Create Date': '2026-01-12', Type: 'bug', Index: 2, Priority: 'high' },
+        },
+      });
+
+      const result = await showCommandHandler('IM-3', basePath);
+
+      expect(result.success).toBe(true);
+      expect(result.output?.replace(/\u001b\[\d+m/g, '').split('\n')).toEqual([
+        '#2 Parser crash (IM-3)',
+        '  Type: bug',
+        '  Status: achieved',
+        '  Priority: high',
+        '  Created: 2026-01-12',
+        '  Checklist: 1/1',
+        '  File: .issues/achieved/2026-01-15_Parser-crash.2.md',
+        '',
+        'Steps',
+        '',
+        '☑ Reproduce',
+        '',
+        '─'.repeat(40),
+        '',
+        'Solution',
+        '',
+        'Fixed the tokenizer',
+      ]);
+      expect(mockFileManager.findIssue).toHaveBeenCalledWith('IM-3');
+      expect(mockedFs.rename).not.toHaveBeenCalled();
+    });
+
+    it('should pass on the candidates of an ambiguous title', async () => {
+      const candidates = [
+        { number: 1, title: 'Parser-crash', status: 'stash', score: 80 },
+        { number: 2, title: 'Parser-docs', status: 'todo', score: 80 },
+      ];
+      mockFileManager.findIssue = jest.fn().mockResolvedValue({ found: false, error: 'ambiguous', candidates });
+
+      const result = await showCommandHandler('parser', basePath);
+
+      expect(result).toEqual({ success: false, error: 'ambiguous', candidates });
+    });
+  });
+
+  describe('checkCommandHandler', () => {
+    it('should report the item and the checklist progress', async () => {
+      const result = await checkCommandHandler('Blocked Work', '1', basePath);
+
+      expect(result).toEqual({
+        success: true,
+        issue: { number: 4, id: 'IM-5', title: 'Blocked Work' },
+        item: { number: 1, text: 'Call the API', checked: true },
+        progress: '1/2',
+        changed: true,
+      });
+      expect(mockFileManager.checkItem).toHaveBeenCalledWith('Blocked Work', 1, true);
+    });
+
+    it('should clear the item when unchecking and reject bad item numbers', async () => {
+      await checkCommandHandler('4', '2', basePath, { uncheck: true });
+
+      expect(mockFileManager.checkItem).toHaveBeenCalledWith('4', 2, false);
+      expect((await checkCommandHandler('4', 'two', basePath)).error).toBe(
+        'Invalid checklist item "two"'
+      );
+    });
+  });
+
   describe('closeCommandHandler', () => {
+    const agentsWithTask =
+      '# AGENTS.md\n\n<!-- ISSUE-MAKE:START -->\n## Task: Test Issue\n\n**Issue ID:** 0\n<!-- ISSUE-MAKE:END -->\n';
+
+    beforeEach(() => {
+      mockedFs.readFile.mockResolvedValue(agentsWithTask);
+    });
+
     it('should close issue successfully with valid identifier', async () => {
       const identifier = '0';
       const result = await closeCommandHandler(identifier, basePath);
@@ -332,7 +638,7 @@ describe('TUI Command Handlers', () => {
       expect(result.success).toBe(true);
       expect(result.archivedPath).toBe(path.join(basePath, '.issues', 'achieved', 'Test.md'));
       expect(result.agentsPath).toBeDefined();
-      expect(mockFileManager.closeIssue).toHaveBeenCalledWith(identifier);
+      expect(mockFileManager.closeIssue).toHaveBeenCalledWith(identifier, {});
       expect(mockedFs.writeFile).toHaveBeenCalled();
     });
 
@@ -371,12 +677,44 @@ describe('TUI Command Handlers', () => {
       expect(mockedFs.writeFile).toHaveBeenCalled();
     });
 
-    it('should return error when AGENTS.md cleanup fails', async () => {
-      mockFileManager.closeIssue.mockResolvedValue({
+    it('should keep the tasks of the other issues in doing', async () => {
+      const files = new Map<string, string>();
+      mockedFs.readFile.mockImplementation((async (file: string) => {
+        if (!files.has(file)) {
+          throw new Error('ENOENT');
+        }
+        return files.get(file);
+      }) as any);
+      mockedFs.writeFile.mockImplementation((async (file: string, content: string) => {
+        files.set(file, content);
+      }) as any);
+      mockedFs.rename.mockImplementation((async (from: string, to: string) => {
+        files.set(to, files.get(from)!);
+        files.delete(from);
+      }) as any);
+      const opened = (number: number, title: string) => ({
         success: true,
-        archivedPath: '/test/.issues/achieved/Test.md',
+        issue: { number, title, type: IssueType.FEAT, content: 'Body', createDate: new Date(), status: 'doing' },
+        solutionPath: path.join(basePath, '.issues', `solution.${number}.md`),
       });
-      mockedFs.readFile.mockRejectedValue(new Error('Read error'));
+      mockFileManager.openIssue
+        .mockResolvedValueOnce(opened(0, 'Test Issue'))
+        .mockResolvedValueOnce(opened(1, 'Second Issue'));
+
+      await openCommandHandler('0', basePath);
+      await openCommandHandler('1', basePath);
+      const result = await closeCommandHandler('0', basePath);
+
+      expect(result.success).toBe(true);
+      const agents = files.get(path.join(basePath, 'AGENTS.md'))!;
+      expect(agents).not.toContain('## Task: Test Issue');
+      expect(agents).toContain('## Task: Second Issue');
+      expect(agents).toContain(path.join(basePath, '.issues', 'solution.1.md'));
+      expect(agents.match(/ISSUE-MAKE:START/g)).toHaveLength(1);
+    });
+
+    it('should return error when AGENTS.md cleanup fails', async () => {
+      mockedFs.writeFile.mockRejectedValue(new Error('Write error'));
 
       const result = await closeCommandHandler('0', '/test');
 
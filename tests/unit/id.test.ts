@@ -0,0 +1,32 @@
+/**
+ * Unit Tests for Stable ID Utilities
+ */
+
+import { formatIssueUid, parseIssueUid, isUidIdentifier } from '../../src/utils/id';
+
+describe('Stable ID Utilities', () => {
+  it('should format counter values with the IM prefix', () => {
+    expect(formatIssueUid(1)).toBe('IM-1');
+    expect(formatIssueUid(120)).toBe('IM-120');
+  });
+
+  it('should parse stable IDs case insensitively', () => {
+    expect(parseIssueUid('IM-12')).toBe(12);
+    expect(parseIssueUid('im-12')).toBe(12);
+    expect(parseIssueUid(' IM-3 ')).toBe(3);
+  });
+
+  it('should reject values that are not stable IDs', () => {
+    expect(parseIssueUid('12')).toBeNull();
+    expect(parseIssueUid('IM-')).toBeNull();
+    expect(parseIssueUid('fix IM-3 parser')).toBeNull();
+    expect(parseIssueUid(12)).toBeNull();
+    expect(parseIssueUid(undefined)).toBeNull();
+  });
+
+  it('should tell stable IDs apart from index numbers and titles', () => {
+    expect(isUidIdentifier('IM-7')).toBe(true);
+    expect(isUidIdentifier('7')).toBe(false);
+    expect(isUidIdentifier('image parser')).toBe(false);
+  });
+});
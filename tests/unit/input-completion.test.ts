@@ -5,9 +5,12 @@
 
 import {
   AVAILABLE_COMMANDS,
+  buildAvailableCommands,
   getMatchingCommands,
   getCompletionPreview,
   getNextSelectedIndex,
+  formatIssueCandidate,
+  getCandidateIdentifier,
 } from '../../src/tui/components/input-logic';
 
 describe('Input Component - Command Completion Logic', () => {
@@ -35,6 +38,15 @@ describe('Input Component - Command Completion Logic', () => {
       expect(matches).not.toContain('/list');
     });
 
+    it('should complete configured issue types', () => {
+      const commands = buildAvailableCommands(['spike', 'chore']);
+      const matches = getMatchingCommands('/add', commands);
+
+      expect(matches).toContain('/add:spike');
+      expect(matches).toContain('/add:chore');
+      expect(matches).not.toContain('/add:feat');
+    });
+
     it('should hide completion when no matches found', () => {
       const matches = getMatchingCommands('/xyz');
       expect(matches).toHaveLength(0);
@@ -90,4 +102,18 @@ describe('Input Component - Command Completion Logic', () => {
       expect(nextIndex).toBe(0);
     });
   });
+
+  describe('Issue picker', () => {
+    const candidate = { number: 3, id: 'IM-4', title: 'Parser-crash', status: 'doing', score: 80 };
+
+    it('should label candidates with their number, ID and status', () => {
+      expect(formatIssueCandidate(candidate)).toBe('#3 IM-4 Parser-crash (doing)');
+      expect(formatIssueCandidate({ ...candidate, id: undefined })).toBe('#3 Parser-crash (doing)');
+    });
+
+    it('should re-run commands by stable ID, falling back to the number', () => {
+      expect(getCandidateIdentifier(candidate)).toBe('IM-4');
+      expect(getCandidateIdentifier({ ...candidate, id: undefined })).toBe('3');
+    });
+  });
 });
@@ -0,0 +1,81 @@
+/**
+ * Unit Tests for IssueLock
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { IssueLock } from '../../src/core/lock';
+
+// Mock fs module
+jest.mock('fs/promises');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('IssueLock', () => {
+  const basePath = '/test/project';
+  const lockPath = path.join(basePath, '.issues', '.lock');
+  let lock: IssueLock;
+
+  const exists = (): Error => Object.assign(new Error('EEXIST'), { code: 'EEXIST' });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    lock = new IssueLock(basePath);
+    mockedFs.rm.mockResolvedValue(undefined);
+  });
+
+  it('should acquire the lock by creating the lock directory', async () => {
+    mockedFs.mkdir.mockResolvedValue(undefined);
+
+    await lock.acquire();
+
+    expect(mockedFs.mkdir).toHaveBeenCalledWith(lockPath);
+  });
+
+  it('should wait until another process releases the lock', async () => {
+    mockedFs.mkdir
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(exists())
+      .mockResolvedValueOnce(undefined);
+    mockedFs.stat.mockResolvedValue({ mtimeMs: Date.now() } as any);
+
+    await lock.acquire();
+
+    expect(mockedFs.mkdir).toHaveBeenCalledTimes(3);
+    expect(mockedFs.rm).not.toHaveBeenCalled();
+  });
+
+  it('should take over a stale lock', async () => {
+    mockedFs.mkdir
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(exists())
+      .mockResolvedValueOnce(undefined);
+    mockedFs.stat.mockResolvedValue({ mtimeMs: Date.now() - 60_000 } as any);
+
+    await lock.acquire();
+
+    expect(mockedFs.rm).toHaveBeenCalledWith(lockPath, { recursive: true, force: true });
+  });
+
+  it('should give up after the timeout', async () => {
+    mockedFs.mkdir.mockImplementation((async (dir: string) => {
+      if (dir === lockPath) {
+        throw exists();
+      }
+    }) as any);
+    mockedFs.stat.mockResolvedValue({ mtimeMs: Date.now() } as any);
+
+    await expect(lock.acquire(0)).rejects.toThrow('Another issue-make process');
+  });
+
+  it('should release the lock even when the locked work fails', async () => {
+    mockedFs.mkdir.mockResolvedValue(undefined);
+
+    await expect(
+      lock.withLock(async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(mockedFs.rm).toHaveBeenCalledWith(lockPath, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit Tests for Markdown Utilities
+ */
+
+import chalk from 'chalk';
+import { renderMarkdown } from '../../src/utils/markdown';
+
+describe('Markdown', () => {
+  const level = chalk.level;
+
+  beforeEach(() => {
+    chalk.level = 0;
+  });
+
+  afterAll(() => {
+    chalk.level = level;
+  });
+
+  it('should drop the markup of headings, emphasis, code spans and links', () => {
+    const rendered = renderMarkdown(
+      '# Parser crash\n\n## Steps\n\nRun **issue-make** with *any* `--flag`, see [the log](https://example.com/log)'
+    );
+
+    expect(rendered).toBe(
+      'Parser crash\n\nSteps\n\nRun issue-make with any --flag, see the log (https://example.com/log)'
+    );
+  });
+
+  it('should render images as their alt text and source', () => {
+    const rendered = renderMarkdown('Screenshot: ![crash dialog](docs/crash.png) and [the log](log.txt)');
+
+    expect(rendered).toBe('Screenshot: [image: crash dialog] (docs/crash.png) and the log (log.txt)');
+  });
+
+  it('should mark code block lines and leave their contents alone', () => {
+    const rendered = renderMarkdown('Before\n\n```ts\nconst a = **b**;\n- not a list\n```\n\nAfter');
+
+    expect(rendered).toBe('Before\n\n│ const a = **b**;\n│ - not a list\n\nAfter');
+  });
+
+  it('should render lists, checklists, quotes and rules', () => {
+    const rendered = renderMarkdown(
+      '- one\n  * nested\n1. first\n- [ ] todo\n- [x] done\n> quoted\n\n---\n\nsnake_case_name stays'
+    );
+
+    expect(rendered.split('\n')).toEqual([
+      '• one',
+      '  • nested',
+      '1. first',
+      '☐ todo',
+      '☑ done',
+      '│ quoted',
+      '',
+      '─'.repeat(40),
+      '',
+      'snake_case_name stays',
+    ]);
+  });
+
+  it('should style the text when the terminal supports colour', () => {
+    chalk.level = 1;
+
+    const rendered = renderMarkdown('## Steps\n\n- [x] done');
+
+    expect(rendered).toContain(chalk.bold('Steps'));
+    expect(rendered).toContain(chalk.green('☑'));
+    expect(rendered).not.toContain('##');
+  });
+});
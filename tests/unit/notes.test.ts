@@ -0,0 +1,68 @@
+/**
+ * Unit Tests for Notes Module
+ */
+
+import { parseIssueBody, appendNote, formatNote } from '../../src/core/notes';
+
+describe('Notes', () => {
+  const first = { at: '2026-01-12T09:30:00Z', by: 'alice', text: 'Reproduced on Windows' };
+  const second = { at: '2026-01-13T14:00:00Z', by: 'Bob Smith', text: 'Fixed in the parser\n\n- see #3' };
+
+  describe('appendNote', () => {
+    it('should create the Notes section after the description', () => {
+      const content = appendNote('Parser fails on CRLF\n', first);
+
+      expect(content).toBe(
+        'Parser fails on CRLF\n\n## Notes\n\n### 2026-01-12T09:30:00Z by alice\n\nReproduced on Windows\n'
+      );
+    });
+
+    it('should add later notes to the end of the section', () => {
+      const content = appendNote(appendNote('Parser fails on CRLF\n', first), second);
+
+      expect(content.match(/## Notes/g)).toHaveLength(1);
+      expect(content.endsWith(formatNote(second))).toBe(true);
+    });
+
+    it('should keep notes in front of a merged solution', () => {
+      const archived = 'Parser fails on CRLF\n\n---\n\n## Solution\n\nNormalize line endings\n';
+
+      const content = appendNote(archived, first);
+
+      expect(content).toBe(
+        'Parser fails on CRLF\n\n## Notes\n\n### 2026-01-12T09:30:00Z by alice\n\nReproduced on Windows' +
+          '\n\n---\n\n## Solution\n\nNormalize line endings\n'
+      );
+    });
+  });
+
+  describe('parseIssueBody', () => {
+    it('should split the description, notes and solution', () => {
+      const content = `${appendNote(appendNote('Parser fails on CRLF\n', first), second).trimEnd()}\n\n---\n\n## Previous Solution (closed 2026-01-14)\n\nOld fix\n`;
+
+      const parts = parseIssueBody(content);
+
+      expect(parts.description).toBe('Parser fails on CRLF\n\n');
+      expect(parts.notes).toEqual([first, second]);
+      expect(parts.solution).toBe('\n\n---\n\n## Previous Solution (closed 2026-01-14)\n\nOld fix\n');
+    });
+
+    it('should keep text written under an existing Notes heading with the description', () => {
+      const content = appendNote('Parser fails on CRLF\n\n## Notes\n\nSee the mailing list thread.\n', first);
+
+      const parts = parseIssueBody(content);
+
+      expect(parts.description).toBe('Parser fails on CRLF\n\n## Notes\n\nSee the mailing list thread.\n\n');
+      expect(parts.notes).toEqual([first]);
+      expect(parseIssueBody('Intro\n\n## Notes\n\n- ask Bob\n').description).toBe('Intro\n\n## Notes\n\n- ask Bob\n');
+    });
+
+    it('should leave bodies without notes unchanged', () => {
+      expect(parseIssueBody('Just a description\n')).toEqual({
+        description: 'Just a description\n',
+        notes: [],
+        solution: '',
+      });
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit Tests for Output Utilities
+ */
+
+import {
+  parseOutputFormat,
+  toIssueRecord,
+  toIssueDetailRecord,
+  formatIssueList,
+  formatIssueDetail,
+  formatSearchRecords,
+} from '../../src/utils/output';
+import { IssueFile, IssueListItem } from '../../src/core/types';
+
+describe('Output', () => {
+  const issues: IssueListItem[] = [
+    { title: 'Parser, CRLF', number: 0, index: 0, id: 'IM-1', type: 'bug', status: 'stash', labels: ['parser', 'io'] },
+    { title: 'Say "hi"', number: 1, index: 1, type: 'feat', status: 'doing', checklist: { done: 1, total: 2 } },
+  ];
+
+  describe('parseOutputFormat', () => {
+    it('should default to the table and reject unknown formats', () => {
+      expect(parseOutputFormat(undefined)).toBe('table');
+      expect(parseOutputFormat('JSON')).toBe('json');
+      expect(parseOutputFormat('xml')).toBeNull();
+    });
+  });
+
+  describe('toIssueRecord', () => {
+    it('should fill every key of the record', () => {
+      expect(toIssueRecord(issues[1])).toEqual({
+        number: 1,
+        id: null,
+        title: 'Say "hi"',
+        type: 'feat',
+        status: 'doing',
+        priority: null,
+        labels: [],
+        assignee: null,
+        due: null,
+        estimate: null,
+        updated: null,
+        checklist: { done: 1, total: 2 },
+        blocks: [],
+        blockedBy: [],
+      });
+    });
+  });
+
+  describe('formatIssueList', () => {
+    it('should print JSON that parses back to the records', () => {
+      expect(JSON.parse(formatIssueList(issues, 'json'))).toEqual(issues.map(toIssueRecord));
+      expect(formatIssueList([], 'json')).toBe('[]');
+    });
+
+    it('should quote CSV cells and escape TSV cells', () => {
+      const csv = formatIssueList(issues, 'csv').split('\n');
+      const tsv = formatIssueList([{ ...issues[0], title: 'Tab\there' }], 'tsv').split('\n');
+
+      expect(csv[0]).toBe(
+        'number,id,title,type,status,priority,labels,assignee,due,estimate,updated,checklist,blocks,blockedBy'
+      );
+      expect(csv[1]).toBe('0,IM-1,"Parser, CRLF",bug,stash,,"parser, io",,,,,,,');
+      expect(csv[2]).toBe('1,,"Say ""hi""",feat,doing,,,,,,,1/2,,');
+      expect(tsv[1].split('\t')[2]).toBe('Tab\\there');
+    });
+
+    it('should print markdown and YAML', () => {
+      const markdown = formatIssueList([{ ...issues[0], title: 'a | b' }], 'markdown').split('\n');
+
+      expect(markdown[1]).toMatch(/^\| --- \| --- \|/);
+      expect(markdown[2]).toContain('| a \\| b |');
+      expect(formatIssueList(issues, 'yaml')).toContain('- number: 0\n  id: IM-1\n  title: Parser, CRLF\n');
+    });
+
+    it('should keep the text table and leave empty lists to the caller', () => {
+      expect(formatIssueList(issues, 'table').split('\n')[0]).toMatch(/^Index\s+ID\s+Type\s+Status\s+Labels\s+Tasks\s+Title/);
+      expect(formatIssueList([], 'table')).toBe('');
+    });
+  });
+
+  describe('formatIssueDetail', () => {
+    const issue: IssueFile = {
+      title: 'Parser',
+      number: 3,
+      id: 'IM-4',
+      type: 'bug',
+      status: 'achieved',
+      createDate: new Date(2026, 0, 12),
+      content:
+        'Fails\n\n- [x] Fix\n\n## Notes\n\n### 2026-01-13T09:00:00Z by alice\n\nSeen on Windows\n\n---\n\n## Solution\n\nNormalised line endings\n',
+      filePath: '/project/.issues/achieved/2026-01-14_Parser.3.md',
+      metadata: {
+        'Create Date': '2026-01-12',
+        Type: 'bug',
+        Index: 3,
+        ID: 'IM-4',
+        Priority: 'High',
+        History: [{ At: '2026-01-13T08:00:00Z', From: 'stash', To: 'doing', By: 'alice' }],
+        Sessions: [{ Start: '2026-01-13T08:00:00Z', End: '2026-01-13T09:30:00Z', By: 'alice' }],
+      } as any,
+    };
+
+    it('should split the body and convert the frontmatter', () => {
+      expect(toIssueDetailRecord(issue, '/project')).toMatchObject({
+        number: 3,
+        priority: 'high',
+        checklist: { done: 1, total: 1 },
+        created: '2026-01-12',
+        file: '.issues/achieved/2026-01-14_Parser.3.md',
+        timeTracked: 90,
+        description: 'Fails\n\n- [x] Fix',
+        notes: [{ at: '2026-01-13T09:00:00Z', by: 'alice', text: 'Seen on Windows' }],
+        solution: '## Solution\n\nNormalised line endings',
+        history: [{ at: '2026-01-13T08:00:00Z', from: 'stash', to: 'doing', by: 'alice' }],
+      });
+    });
+
+    it('should print a single JSON object', () => {
+      expect(JSON.parse(formatIssueDetail(issue, 'json', '/project'))).toMatchObject({ id: 'IM-4' });
+    });
+  });
+
+  describe('formatSearchRecords', () => {
+    it('should round the score and keep the snippets', () => {
+      const [record] = JSON.parse(
+        formatSearchRecords(
+          [{ issue: issues[0], score: 1.23456, snippets: [{ field: 'notes', text: 'CRLF again' }] }],
+          'json'
+        )
+      );
+
+      expect(record).toMatchObject({ id: 'IM-1', score: 1.235, snippets: [{ field: 'notes', text: 'CRLF again' }] });
+    });
+  });
+});
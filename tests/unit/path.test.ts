@@ -15,6 +15,8 @@ import {
   getAchievedDir,
   getSolutionPath,
   getAgentsPath,
+  isDatedArchiveFilename,
+  extractIssueTitle,
 } from '../../src/utils/path';
 import * as path from 'path';
 
@@ -77,6 +79,15 @@ describe('Path Utilities', () => {
       expect(filename).toBe('untitled.6.md');
     });
 
+    it('should follow the configured filename scheme', () => {
+      const filename = generateIssueFilename('  Add new feature  ', 8, {
+        maxTitleLength: 10,
+        wordSeparator: '_',
+      });
+
+      expect(filename).toBe('Add_new_fe.8.md');
+    });
+
     it('should use "untitled" for title with only invalid characters', () => {
       const filename = generateIssueFilename('<<<>>>???', 7);
       expect(filename).toBe('untitled.7.md');
@@ -84,31 +95,45 @@ describe('Path Utilities', () => {
   });
 
   describe('AC-4.3.2: File naming in achieved directory', () => {
-    it('should generate filename without number', () => {
+    it('should prefix the close date and keep the original index', () => {
       const title = 'Add User Authentication';
-      const filename = generateAchievedFilename(title);
+      const filename = generateAchievedFilename(title, 3, '2026-01-15');
 
-      expect(filename).toBe('Add-User-Authentication.md');
+      expect(filename).toBe('2026-01-15_Add-User-Authentication.3.md');
     });
 
-    it('should remove ID from filename', () => {
-      const title = 'Add User Authentication';
-      const stashFilename = generateIssueFilename(title, 0);
-      const achievedFilename = generateAchievedFilename(title);
+    it('should omit the index when it is unknown', () => {
+      const filename = generateAchievedFilename('Fix typo', null, '2026-01-15');
+
+      expect(filename).toBe('2026-01-15_Fix-typo.md');
+    });
 
-      expect(stashFilename).toContain('.0.');
-      expect(achievedFilename).not.toContain('.0.');
+    it('should never reuse an existing archive name', () => {
+      const existing = ['2026-01-15_Fix-typo.0.md', '2026-01-15_Fix-typo-2.0.md'];
+      const filename = generateAchievedFilename('Fix typo', 0, '2026-01-15', existing);
+
+      expect(filename).toBe('2026-01-15_Fix-typo-3.0.md');
+    });
+
+    it('should treat names differing only by case as collisions', () => {
+      const filename = generateAchievedFilename('fix typo', 0, '2026-01-15', [
+        '2026-01-15_Fix-Typo.0.md',
+      ]);
+
+      expect(filename).toBe('2026-01-15_fix-typo-2.0.md');
     });
 
     it('should keep title consistent between stash and achieved', () => {
       const title = 'Add User Authentication';
       const stashFilename = generateIssueFilename(title, 0);
-      const achievedFilename = generateAchievedFilename(title);
+      const achievedFilename = generateAchievedFilename(title, 0, '2026-01-15');
 
-      const stashTitlePart = stashFilename.split('.')[0];
-      const achievedTitlePart = achievedFilename.replace('.md', '');
+      expect(extractIssueTitle(achievedFilename, true)).toBe(extractIssueTitle(stashFilename));
+    });
 
-      expect(stashTitlePart).toBe(achievedTitlePart);
+    it('should recognise dated archive filenames', () => {
+      expect(isDatedArchiveFilename('2026-01-15_Fix-typo.0.md')).toBe(true);
+      expect(isDatedArchiveFilename('Fix-typo.md')).toBe(false);
     });
   });
 
@@ -185,6 +210,11 @@ describe('Path Utilities', () => {
       expect(solutionPath).toBe(path.join(basePath, '.issues', 'solution.md'));
     });
 
+    it('should generate per-issue solution path', () => {
+      const solutionPath = getSolutionPath(basePath, 3);
+      expect(solutionPath).toBe(path.join(basePath, '.issues', 'solution.3.md'));
+    });
+
     it('should generate AGENTS.md path', () => {
       const agentsPath = getAgentsPath(basePath);
       expect(agentsPath).toBe(path.join(basePath, 'AGENTS.md'));
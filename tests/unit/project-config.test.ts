@@ -0,0 +1,216 @@
+/**
+ * Unit Tests for Project Configuration
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_PROJECT_CONFIG,
+  ProjectConfigError,
+  loadProjectConfig,
+  validateProjectConfig,
+  isTransitionAllowed,
+} from '../../src/core/project-config';
+import { IssueType } from '../../src/core/types';
+import { getStashDir, getAgentsPath } from '../../src/utils/path';
+
+describe('Project configuration', () => {
+  const configPath = '/project/.issues/config.yaml';
+
+  describe('validateProjectConfig', () => {
+    it('should fill in defaults for an empty file', () => {
+      expect(validateProjectConfig(null, configPath)).toEqual(DEFAULT_PROJECT_CONFIG);
+    });
+
+    it('should merge partial sections with the defaults', () => {
+      const config = validateProjectConfig(
+        { directories: { achieved: 'done' }, defaults: { type: 'bug' } },
+        configPath
+      );
+
+      expect(config.directories).toEqual({ stash: 'stash', doing: 'doing', achieved: 'done' });
+      expect(config.defaults.type).toBe(IssueType.BUG);
+      expect(config.filenames).toEqual(DEFAULT_PROJECT_CONFIG.filenames);
+    });
+
+    it('should point at unknown keys', () => {
+      expect(() => validateProjectConfig({ directories: { stach: 'x' } }, configPath)).toThrow(
+        'directories.stach: unknown key'
+      );
+    });
+
+    it('should reject directory names with separators', () => {
+      expect(() =>
+        validateProjectConfig({ directories: { doing: 'work/in-progress' } }, configPath)
+      ).toThrow(ProjectConfigError);
+    });
+
+    it('should reject directory names issue-make uses under .issues', () => {
+      expect(() =>
+        validateProjectConfig({ directories: { achieved: 'Templates' } }, configPath)
+      ).toThrow('directories.achieved: "Templates" is reserved');
+      expect(() =>
+        validateProjectConfig({ workflow: { states: { templates: {} } } }, configPath)
+      ).toThrow('workflow.states.templates.directory: "templates" is reserved');
+      expect(() =>
+        validateProjectConfig({ workflow: { states: { review: { directory: 'attachments' } } } }, configPath)
+      ).toThrow('is reserved');
+    });
+
+    it('should reject directories that share a name', () => {
+      expect(() =>
+        validateProjectConfig({ directories: { stash: 'Todo', doing: 'todo' } }, configPath)
+      ).toThrow('directories: stash, doing and achieved must use different directory names');
+    });
+
+    it('should reject an agents file outside the project', () => {
+      expect(() => validateProjectConfig({ agentsFile: '../AGENTS.md' }, configPath)).toThrow(
+        'agentsFile'
+      );
+    });
+
+    it('should reject an unknown default type', () => {
+      let error: ProjectConfigError | undefined;
+      try {
+        validateProjectConfig({ defaults: { type: 'story' } }, configPath);
+      } catch (caught) {
+        error = caught as ProjectConfigError;
+      }
+
+      expect(error).toBeInstanceOf(ProjectConfigError);
+      expect(error?.key).toBe('defaults.type');
+      expect(error?.message).toContain(configPath);
+    });
+
+    it('should replace the built-in types with configured ones', () => {
+      const config = validateProjectConfig(
+        {
+          types: {
+            spike: { color: 'magenta', description: 'Time-boxed research', template: '## Findings' },
+            chore: null,
+          },
+        },
+        configPath
+      );
+
+      expect(config.types).toEqual([
+        { name: 'spike', color: 'magenta', description: 'Time-boxed research', template: '## Findings' },
+        { name: 'chore', color: 'white', description: 'chore' },
+      ]);
+      expect(config.defaults.type).toBe('spike');
+    });
+
+    it('should reject invalid type definitions', () => {
+      expect(() => validateProjectConfig({ types: { Spike: {} } }, configPath)).toThrow('types.Spike');
+      expect(() =>
+        validateProjectConfig({ types: { spike: { color: 'purple' } } }, configPath)
+      ).toThrow('types.spike.color');
+      expect(() => validateProjectConfig({ types: {} }, configPath)).toThrow('at least one');
+    });
+
+    it('should add custom workflow states after the built-in ones', () => {
+      const config = validateProjectConfig(
+        {
+          directories: { doing: 'wip' },
+          workflow: {
+            states: {
+              wontfix: { terminal: true, directory: 'wont-fix' },
+              review: { description: 'Waiting for review' },
+              doing: { description: 'Being worked on' },
+            },
+          },
+        },
+        configPath
+      );
+
+      expect(config.workflow.states.map(state => [state.name, state.directory, state.terminal])).toEqual([
+        ['stash', 'stash', false],
+        ['doing', 'wip', false],
+        ['review', 'review', false],
+        ['achieved', 'achieved', true],
+        ['wontfix', 'wont-fix', true],
+      ]);
+      expect(config.workflow.states[1].description).toBe('Being worked on');
+      expect(config.workflow.transitions.review).toEqual(['stash', 'doing', 'achieved', 'wontfix']);
+    });
+
+    it('should validate workflow states and transitions', () => {
+      expect(() =>
+        validateProjectConfig({ workflow: { states: { doing: { terminal: true } } } }, configPath)
+      ).toThrow('workflow.states.doing.terminal');
+      expect(() =>
+        validateProjectConfig({ workflow: { states: { review: { directory: 'doing' } } } }, configPath)
+      ).toThrow('every state must use a different directory');
+      expect(() =>
+        validateProjectConfig({ workflow: { transitions: { stash: ['review'] } } }, configPath)
+      ).toThrow('workflow.transitions.stash');
+      expect(() =>
+        validateProjectConfig({ workflow: { transitions: { stash: ['stash'] } } }, configPath)
+      ).toThrow('cannot transition to itself');
+    });
+
+    it('should leave states without transitions no way out', () => {
+      const config = validateProjectConfig(
+        { workflow: { transitions: { stash: ['doing'], doing: ['achieved'] } } },
+        configPath
+      );
+
+      expect(isTransitionAllowed(config, 'stash', 'doing')).toBe(true);
+      expect(isTransitionAllowed(config, 'stash', 'achieved')).toBe(false);
+      expect(isTransitionAllowed(config, 'achieved', 'doing')).toBe(false);
+    });
+
+    it('should validate the filename scheme', () => {
+      expect(() =>
+        validateProjectConfig({ filenames: { maxTitleLength: 5 } }, configPath)
+      ).toThrow('filenames.maxTitleLength');
+      expect(() =>
+        validateProjectConfig({ filenames: { wordSeparator: '.' } }, configPath)
+      ).toThrow('filenames.wordSeparator');
+    });
+
+    it('should read the checklist setting', () => {
+      expect(
+        validateProjectConfig({ checklist: { requireComplete: true } }, configPath).checklist
+      ).toEqual({ requireComplete: true });
+      expect(() =>
+        validateProjectConfig({ checklist: { requireComplete: 'yes' } }, configPath)
+      ).toThrow('checklist.requireComplete: must be true or false');
+    });
+  });
+
+  describe('loadProjectConfig', () => {
+    let basePath: string;
+
+    beforeEach(() => {
+      basePath = fs.mkdtempSync(path.join(os.tmpdir(), 'issue-make-config-'));
+      fs.mkdirSync(path.join(basePath, '.issues'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(basePath, { recursive: true, force: true });
+    });
+
+    it('should use defaults when there is no config file', () => {
+      expect(loadProjectConfig(basePath)).toEqual(DEFAULT_PROJECT_CONFIG);
+      expect(getStashDir(basePath)).toBe(path.join(basePath, '.issues', 'stash'));
+    });
+
+    it('should drive the path helpers', () => {
+      fs.writeFileSync(
+        path.join(basePath, '.issues', 'config.yaml'),
+        'directories:\n  stash: backlog\nagentsFile: docs/AGENTS.md\n'
+      );
+
+      expect(getStashDir(basePath)).toBe(path.join(basePath, '.issues', 'backlog'));
+      expect(getAgentsPath(basePath)).toBe(path.join(basePath, 'docs', 'AGENTS.md'));
+    });
+
+    it('should report YAML syntax errors', () => {
+      fs.writeFileSync(path.join(basePath, '.issues', 'config.yaml'), 'directories: [stash\n');
+
+      expect(() => loadProjectConfig(basePath)).toThrow(ProjectConfigError);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit Tests for Search Module
+ */
+
+import {
+  parseSearchQuery,
+  hasSearchTerms,
+  rankDocuments,
+  highlightMatches,
+  formatSearchHits,
+} from '../../src/core/search';
+
+describe('Search', () => {
+  const document = (title: string, description = '', notes = '', solution = '') => ({
+    title,
+    description,
+    notes,
+    solution,
+  });
+
+  describe('parseSearchQuery', () => {
+    it('should split terms, phrases and exclusions', () => {
+      expect(parseSearchQuery('Parser "empty input" -windows -"line endings" file-manager')).toEqual({
+        terms: ['parser'],
+        phrases: [
+          ['empty', 'input'],
+          ['file', 'manager'],
+        ],
+        excludedTerms: ['windows'],
+        excludedPhrases: [['line', 'endings']],
+      });
+    });
+
+    it('should need a term that is not excluded', () => {
+      expect(hasSearchTerms(parseSearchQuery('-windows - ""'))).toBe(false);
+      expect(hasSearchTerms(parseSearchQuery('"unclosed phrase'))).toBe(true);
+    });
+  });
+
+  describe('rankDocuments', () => {
+    const documents = [
+      document('Login page', 'The login form is slow'),
+      document('Parser crash', 'The parser crashes on empty input'),
+      document('Docs', 'Describe the parser options', '', 'Wrote the parser chapter'),
+      document('Windows paths', 'The parser fails on empty input on Windows'),
+    ];
+
+    it('should rank title matches above body matches', () => {
+      const rankings = rankDocuments(documents, parseSearchQuery('parser'));
+
+      expect(rankings.map(ranking => ranking.index)).toEqual([1, 2, 3]);
+      expect(rankings[0].score).toBeGreaterThan(rankings[1].score);
+    });
+
+    it('should require phrases and drop excluded terms', () => {
+      expect(rankDocuments(documents, parseSearchQuery('"empty input"')).map(r => r.index)).toEqual([1, 3]);
+      expect(rankDocuments(documents, parseSearchQuery('"input empty"'))).toEqual([]);
+      expect(
+        rankDocuments(documents, parseSearchQuery('"empty input" -windows')).map(r => r.index)
+      ).toEqual([1]);
+    });
+
+    it('should cut a snippet from every field that matches', () => {
+      const [ranking] = rankDocuments([documents[2]], parseSearchQuery('chapter'));
+
+      expect(ranking.snippets).toEqual([{ field: 'solution', text: 'Wrote the parser chapter' }]);
+    });
+
+    it('should shorten long fields around the first match', () => {
+      const long = `${'word '.repeat(40)}the parser crashes here ${'tail '.repeat(40)}`;
+      const [ranking] = rankDocuments([document('Long', long)], parseSearchQuery('crashes'));
+      const snippet = ranking.snippets[0].text;
+
+      expect(snippet.startsWith('…word')).toBe(true);
+      expect(snippet.endsWith('tail…')).toBe(true);
+      expect(snippet).toContain('the parser crashes here');
+    });
+  });
+
+  describe('highlightMatches', () => {
+    it('should mark the query words regardless of case', () => {
+      expect(highlightMatches('Parser crashes on the parser', parseSearchQuery('parser'), word => `[${word}]`)).toBe(
+        '[Parser] crashes on the [parser]'
+      );
+    });
+  });
+
+  describe('formatSearchHits', () => {
+    it('should print the issue line and its snippets', () => {
+      const output = formatSearchHits(
+        [
+          {
+            issue: { title: 'Parser crash', number: 3, index: 3, id: 'IM-4', type: 'bug', status: 'doing' },
+            score: 1.5,
+            snippets: [{ field: 'description', text: 'The parser crashes' }],
+          },
+        ],
+        parseSearchQuery('crashes')
+      );
+
+      expect(output.replace(/\u001b\[\d+m/g, '')).toBe(
+        '#3 IM-4 Parser crash (doing, bug)\n  description: The parser crashes'
+      );
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Unit Tests for Table Utilities
+ */
+
+import { buildIssueRows, formatTable } from '../../src/utils/table';
+import { IssueListItem } from '../../src/core/types';
+
+describe('Table Utilities', () => {
+  const issues: IssueListItem[] = [
+    { title: 'Add Auth', number: 0, index: 0, id: 'IM-1', type: 'feat', status: 'stash' },
+    {
+      title: 'Fix Login',
+      number: 1,
+      index: 1,
+      type: 'bug',
+      status: 'doing',
+      priority: 'high',
+      labels: ['auth', 'ui'],
+    },
+  ];
+
+  it('should only show planning columns some issue sets', () => {
+    const rows = buildIssueRows(issues);
+
+    expect(rows[0]).toEqual(['Index', 'ID', 'Type', 'Status', 'Priority', 'Labels', 'Title']);
+    expect(rows[1]).toEqual(['0', 'IM-1', 'feat', 'stash', '-', '-', 'Add Auth']);
+    expect(rows[2]).toEqual(['1', '-', 'bug', 'doing', 'high', 'auth, ui', 'Fix Login']);
+  });
+
+  it('should show checklist progress when some issue has a checklist', () => {
+    const rows = buildIssueRows([{ ...issues[0], checklist: { done: 3, total: 7 } }, issues[1]]);
+
+    expect(rows[0]).toEqual(['Index', 'ID', 'Type', 'Status', 'Priority', 'Labels', 'Tasks', 'Title']);
+    expect(rows[1][6]).toBe('3/7');
+    expect(rows[2][6]).toBe('-');
+  });
+
+  it('should leave out the status column when asked', () => {
+    const rows = buildIssueRows([issues[0]], { status: false });
+
+    expect(rows[0]).toEqual(['Index', 'ID', 'Type', 'Title']);
+  });
+
+  it('should align columns under a separator', () => {
+    expect(formatTable([['Index', 'Title'], ['10', 'Add Auth']])).toBe(
+      'Index  Title   \n-----  --------\n10     Add Auth'
+    );
+  });
+
+  it('should format no rows as empty text', () => {
+    expect(formatTable([])).toBe('');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for Templates Module
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as projectConfig from '../../src/core/project-config';
+import { getGitBranch } from '../../src/utils/git';
+import { BUILTIN_TEMPLATES, loadIssueTemplate, renderIssueTemplate } from '../../src/core/templates';
+
+jest.mock('fs/promises');
+jest.mock('../../src/utils/git');
+
+const mockedFs = fs as jest.Mocked<typeof fs>;
+const mockedGetGitBranch = getGitBranch as jest.MockedFunction<typeof getGitBranch>;
+
+describe('Templates', () => {
+  const basePath = '/test/project';
+  const values = {
+    description: 'Parser crashes on empty input\n',
+    title: 'Parser crash',
+    type: 'bug',
+    id: 'IM-4',
+    date: '2026-01-12',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedFs.readFile.mockRejectedValue(new Error('ENOENT'));
+    mockedGetGitBranch.mockResolvedValue('fix/parser');
+  });
+
+  describe('loadIssueTemplate', () => {
+    it('should prefer the template file of the type', async () => {
+      mockedFs.readFile.mockResolvedValueOnce('## Steps\r\n\r\n{{description}}\r\n' as any);
+
+      await expect(loadIssueTemplate(basePath, 'bug')).resolves.toBe('## Steps\n\n{{description}}\n');
+      expect(mockedFs.readFile).toHaveBeenCalledWith(
+        path.join(basePath, '.issues', 'templates', 'bug.md'),
+        'utf-8'
+      );
+    });
+
+    it('should fall back to the configured and then the built-in template', async () => {
+      const spy = jest.spyOn(projectConfig, 'loadProjectConfig').mockReturnValue({
+        ...projectConfig.DEFAULT_PROJECT_CONFIG,
+        types: [{ name: 'spike', color: 'magenta', description: 'Research', template: '## Findings' }],
+        defaults: { type: 'spike' },
+      });
+
+      await expect(loadIssueTemplate(basePath, 'spike')).resolves.toBe('## Findings');
+      spy.mockRestore();
+      await expect(loadIssueTemplate(basePath, 'bug')).resolves.toBe(BUILTIN_TEMPLATES.bug);
+      await expect(loadIssueTemplate(basePath, 'todo')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('renderIssueTemplate', () => {
+    it('should fill in the placeholders', async () => {
+      const body = await renderIssueTemplate(
+        '# {{title}} ({{ id }})\n\n{{description}}\n\nOn {{git.branch}} since {{date}}, {{unknown}}\n',
+        values,
+        basePath
+      );
+
+      expect(body).toBe(
+        '# Parser crash (IM-4)\n\nParser crashes on empty input\n\nOn fix/parser since 2026-01-12, {{unknown}}\n'
+      );
+    });
+
+    it('should put the description above a template without its placeholder', async () => {
+      const body = await renderIssueTemplate('## Findings\n', values, basePath);
+
+      expect(body).toBe('Parser crashes on empty input\n\n## Findings\n');
+      expect(mockedGetGitBranch).not.toHaveBeenCalled();
+    });
+
+    it('should keep the description as written when the template is empty', async () => {
+      await expect(renderIssueTemplate('\n', values, basePath)).resolves.toBe(values.description);
+      await expect(renderIssueTemplate(undefined, values, basePath)).resolves.toBe(values.description);
+    });
+
+    it('should ship bug and feature sections', async () => {
+      const bug = await renderIssueTemplate(BUILTIN_TEMPLATES.bug, values, basePath);
+      const feat = await renderIssueTemplate(BUILTIN_TEMPLATES.feat, values, basePath);
+
+      expect(bug).toContain('## Steps to reproduce');
+      expect(bug).toContain('## Expected\n\n## Actual\n\n## Environment\n\n- Branch: fix/parser\n');
+      expect(feat).toBe('## Motivation\n\nParser crashes on empty input\n\n## Acceptance criteria\n');
+    });
+
+    it('should leave out the branch line when there is no branch', async () => {
+      mockedGetGitBranch.mockResolvedValue('');
+
+      const bug = await renderIssueTemplate(BUILTIN_TEMPLATES.bug, values, basePath);
+
+      expect(bug).toContain('## Environment\n\n');
+      expect(bug).not.toContain('Branch:');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit Tests for Time Reports
+ */
+
+import { buildTimeReport, getSessionMinutes } from '../../src/core/time-report';
+import { IssueListItem } from '../../src/core/types';
+
+describe('Time Report', () => {
+  // Local times so day boundaries do not depend on the time zone running the tests
+  const at = (day: number, hour: number, minute = 0) =>
+    new Date(2026, 9, day, hour, minute).toISOString();
+  const now = new Date(2026, 9, 19, 12, 0);
+
+  const issues: IssueListItem[] = [
+    {
+      title: 'Auth',
+      number: 0,
+      index: 0,
+      type: 'feat',
+      status: 'achieved',
+      labels: ['auth', 'api'],
+      sessions: [
+        { Start: at(1, 9), End: at(1, 11), By: 'alice' },
+        { Start: at(10, 9), End: at(10, 9, 30), By: 'alice' },
+      ],
+    },
+    {
+      title: 'Crash',
+      number: 1,
+      index: 1,
+      type: 'bug',
+      status: 'doing',
+      sessions: [{ Start: at(19, 11), By: 'bob' }],
+    },
+    { title: 'Idea', number: 2, index: 2, type: 'feat', status: 'stash' },
+  ];
+
+  it('should count running sessions until now', () => {
+    expect(getSessionMinutes({ Start: at(19, 11), By: 'bob' }, null, now, now)).toBe(60);
+  });
+
+  it('should total time per type', () => {
+    const report = buildTimeReport(issues, {}, now);
+
+    expect(report.success).toBe(true);
+    expect(report.rows).toEqual([
+      { key: 'feat', issues: 1, minutes: 150 },
+      { key: 'bug', issues: 1, minutes: 60 },
+    ]);
+    expect(report.totalMinutes).toBe(210);
+  });
+
+  it('should count issues with several labels under each label', () => {
+    const report = buildTimeReport(issues, { by: 'label' }, now);
+
+    expect(report.rows?.map(row => [row.key, row.minutes])).toEqual([
+      ['api', 150],
+      ['auth', 150],
+      ['(none)', 60],
+    ]);
+    expect(report.totalMinutes).toBe(210);
+  });
+
+  it('should only count time inside the inclusive date range', () => {
+    const report = buildTimeReport(issues, { since: '2026-10-02', until: '2026-10-10' }, now);
+
+    expect(report.rows).toEqual([{ key: 'feat', issues: 1, minutes: 30 }]);
+    expect(report.days).toBe(9);
+  });
+
+  it('should reject malformed ranges and groupings', () => {
+    expect(buildTimeReport(issues, { since: 'last week' }).error).toContain('Invalid --since date');
+    expect(buildTimeReport(issues, { since: '2026-10-10', until: '2026-10-01' }).error).toContain(
+      'is after --until'
+    );
+    expect(buildTimeReport(issues, { by: 'assignee' }).error).toContain('Invalid grouping');
+  });
+});
@@ -16,6 +16,14 @@ import {
   isValidFilePath,
   isValidMarkdown,
   isValidFrontmatter,
+  validateIssueFields,
+  parseLabels,
+  parseIssueFields,
+  extractFieldTokens,
+  findInvalidFields,
+  parseIssueHistory,
+  parseWorkSessions,
+  parseIssueLinks,
 } from '../../src/utils/validation';
 import { IssueType } from '../../src/core/types';
 
@@ -47,6 +55,11 @@ describe('Validation Utilities', () => {
       expect(validateIssueType('FEAT')).toBeNull();
       expect(validateIssueType('Feat')).toBeNull();
     });
+
+    it('should validate against a configured type list', () => {
+      expect(validateIssueType('spike', ['spike', 'chore'])).toBe('spike');
+      expect(validateIssueType('feat', ['spike', 'chore'])).toBeNull();
+    });
   });
 
   describe('AC-2.2.2: Slash command validation', () => {
@@ -279,6 +292,133 @@ describe('Validation Utilities', () => {
     });
   });
 
+  describe('Planning fields', () => {
+    it('should accept well-formed fields', () => {
+      expect(
+        validateIssueFields({
+          priority: 'High',
+          labels: ['auth', 'ui/forms'],
+          assignee: 'alice',
+          due: '2026-11-01',
+          estimate: '1w2d',
+        })
+      ).toBeNull();
+    });
+
+    it('should report the first malformed field', () => {
+      expect(validateIssueFields({ priority: 'urgent' })).toContain('Invalid priority "urgent"');
+      expect(validateIssueFields({ labels: ['has space'] })).toContain('Invalid label');
+      expect(validateIssueFields({ due: '2026-02-30' })).toContain('Invalid due date');
+      expect(validateIssueFields({ estimate: 'soon' })).toContain('Invalid estimate');
+    });
+
+    it('should normalize labels from lists and comma-separated strings', () => {
+      expect(parseLabels(' auth, ui ,auth,')).toEqual(['auth', 'ui']);
+      expect(parseLabels(['ui', 'ui', 'api'])).toEqual(['ui', 'api']);
+      expect(parseLabels(undefined)).toEqual([]);
+    });
+
+    it('should read fields leniently from frontmatter', () => {
+      expect(
+        parseIssueFields({ Priority: 'HIGH', Labels: [], Assignee: '  ', Due: '2026-11-01' })
+      ).toEqual({ priority: 'high', due: '2026-11-01' });
+    });
+
+    it('should extract planning tokens from a description', () => {
+      expect(extractFieldTokens('Fix login #auth @alice !high due:2026-11-01 est:2h')).toEqual({
+        description: 'Fix login',
+        fields: {
+          labels: ['auth'],
+          assignee: 'alice',
+          priority: 'high',
+          due: '2026-11-01',
+          estimate: '2h',
+        },
+      });
+    });
+
+    it('should leave words that only look like tokens in the description', () => {
+      const result = extractFieldTokens('Handle #42 and !important cases');
+      expect(result.description).toBe('Handle #42 and !important cases');
+      expect(result.fields).toEqual({});
+    });
+
+    it('should only read tokens at the end of the description', () => {
+      const result = extractFieldTokens('Support #include and @Override in the parser #lexer');
+      expect(result.description).toBe('Support #include and @Override in the parser');
+      expect(result.fields).toEqual({ labels: ['lexer'] });
+
+      expect(extractFieldTokens('Ask @bob whether due: is parsed #parser !low')).toEqual({
+        description: 'Ask @bob whether due: is parsed',
+        fields: { labels: ['parser'], priority: 'low' },
+      });
+    });
+
+    it('should leave a misplaced due: in the description without an error', () => {
+      expect(extractFieldTokens('Rename due:date to deadline')).toEqual({
+        description: 'Rename due:date to deadline',
+        fields: {},
+      });
+    });
+
+    it('should report malformed token values', () => {
+      expect(extractFieldTokens('Ship it due:tomorrow').error).toContain('Invalid due date');
+    });
+
+    it('should reject frontmatter with malformed optional fields', () => {
+      const frontmatter = {
+        'Create Date': '2026-01-12',
+        Type: IssueType.FEAT,
+        Priority: 'urgent',
+        Labels: ['ok'],
+        Due: 20261101,
+      };
+      expect(findInvalidFields(frontmatter)).toEqual(['Priority', 'Due']);
+      expect(isValidFrontmatter(frontmatter)).toBe(false);
+    });
+  });
+
+  describe('Issue history', () => {
+    const entry = { At: '2026-01-13T09:00:00Z', From: 'stash', To: 'doing', By: 'alice' };
+
+    it('should read well-formed entries and skip the rest', () => {
+      expect(
+        parseIssueHistory({ History: [entry, { At: 'yesterday', From: 'a', To: 'b', By: 'c' }, 'moved'] })
+      ).toEqual([entry]);
+      expect(parseIssueHistory({})).toEqual([]);
+    });
+
+    it('should read work sessions and skip ones that end before they start', () => {
+      const running = { Start: '2026-01-13T09:00:00Z', By: 'alice' };
+      const done = { ...running, End: '2026-01-13T10:00:00Z' };
+      expect(
+        parseWorkSessions({ Sessions: [done, running, { ...running, End: '2026-01-12T10:00:00Z' }] })
+      ).toEqual([done, running]);
+    });
+
+    it('should flag a malformed History list in frontmatter', () => {
+      const frontmatter = { 'Create Date': '2026-01-12', Type: IssueType.FEAT };
+      expect(findInvalidFields({ ...frontmatter, History: [entry] })).toEqual([]);
+      expect(findInvalidFields({ ...frontmatter, History: [{ ...entry, By: '' }] })).toEqual(['History']);
+    });
+  });
+
+  describe('Issue links', () => {
+    it('should read stable IDs in upper case without duplicates', () => {
+      expect(parseIssueLinks(['im-2', 'IM-2', ' IM-10 ', 3, 'bug'])).toEqual(['IM-2', 'IM-10']);
+      expect(parseIssueLinks('IM-2')).toEqual([]);
+    });
+
+    it('should flag link lists that name something other than stable IDs', () => {
+      const frontmatter = { 'Create Date': '2026-01-12', Type: IssueType.FEAT };
+      expect(findInvalidFields({ ...frontmatter, Blocks: ['IM-2'], BlockedBy: [] })).toEqual([]);
+      expect(findInvalidFields({ ...frontmatter, Blocks: 'IM-2', BlockedBy: ['#3'] })).toEqual([
+        'Blocks',
+        'BlockedBy',
+      ]);
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle special characters in identifiers', () => {
       expect(isValidIdentifier('Fix bug with émojis 🎉')).toBe(true);